@@ -0,0 +1,89 @@
+// Import Supabase client creation function for server-side authentication
+import { createClient } from "@/lib/supabase/server"
+// Import the stored per-page text of a PDF
+import { loadPdfPages } from "@/lib/pdf/extract"
+// Import the export builders
+import {
+  ANNOTATION_COLUMNS,
+  attachmentDisposition,
+  buildAnnotationExport,
+  downloadFileName,
+  EXPORT_FILE_TYPES,
+} from "@/lib/annotations/export"
+// Import the shared schemas and the query validation helper
+import { annotationSchema, annotationsExportQuerySchema } from "@/lib/api/schemas"
+import { parseSearchParams } from "@/lib/api/validation"
+
+/**
+ * GET API Route Handler for annotation exports
+ * Builds a Markdown study sheet, a lossless JSON file or a CSV file from the
+ * annotations of a PDF and the text of its pages, sent as a download
+ *
+ * @param req - The incoming HTTP request with the PDF id and the format as query parameters
+ * @returns The file as an attachment
+ * (400 with the errors per field if the query does not match annotationsExportQuerySchema)
+ */
+export async function GET(req: Request) {
+  try {
+    // Parse and validate the query - return 400 with the field errors if invalid
+    const query = parseSearchParams(req, annotationsExportQuerySchema)
+    if (query.response) return query.response
+    const { pdfId, format } = query.data
+
+    // Create a Supabase client instance for authentication
+    const supabase = await createClient()
+
+    // Get the currently authenticated user from the session
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    // Check if user is authenticated - return 401 Unauthorized if not
+    if (!user) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // Make sure the PDF exists and belongs to the user (RLS hides other rows)
+    const { data: pdf, error: pdfError } = await supabase
+      .from("pdf_files")
+      .select("id, name, page_count")
+      .eq("id", pdfId)
+      .maybeSingle()
+
+    if (pdfError) throw pdfError
+    if (!pdf) {
+      return Response.json({ error: "PDF not found" }, { status: 404 })
+    }
+
+    // Load the annotations, skipping rows that do not match the schema
+    const { data: rows, error: dbError } = await supabase
+      .from("annotations")
+      .select(ANNOTATION_COLUMNS)
+      .eq("pdf_id", pdfId)
+    if (dbError) throw dbError
+
+    const annotations = (rows ?? []).flatMap((row) => {
+      const parsed = annotationSchema.safeParse(row)
+      return parsed.success ? [parsed.data] : []
+    })
+    const pages = await loadPdfPages(supabase, pdfId)
+
+    const fileName = downloadFileName(pdf.name, `annotations.${EXPORT_FILE_TYPES[format].extension}`)
+    return new Response(buildAnnotationExport(format, { pdf, annotations, pages }), {
+      headers: {
+        "Content-Type": EXPORT_FILE_TYPES[format].contentType,
+        "Content-Disposition": attachmentDisposition(fileName),
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    // Log the error for debugging purposes
+    console.error("[v0] Annotation export error:", error)
+
+    // Extract error message if available
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred"
+
+    // Return a 500 error response with the error details
+    return Response.json({ error: `Failed to export annotations: ${errorMessage}` }, { status: 500 })
+  }
+}
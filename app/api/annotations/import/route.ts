@@ -0,0 +1,83 @@
+// Import Supabase client creation function for server-side authentication
+import { createClient } from "@/lib/supabase/server"
+// Import the columns returned for the added annotations
+import { ANNOTATION_COLUMNS } from "@/lib/annotations/export"
+// Import the shared schemas and the body validation helper
+import {
+  annotationSchema,
+  annotationsImportRequestSchema,
+  type AnnotationsImportResponse,
+} from "@/lib/api/schemas"
+import { parseJsonBody } from "@/lib/api/validation"
+
+/**
+ * POST API Route Handler for annotation imports
+ * Adds the annotations of a JSON export, possibly made on another PDF, to a
+ * PDF. Every annotation keeps its position, text, note, colors and dates but
+ * gets a new id; annotations on pages past the end of the PDF are skipped
+ *
+ * @param req - The incoming HTTP request containing the target PDF id and the exported file
+ * @returns JSON response with the added annotations and the number skipped
+ * (400 with the errors per field if the body does not match annotationsImportRequestSchema)
+ */
+export async function POST(req: Request) {
+  try {
+    // Parse and validate the request body - return 400 with the field errors if invalid
+    const body = await parseJsonBody(req, annotationsImportRequestSchema)
+    if (body.response) return body.response
+    const { pdfId, file } = body.data
+
+    // Create a Supabase client instance for authentication
+    const supabase = await createClient()
+
+    // Get the currently authenticated user from the session
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    // Check if user is authenticated - return 401 Unauthorized if not
+    if (!user) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // Make sure the PDF exists and belongs to the user (RLS hides other rows)
+    const { data: pdf, error: pdfError } = await supabase
+      .from("pdf_files")
+      .select("id, page_count")
+      .eq("id", pdfId)
+      .maybeSingle()
+
+    if (pdfError) throw pdfError
+    if (!pdf) {
+      return Response.json({ error: "PDF not found" }, { status: 404 })
+    }
+
+    const kept = file.annotations.filter((a) => a.page_number >= 1 && a.page_number <= pdf.page_count)
+    const skipped = file.annotations.length - kept.length
+
+    let annotations: AnnotationsImportResponse["annotations"] = []
+    if (kept.length > 0) {
+      // Copy everything but the id, which the database assigns
+      const { data: rows, error: dbError } = await supabase
+        .from("annotations")
+        .insert(
+          kept.map(({ id: _id, ...annotation }) => ({ ...annotation, user_id: user.id, pdf_id: pdfId })),
+        )
+        .select(ANNOTATION_COLUMNS)
+      if (dbError) throw dbError
+      annotations = (rows ?? []).map((row) => annotationSchema.parse(row))
+    }
+
+    const response: AnnotationsImportResponse = { annotations, skipped }
+    return Response.json(response)
+  } catch (error) {
+    // Log the error for debugging purposes
+    console.error("[v0] Annotation import error:", error)
+
+    // Extract error message if available
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred"
+
+    // Return a 500 error response with the error details
+    return Response.json({ error: `Failed to import annotations: ${errorMessage}` }, { status: 500 })
+  }
+}
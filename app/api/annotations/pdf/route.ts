@@ -0,0 +1,85 @@
+// Import Supabase client creation function for server-side authentication
+import { createClient } from "@/lib/supabase/server"
+// Import the download of uploaded PDFs and the annotation writer
+import { downloadPdfFile } from "@/lib/pdf/storage"
+import { writeAnnotatedPdf } from "@/lib/pdf/annotate"
+// Import the annotation columns and download naming
+import { ANNOTATION_COLUMNS, attachmentDisposition, downloadFileName } from "@/lib/annotations/export"
+// Import the shared schemas and the query validation helper
+import { annotatedPdfQuerySchema, annotationSchema } from "@/lib/api/schemas"
+import { parseSearchParams } from "@/lib/api/validation"
+
+/**
+ * GET API Route Handler for annotated PDF downloads
+ * Writes the annotations of a PDF into a copy of the stored file, either as
+ * real PDF annotations that show up in any PDF reader or burned into the pages
+ *
+ * @param req - The incoming HTTP request with the PDF id and the style as query parameters
+ * @returns The annotated PDF as an attachment
+ * (400 with the errors per field if the query does not match annotatedPdfQuerySchema)
+ */
+export async function GET(req: Request) {
+  try {
+    // Parse and validate the query - return 400 with the field errors if invalid
+    const query = parseSearchParams(req, annotatedPdfQuerySchema)
+    if (query.response) return query.response
+    const { pdfId, style } = query.data
+
+    // Create a Supabase client instance for authentication
+    const supabase = await createClient()
+
+    // Get the currently authenticated user from the session
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    // Check if user is authenticated - return 401 Unauthorized if not
+    if (!user) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // Make sure the PDF exists and belongs to the user (RLS hides other rows)
+    const { data: pdf, error: pdfError } = await supabase
+      .from("pdf_files")
+      .select("id, name, url")
+      .eq("id", pdfId)
+      .maybeSingle()
+
+    if (pdfError) throw pdfError
+    if (!pdf) {
+      return Response.json({ error: "PDF not found" }, { status: 404 })
+    }
+
+    // Load the annotations, skipping rows that do not match the schema
+    const { data: rows, error: dbError } = await supabase
+      .from("annotations")
+      .select(ANNOTATION_COLUMNS)
+      .eq("pdf_id", pdfId)
+    if (dbError) throw dbError
+
+    const annotations = (rows ?? []).flatMap((row) => {
+      const parsed = annotationSchema.safeParse(row)
+      return parsed.success ? [parsed.data] : []
+    })
+
+    const original = await downloadPdfFile(supabase, pdf.url)
+    const annotated = await writeAnnotatedPdf(original, annotations, style)
+
+    return new Response(new Uint8Array(annotated), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": attachmentDisposition(downloadFileName(pdf.name, "annotated.pdf")),
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    // Log the error for debugging purposes
+    console.error("[v0] Annotated PDF error:", error)
+
+    // Extract error message if available
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred"
+
+    // Return a 500 error response with the error details
+    return Response.json({ error: `Failed to create annotated PDF: ${errorMessage}` }, { status: 500 })
+  }
+}
@@ -1,74 +1,283 @@
 // Import Supabase client creation function for server-side authentication
 import { createClient } from "@/lib/supabase/server"
-// Import generateText function from the Vercel AI SDK for LLM interaction
-import { generateText } from "ai"
-// Import OpenAI model provider from the AI SDK
-import { openai } from "@ai-sdk/openai"
+// Import streamText function from the Vercel AI SDK for streamed LLM responses
+import { streamText } from "ai"
+// Import the LLM provider registry
+import {
+  getGenerationSettings,
+  getLanguageModel,
+  ModelNotAllowedError,
+  resolveModelId,
+} from "@/lib/ai/providers"
+// Import helpers for the NDJSON chat streaming protocol
+import { createChatStreamResponse, forwardTextStream } from "@/lib/chat/stream"
+// Import retrieval helpers that select the relevant passages of the PDFs
+import { ensurePdfsIndexed, retrievePassages } from "@/lib/ai/retrieval"
+// Import the system prompt builder of the tutoring modes
+import { buildTutorSystemPrompt } from "@/lib/ai/prompts"
+// Import the builder turning [n] markers into page citations
+import { buildCitations } from "@/lib/chat/citations"
+// Import the builder quoting a selected passage to the tutor
+import { withSelection } from "@/lib/chat/selection"
+// Import thread and message persistence helpers
+import {
+  createConversation,
+  deleteConversation,
+  deleteMessage,
+  getConversation,
+  insertMessage,
+  loadHistory,
+  updateConversation,
+} from "@/lib/chat/persistence"
+// Import the shared request schema and the body validation helper
+import { chatRequestSchema } from "@/lib/api/schemas"
+import { parseJsonBody } from "@/lib/api/validation"
+
+// Passages retrieved for a thread drawing on several PDFs (one PDF gets the default)
+const MULTI_DOCUMENT_PASSAGES = 10
 
 /**
  * POST API Route Handler for Chat
  * This endpoint handles incoming chat requests from the client
- * It authenticates users, processes their messages with context from PDF files,
- * and returns AI-generated responses using OpenAI's gpt-4o-mini model
- * 
- * @param req - The incoming HTTP request containing messages and PDF content
- * @returns JSON response with the AI tutor's message or an error
+ * It authenticates users, stores the question in its thread, retrieves the
+ * passages most relevant to it from the PDFs of the thread, streams the
+ * AI-generated response from the selected model with only those passages as
+ * context, and stores the answer with its citations and generation metadata.
+ * A thread may draw on several PDFs; its citations then name the PDF of each
+ * passage.
+ * A question about a passage selected in the PDF is sent to the model with
+ * the passage and its paragraph quoted, and the passage is stored with it
+ *
+ * The exchange is all-or-nothing: if no answer text is produced (error, or
+ * Stop before the first token) the question - and a thread created for it -
+ * is removed again. A partial answer is stored as is.
+ *
+ * @param req - The incoming HTTP request containing the PDF id, the thread id
+ * (null to start a new thread), the new message and optionally a model id
+ * from the allowlist, a tutoring mode, the PDFs of the thread and the selected passage
+ * @returns Streaming NDJSON response with the AI tutor's answer, or a JSON error
+ * (400 with the errors per field if the body does not match chatRequestSchema,
+ * 404 if the PDF, a PDF just added to the thread or the thread does not exist)
  */
 export async function POST(req: Request) {
   try {
-    // Parse the incoming request body to extract messages and PDF content
-    const { messages, pdfContent } = await req.json()
-    
+    // Parse and validate the request body - return 400 with the field errors if invalid
+    const body = await parseJsonBody(req, chatRequestSchema)
+    if (body.response) return body.response
+    const { pdfId, conversationId, message, model, mode, pdfIds, selection } = body.data
+
+    // Validate the requested model against the allowlist
+    const modelId = resolveModelId(model)
+
     // Create a Supabase client instance for authentication
     const supabase = await createClient()
-    
+
     // Get the currently authenticated user from the session
     const {
       data: { user },
     } = await supabase.auth.getUser()
-    
+
     // Check if user is authenticated - return 401 Unauthorized if not
     if (!user) {
       return Response.json({ error: "Unauthorized" }, { status: 401 })
     }
-    
-    // Construct the system prompt that defines the AI tutor's behavior
-    // This prompt includes the PDF content for context-aware responses
-    const systemPrompt = `You are an AI tutor helping a student understand their study materials. 
-Here is the content from their PDF document:
-${pdfContent}
-Based on this content, answer the student's questions clearly and helpfully. 
-If the question is not related to the document, politely guide them back to the material.
-Provide explanations, examples, and break down complex concepts when needed.`
-    
-    // Call the AI SDK to generate a response from OpenAI
-    const { text } = await generateText({
-      // Use gpt-4o-mini model for fast, cost-effective responses
-      model: openai("gpt-4o-mini"),
-      // Construct message history: system prompt + user messages
-      messages: [
-        { role: "system", content: systemPrompt },
-        // Spread the user's message history with proper formatting
-        ...messages.map((m: any) => ({
-          role: m.role,
-          content: m.content,
-        })),
-      ],
-      // Temperature: 0.7 provides creative but coherent responses (not too random)
-      temperature: 0.7,
-      // Limit response length to prevent overly long answers
-      maxTokens: 1000,
+
+    // Find which of the requested PDFs exist and belong to the user (RLS hides other rows)
+    const requestedPdfIds = pdfIds ? [...new Set([pdfId, ...pdfIds])] : [pdfId]
+    const { data: requestedPdfs, error: requestedError } = await supabase
+      .from("pdf_files")
+      .select("id")
+      .in("id", requestedPdfIds)
+    if (requestedError) throw requestedError
+    const foundPdfIds = new Set((requestedPdfs ?? []).map((pdf) => pdf.id as string))
+
+    if (!foundPdfIds.has(pdfId)) {
+      return Response.json({ error: "PDF not found" }, { status: 404 })
+    }
+
+    // Use the requested thread, or start a new one titled after the message
+    // (and the passage it asks about)
+    const existingConversation = conversationId
+      ? await getConversation(supabase, { conversationId, pdfId })
+      : null
+
+    if (conversationId && !existingConversation) {
+      return Response.json({ error: "Conversation not found" }, { status: 404 })
+    }
+
+    // PDFs of the thread deleted since are dropped from it; a PDF just added
+    // to the thread must exist
+    const missingPdfIds = requestedPdfIds.filter((id) => !foundPdfIds.has(id))
+    if (missingPdfIds.some((id) => !existingConversation?.pdf_ids.includes(id))) {
+      return Response.json({ error: "PDF not found" }, { status: 404 })
+    }
+    const threadPdfIds = requestedPdfIds.filter((id) => foundPdfIds.has(id))
+
+    // A thread keeps its tutoring mode and its PDFs unless the request picks others
+    const firstMessage = selection ? `${message} "${selection.text}"` : message
+    const pdfsChanged =
+      pdfIds !== undefined &&
+      !!existingConversation &&
+      (threadPdfIds.length !== existingConversation.pdf_ids.length ||
+        threadPdfIds.some((id) => !existingConversation.pdf_ids.includes(id)))
+    const conversation = !existingConversation
+      ? await createConversation(supabase, {
+          userId: user.id,
+          pdfId,
+          firstMessage,
+          mode,
+          pdfIds: threadPdfIds,
+        })
+      : (mode && mode !== existingConversation.mode) || pdfsChanged
+        ? await updateConversation(supabase, {
+            conversationId: existingConversation.id,
+            mode,
+            pdfIds: pdfsChanged ? threadPdfIds : undefined,
+          })
+        : existingConversation
+
+    // Names of the thread's PDFs; PDFs deleted since are no longer searched
+    const { data: pdfs, error: pdfsError } = await supabase
+      .from("pdf_files")
+      .select("id, name")
+      .in("id", conversation.pdf_ids)
+    if (pdfsError) throw pdfsError
+    const pdfNames = new Map((pdfs ?? []).map((pdf) => [pdf.id as string, pdf.name as string]))
+
+    // Earlier messages of the thread, read before the new one is stored
+    const history = await loadHistory(supabase, conversation.id)
+
+    return createChatStreamResponse(async (writer) => {
+      // Store the question first so it is kept even if the tab is closed
+      const userMessage = await insertMessage(supabase, {
+        userId: user.id,
+        pdfId: conversation.pdf_id,
+        viewedPdfId: pdfId,
+        conversationId: conversation.id,
+        role: "user",
+        content: message,
+        selection,
+      })
+      writer.write({ type: "user-message", conversation, message: userMessage })
+
+      // Set once the answer is stored; until then a failure undoes the exchange
+      let answerStored = false
+      let rolledBack = false
+
+      /**
+       * Undo the exchange when no answer was produced
+       */
+      const rollback = async () => {
+        if (rolledBack) return
+        rolledBack = true
+        if (existingConversation) {
+          await deleteMessage(supabase, userMessage.id)
+        } else {
+          await deleteConversation(supabase, conversation.id)
+        }
+      }
+
+      try {
+        const startedAt = Date.now()
+
+        // Index the PDFs not indexed yet, then retrieve the passages most
+        // relevant to the question and the passage it is about from all of them
+        await ensurePdfsIndexed(supabase, { userId: user.id, pdfIds: [...pdfNames.keys()] })
+        const query = selection ? `${selection.text}\n${message}` : message
+        const passages = await retrievePassages(supabase, {
+          pdfIds: [...pdfNames.keys()],
+          query,
+          limit: pdfNames.size > 1 ? MULTI_DOCUMENT_PASSAGES : undefined,
+        })
+
+        // Number every passage and label it with its page (and its PDF when
+        // the thread has several) so the tutor can cite it
+        const context = passages
+          .map((passage, i) => {
+            const source =
+              pdfNames.size > 1
+                ? `"${pdfNames.get(passage.pdfId)}", page ${passage.pageNumber}`
+                : `Page ${passage.pageNumber}`
+            return `[${i + 1}] (${source})\n${passage.content}`
+          })
+          .join("\n\n---\n\n")
+
+        // Build the system prompt of the thread's tutoring mode on the server;
+        // it includes only the retrieved passages of the PDFs
+        const systemPrompt = buildTutorSystemPrompt({
+          mode: conversation.mode,
+          context,
+          documents: [...pdfNames.values()],
+        })
+
+        // Start streaming a response from the selected model
+        // The request signal aborts generation when the client presses Stop
+        const result = streamText({
+          model: getLanguageModel(modelId),
+          // System prompt defining the tutor's behavior
+          system: systemPrompt,
+          // Thread history followed by the new question
+          messages: [...history, { role: "user", content: withSelection(message, selection) }],
+          // Temperature and maximum answer length from the environment
+          ...getGenerationSettings(),
+          abortSignal: req.signal,
+        })
+
+        // Stream the generated tokens to the client as they arrive
+        const generated = await forwardTextStream(result.fullStream, writer)
+
+        if (!generated.text) {
+          await rollback()
+          if (generated.error) throw generated.error
+          writer.write({ type: "finish", finishReason: generated.finishReason })
+          return
+        }
+
+        // Store the (possibly partial) answer with its citations and metadata
+        const citations = buildCitations(generated.text, passages)
+        writer.write({ type: "citations", citations })
+
+        const assistantMessage = await insertMessage(supabase, {
+          userId: user.id,
+          pdfId: conversation.pdf_id,
+          viewedPdfId: pdfId,
+          conversationId: conversation.id,
+          role: "assistant",
+          content: generated.text,
+          citations,
+          modelId,
+          promptTokens: generated.usage?.inputTokens,
+          completionTokens: generated.usage?.outputTokens,
+          latencyMs: Date.now() - startedAt,
+          finishReason: generated.finishReason,
+        })
+        answerStored = true
+        writer.write({ type: "assistant-message", message: assistantMessage })
+
+        if (generated.error) throw generated.error
+        writer.write({ type: "finish", finishReason: generated.finishReason })
+      } catch (error) {
+        // Retrieval or generation failed before any answer was stored
+        if (!answerStored) {
+          await rollback().catch((rollbackError) =>
+            console.error("[v0] Chat rollback error:", rollbackError),
+          )
+        }
+        throw error
+      }
     })
-    
-    // Return the AI-generated response as JSON
-    return Response.json({ message: text })
   } catch (error) {
+    // Reject models outside the allowlist as a client error
+    if (error instanceof ModelNotAllowedError) {
+      return Response.json({ error: error.message }, { status: 400 })
+    }
+
     // Log the error for debugging purposes
     console.error("[v0] Chat API error:", error)
-    
+
     // Extract error message if available
     const errorMessage = error instanceof Error ? error.message : "Unknown error occurred"
-    
+
     // Return a 500 error response with the error details
     return Response.json(
       { error: `Failed to get AI response: ${errorMessage}` },
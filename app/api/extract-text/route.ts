@@ -0,0 +1,145 @@
+// Import Supabase client creation function for server-side authentication
+import { createClient } from "@/lib/supabase/server"
+// Import PDF parsing and per-page storage helpers
+import { extractPdfText, savePdfPages } from "@/lib/pdf/extract"
+// Import the retrieval indexer used by the AI tutor
+import { indexPdfChunks } from "@/lib/ai/retrieval"
+// Import the storage helpers checking the uploaded file's URL and removing the file a replacement supersedes
+import { isOwnPdfUrl, removePdfFile } from "@/lib/pdf/storage"
+// Import the shared form schema, error type and the body validation helper
+import { extractTextFormSchema, type ErrorResponse } from "@/lib/api/schemas"
+import { parseFormBody } from "@/lib/api/validation"
+
+// PDF.js needs Node APIs, so this route cannot run on the edge runtime
+export const runtime = "nodejs"
+
+/**
+ * POST API Route Handler for PDF text extraction
+ * Receives an uploaded PDF as multipart form data, parses it on the server,
+ * creates the pdf_files record, stores the text of every page in pdf_pages and
+ * builds the retrieval index used by the AI tutor
+ *
+ * With a pdfId the file of that document is replaced instead: the record keeps
+ * its id - and with it its annotations, chats, quizzes and flashcards - while its
+ * file, text, pages and index are renewed, its summaries are deleted and the
+ * old file is removed
+ *
+ * Form fields are described by extractTextFormSchema
+ *
+ * @param req - The incoming HTTP request containing the form data
+ * @returns JSON response with the stored PDF record and its true page count
+ * (400 with the errors per field if the form is invalid or the URL is not one
+ * of the user's uploads, 404 if the replaced document does not exist)
+ */
+export async function POST(req: Request) {
+  try {
+    // Create a Supabase client instance for authentication
+    const supabase = await createClient()
+
+    // Get the currently authenticated user from the session
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    // Check if user is authenticated - return 401 Unauthorized if not
+    if (!user) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // Read and validate the submitted form fields - return 400 with the field errors if invalid
+    const form = await parseFormBody(req, extractTextFormSchema)
+    if (form.response) return form.response
+    const { file, name, url, pdfId } = form.data
+
+    // The URL is stored and later downloaded by the server, so it must be the
+    // user's own upload in the pdfs bucket - return 400 otherwise
+    if (!isOwnPdfUrl(supabase, { userId: user.id, url })) {
+      const body: ErrorResponse = {
+        error: "Invalid request",
+        fieldErrors: { url: ["The URL must point at your upload in the pdfs bucket"] },
+      }
+      return Response.json(body, { status: 400 })
+    }
+
+    // Load the document whose file is replaced (RLS hides other users' documents)
+    const { data: previous, error: previousError } = pdfId
+      ? await supabase.from("pdf_files").select("url, text_content, page_count").eq("id", pdfId).maybeSingle()
+      : { data: null, error: null }
+
+    if (previousError) throw previousError
+    if (pdfId && !previous) {
+      return Response.json({ error: "PDF not found" }, { status: 404 })
+    }
+
+    // Parse the PDF and collect the text of every page
+    const { pageCount, pages, text } = await extractPdfText(await file.arrayBuffer())
+
+    // Store PDF metadata with the full text in the database, in the replaced
+    // document's record if there is one
+    const fields = { url, text_content: text, page_count: pageCount }
+    const { data: pdf, error: dbError } = pdfId
+      ? await supabase
+          .from("pdf_files")
+          .update(name ? { ...fields, name } : fields)
+          .eq("id", pdfId)
+          .select()
+          .single()
+      : await supabase
+          .from("pdf_files")
+          .insert({ user_id: user.id, name: name ?? file.name, ...fields })
+          .select()
+          .single()
+
+    if (dbError) throw dbError
+
+    // Store the per-page text; if that fails, drop a new record again so no
+    // document exists without its pages, or point a replaced one back at its
+    // old file and text
+    try {
+      await savePdfPages(supabase, { userId: user.id, pdfId: pdf.id, pages })
+    } catch (pagesError) {
+      if (previous) {
+        await supabase.from("pdf_files").update(previous).eq("id", pdf.id)
+      } else {
+        await supabase.from("pdf_files").delete().eq("id", pdf.id)
+      }
+      throw pagesError
+    }
+
+    // Build the retrieval index; the chat route indexes lazily if this fails,
+    // so an embedding outage does not block the upload
+    try {
+      await indexPdfChunks(supabase, { userId: user.id, pdfId: pdf.id, pages })
+    } catch (indexError) {
+      console.error("[v0] PDF indexing error:", indexError)
+    }
+
+    // Summaries of the replaced file no longer match the document; a failure
+    // is only logged as the cache never serves them for the new text
+    if (previous) {
+      const { error: summariesError } = await supabase.from("summaries").delete().eq("pdf_id", pdf.id)
+      if (summariesError) console.error("[v0] Summary cleanup error:", summariesError)
+    }
+
+    // Remove the file a replacement supersedes; a leftover file is only logged
+    if (previous && previous.url !== url) {
+      await removePdfFile(supabase, previous.url).catch((removeError) =>
+        console.error("[v0] Storage cleanup error:", removeError),
+      )
+    }
+
+    return Response.json({ pdf, pageCount })
+  } catch (error) {
+    // Log the error for debugging purposes
+    console.error("[v0] Extract text API error:", error)
+
+    // Extract error message if available
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred"
+
+    // Return a 500 error response with the error details
+    return Response.json(
+      { error: `Failed to extract text from PDF: ${errorMessage}` },
+      { status: 500 }
+    )
+  }
+}
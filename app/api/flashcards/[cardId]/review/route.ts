@@ -0,0 +1,93 @@
+// Import Supabase client creation function for server-side authentication
+import { createClient } from "@/lib/supabase/server"
+// Import the SM-2 scheduler
+import { scheduleReview } from "@/lib/flashcards/scheduler"
+// Import the columns of flashcards returned to the client
+import { FLASHCARD_COLUMNS } from "@/lib/flashcards/persistence"
+// Import the shared request schema and the body validation helper
+import { flashcardReviewRequestSchema, type FlashcardReviewResponse } from "@/lib/api/schemas"
+import { parseJsonBody } from "@/lib/api/validation"
+
+/**
+ * POST API Route Handler for flashcard reviews
+ * Records how well a card was recalled (again/hard/good/easy) and schedules
+ * its next review with SM-2
+ *
+ * @param req - The incoming HTTP request containing the grade
+ * @param params - Route parameters with the card id
+ * @returns JSON response with the rescheduled card
+ * (400 with the errors per field if the body does not match flashcardReviewRequestSchema)
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ cardId: string }> }) {
+  try {
+    const { cardId } = await params
+
+    // Parse and validate the request body - return 400 with the field errors if invalid
+    const body = await parseJsonBody(req, flashcardReviewRequestSchema)
+    if (body.response) return body.response
+    const { grade } = body.data
+
+    // Create a Supabase client instance for authentication
+    const supabase = await createClient()
+
+    // Get the currently authenticated user from the session
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    // Check if user is authenticated - return 401 Unauthorized if not
+    if (!user) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // Load the card's scheduling state (RLS hides cards of other users)
+    const { data: card, error: cardError } = await supabase
+      .from("flashcards")
+      .select("id, ease_factor, interval_days, repetitions")
+      .eq("id", cardId)
+      .maybeSingle()
+
+    if (cardError) throw cardError
+    if (!card) {
+      return Response.json({ error: "Flashcard not found" }, { status: 404 })
+    }
+
+    // Schedule the next review
+    const now = new Date()
+    const next = scheduleReview(
+      { easeFactor: card.ease_factor, intervalDays: card.interval_days, repetitions: card.repetitions },
+      grade,
+      now,
+    )
+
+    const { data: updated, error: updateError } = await supabase
+      .from("flashcards")
+      .update({
+        ease_factor: next.easeFactor,
+        interval_days: next.intervalDays,
+        repetitions: next.repetitions,
+        due_at: next.dueAt.toISOString(),
+        last_reviewed_at: now.toISOString(),
+      })
+      .eq("id", cardId)
+      .select(FLASHCARD_COLUMNS)
+      .single()
+
+    if (updateError) throw updateError
+
+    const response: FlashcardReviewResponse = { card: updated }
+    return Response.json(response)
+  } catch (error) {
+    // Log the error for debugging purposes
+    console.error("[v0] Flashcard review API error:", error)
+
+    // Extract error message if available
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred"
+
+    // Return a 500 error response with the error details
+    return Response.json(
+      { error: `Failed to save review: ${errorMessage}` },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,123 @@
+// Import Supabase client creation function for server-side authentication
+import { createClient } from "@/lib/supabase/server"
+// Import the LLM provider registry
+import { ModelNotAllowedError, resolveModelId } from "@/lib/ai/providers"
+// Import the stored per-page text of a PDF
+import { loadPdfPages } from "@/lib/pdf/extract"
+// Import flashcard generation and storage helpers
+import { FlashcardGenerationError, generateFlashcards } from "@/lib/flashcards/generate"
+import { getOrCreateDeck, insertFlashcards } from "@/lib/flashcards/persistence"
+// Import the shared request schema and the body validation helper
+import { flashcardsRequestSchema, type ErrorResponse, type FlashcardsResponse } from "@/lib/api/schemas"
+import { parseJsonBody } from "@/lib/api/validation"
+
+/**
+ * POST API Route Handler for flashcard generation
+ * Generates flashcards from the whole document, a page range or the
+ * student's annotations with structured output and adds them to the deck of
+ * the PDF (created on first use). Cards already in the deck are skipped
+ *
+ * @param req - The incoming HTTP request containing the PDF id, the source,
+ * an optional page range, the number of cards and optionally a model id
+ * @returns JSON response with the deck and the newly added cards
+ * (400 with the errors per field if the body does not match flashcardsRequestSchema)
+ */
+export async function POST(req: Request) {
+  try {
+    // Parse and validate the request body - return 400 with the field errors if invalid
+    const body = await parseJsonBody(req, flashcardsRequestSchema)
+    if (body.response) return body.response
+    const { pdfId, source, pageStart, pageEnd, cardCount, model } = body.data
+
+    // Validate the requested model against the allowlist
+    const modelId = resolveModelId(model)
+
+    // Create a Supabase client instance for authentication
+    const supabase = await createClient()
+
+    // Get the currently authenticated user from the session
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    // Check if user is authenticated - return 401 Unauthorized if not
+    if (!user) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // Make sure the PDF exists and belongs to the user (RLS hides other rows)
+    const { data: pdf, error: pdfError } = await supabase
+      .from("pdf_files")
+      .select("id, name, page_count")
+      .eq("id", pdfId)
+      .maybeSingle()
+
+    if (pdfError) throw pdfError
+    if (!pdf) {
+      return Response.json({ error: "PDF not found" }, { status: 404 })
+    }
+
+    // The range must lie within the document
+    if (pageEnd && pageEnd > pdf.page_count) {
+      const error: ErrorResponse = {
+        error: "Invalid request",
+        fieldErrors: { pageEnd: [`The document has only ${pdf.page_count} pages`] },
+      }
+      return Response.json(error, { status: 400 })
+    }
+
+    const pages = await loadPdfPages(supabase, pdfId)
+
+    // Annotations of the document (within the range, if one was given)
+    let annotations
+    if (source === "annotations") {
+      let query = supabase
+        .from("annotations")
+        .select("id, page_number, type, text_content, note_content")
+        .eq("pdf_id", pdfId)
+      if (pageStart) query = query.gte("page_number", pageStart)
+      if (pageEnd) query = query.lte("page_number", pageEnd)
+
+      const { data, error } = await query.order("page_number", { ascending: true })
+      if (error) throw error
+      annotations = data
+    }
+
+    // Generate the cards and add the new ones to the deck
+    const generated = await generateFlashcards({
+      source,
+      pages,
+      pageStart,
+      pageEnd,
+      annotations,
+      cardCount,
+      modelId,
+    })
+    const deck = await getOrCreateDeck(supabase, { userId: user.id, pdfId, title: pdf.name })
+    const cards = await insertFlashcards(supabase, { userId: user.id, deck, cards: generated })
+
+    const response: FlashcardsResponse = { deck, cards }
+    return Response.json(response)
+  } catch (error) {
+    // Reject models outside the allowlist as a client error
+    if (error instanceof ModelNotAllowedError) {
+      return Response.json({ error: error.message }, { status: 400 })
+    }
+    // The source could not be turned into flashcards
+    if (error instanceof FlashcardGenerationError) {
+      return Response.json({ error: error.message }, { status: 422 })
+    }
+
+    // Log the error for debugging purposes
+    console.error("[v0] Flashcards API error:", error)
+
+    // Extract error message if available
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred"
+
+    // Return a 500 error response with the error details
+    return Response.json(
+      { error: `Failed to generate flashcards: ${errorMessage}` },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+// Import Supabase client creation function for server-side authentication
+import { createClient } from "@/lib/supabase/server"
+// Import the LLM provider registry
+import { getAllowedModels, getDefaultModelId } from "@/lib/ai/providers"
+// Import the shared response type
+import type { ModelsResponse } from "@/lib/api/schemas"
+
+/**
+ * GET API Route Handler for the model list
+ * Returns the models the client may pick for the AI tutor, as configured by
+ * LLM_ALLOWED_MODELS, and the model used when none is picked
+ *
+ * @returns JSON response with the allowed models and the default model id
+ */
+export async function GET() {
+  // Create a Supabase client instance for authentication
+  const supabase = await createClient()
+
+  // Get the currently authenticated user from the session
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  // Check if user is authenticated - return 401 Unauthorized if not
+  if (!user) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const body: ModelsResponse = {
+    models: getAllowedModels(),
+    defaultModel: getDefaultModelId(),
+  }
+  return Response.json(body)
+}
@@ -0,0 +1,65 @@
+// Import Supabase client creation function for server-side authentication
+import { createClient } from "@/lib/supabase/server"
+// Import the storage helper removing the uploaded file
+import { removePdfFile } from "@/lib/pdf/storage"
+// Import the shared response type
+import type { PdfDeleteResponse } from "@/lib/api/schemas"
+
+/**
+ * DELETE API Route Handler for a document
+ * Deletes the pdf_files record - which deletes its pages, retrieval index,
+ * annotations, chat threads and messages, quizzes, flashcards and summaries
+ * with it, while threads that also draw on other documents move to one of
+ * them - and then removes the uploaded file from storage
+ *
+ * @param params - Route parameters with the PDF id
+ * @returns JSON response with the id of the deleted document (404 if it does not exist)
+ */
+export async function DELETE(_req: Request, { params }: { params: Promise<{ pdfId: string }> }) {
+  try {
+    const { pdfId } = await params
+
+    // Create a Supabase client instance for authentication
+    const supabase = await createClient()
+
+    // Get the currently authenticated user from the session
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    // Check if user is authenticated - return 401 Unauthorized if not
+    if (!user) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // Delete the record and everything attached to it (RLS hides other users' documents)
+    const { data: pdf, error: deleteError } = await supabase
+      .from("pdf_files")
+      .delete()
+      .eq("id", pdfId)
+      .select("id, url")
+      .maybeSingle()
+
+    if (deleteError) throw deleteError
+    if (!pdf) {
+      return Response.json({ error: "PDF not found" }, { status: 404 })
+    }
+
+    // Remove the file once nothing points at it any more; a leftover file is only logged
+    await removePdfFile(supabase, pdf.url).catch((removeError) =>
+      console.error("[v0] Storage cleanup error:", removeError),
+    )
+
+    const response: PdfDeleteResponse = { id: pdf.id }
+    return Response.json(response)
+  } catch (error) {
+    // Log the error for debugging purposes
+    console.error("[v0] PDF delete error:", error)
+
+    // Extract error message if available
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred"
+
+    // Return a 500 error response with the error details
+    return Response.json({ error: `Failed to delete document: ${errorMessage}` }, { status: 500 })
+  }
+}
@@ -0,0 +1,99 @@
+// Import Supabase client creation function for server-side authentication
+import { createClient } from "@/lib/supabase/server"
+// Import the LLM provider registry
+import { ModelNotAllowedError, resolveModelId } from "@/lib/ai/providers"
+// Import quiz helpers
+import { QUIZ_COLUMNS, type QuizRow } from "@/lib/quiz/generate"
+import { gradeAttempt } from "@/lib/quiz/grade"
+// Import the shared request schema and the body validation helper
+import { quizAttemptRequestSchema, type QuizAttemptResponse } from "@/lib/api/schemas"
+import { parseJsonBody } from "@/lib/api/validation"
+
+/**
+ * POST API Route Handler for quiz attempts
+ * Grades the student's answers - choice questions against the stored answer,
+ * short answers by the model - and stores the attempt in quiz_attempts
+ *
+ * @param req - The incoming HTTP request containing the answers and optionally
+ * the model id used to grade short answers
+ * @param params - Route parameters with the quiz id
+ * @returns JSON response with the graded attempt, including the correct
+ * answer, explanation and source page of every question
+ * (400 with the errors per field if the body does not match quizAttemptRequestSchema)
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ quizId: string }> }) {
+  try {
+    const { quizId } = await params
+
+    // Parse and validate the request body - return 400 with the field errors if invalid
+    const body = await parseJsonBody(req, quizAttemptRequestSchema)
+    if (body.response) return body.response
+    const { answers, model } = body.data
+
+    // Validate the requested model against the allowlist
+    const modelId = resolveModelId(model)
+
+    // Create a Supabase client instance for authentication
+    const supabase = await createClient()
+
+    // Get the currently authenticated user from the session
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    // Check if user is authenticated - return 401 Unauthorized if not
+    if (!user) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // Load the quiz with its answers (RLS hides quizzes of other users)
+    const { data: quiz, error: quizError } = await supabase
+      .from("quizzes")
+      .select(QUIZ_COLUMNS)
+      .eq("id", quizId)
+      .maybeSingle<QuizRow>()
+
+    if (quizError) throw quizError
+    if (!quiz) {
+      return Response.json({ error: "Quiz not found" }, { status: 404 })
+    }
+
+    // Grade every question
+    const { results, score, total } = await gradeAttempt(quiz.questions, answers, modelId)
+
+    // Store the graded attempt
+    const { data: attempt, error: dbError } = await supabase
+      .from("quiz_attempts")
+      .insert({
+        user_id: user.id,
+        quiz_id: quiz.id,
+        results,
+        score,
+        total,
+      })
+      .select("id, quiz_id, results, score, total, created_at")
+      .single()
+
+    if (dbError) throw dbError
+
+    const response: QuizAttemptResponse = { attempt }
+    return Response.json(response)
+  } catch (error) {
+    // Reject models outside the allowlist as a client error
+    if (error instanceof ModelNotAllowedError) {
+      return Response.json({ error: error.message }, { status: 400 })
+    }
+
+    // Log the error for debugging purposes
+    console.error("[v0] Quiz attempt API error:", error)
+
+    // Extract error message if available
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred"
+
+    // Return a 500 error response with the error details
+    return Response.json(
+      { error: `Failed to grade quiz: ${errorMessage}` },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+// Import Supabase client creation function for server-side authentication
+import { createClient } from "@/lib/supabase/server"
+// Import quiz helpers
+import { QUIZ_COLUMNS, toPublicQuiz } from "@/lib/quiz/generate"
+// Import the shared response type
+import type { QuizResponse } from "@/lib/api/schemas"
+
+/**
+ * GET API Route Handler for a stored quiz
+ * Returns a quiz without its answers so it can be taken again
+ *
+ * @param params - Route parameters with the quiz id
+ * @returns JSON response with the quiz as shown while taking it
+ */
+export async function GET(_req: Request, { params }: { params: Promise<{ quizId: string }> }) {
+  const { quizId } = await params
+
+  // Create a Supabase client instance for authentication
+  const supabase = await createClient()
+
+  // Get the currently authenticated user from the session
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  // Check if user is authenticated - return 401 Unauthorized if not
+  if (!user) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  // Load the quiz (RLS hides quizzes of other users)
+  const { data: quiz, error } = await supabase
+    .from("quizzes")
+    .select(QUIZ_COLUMNS)
+    .eq("id", quizId)
+    .maybeSingle()
+
+  if (error) {
+    console.error("[v0] Quiz load error:", error)
+    return Response.json({ error: "Failed to load quiz" }, { status: 500 })
+  }
+  if (!quiz) {
+    return Response.json({ error: "Quiz not found" }, { status: 404 })
+  }
+
+  const response: QuizResponse = { quiz: toPublicQuiz(quiz) }
+  return Response.json(response)
+}
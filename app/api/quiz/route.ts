@@ -0,0 +1,115 @@
+// Import Supabase client creation function for server-side authentication
+import { createClient } from "@/lib/supabase/server"
+// Import the LLM provider registry
+import { ModelNotAllowedError, resolveModelId } from "@/lib/ai/providers"
+// Import the stored per-page text of a PDF
+import { loadPdfPages } from "@/lib/pdf/extract"
+// Import quiz generation helpers
+import { generateQuiz, QUIZ_COLUMNS, QuizGenerationError, toPublicQuiz } from "@/lib/quiz/generate"
+// Import the shared request schema and the body validation helper
+import { quizRequestSchema, type ErrorResponse, type QuizResponse } from "@/lib/api/schemas"
+import { parseJsonBody } from "@/lib/api/validation"
+
+/**
+ * POST API Route Handler for quiz generation
+ * Generates multiple-choice, true/false and short-answer questions from a page
+ * range of a PDF with structured output and stores them in quizzes. Answers
+ * and explanations are left out of the API responses until an attempt is
+ * graded; the student can still read them from their own quizzes row, so this
+ * keeps them out of the quiz UI rather than secret
+ *
+ * @param req - The incoming HTTP request containing the PDF id, the page range,
+ * the number and kinds of questions and optionally a model id
+ * @returns JSON response with the quiz as shown while taking it
+ * (400 with the errors per field if the body does not match quizRequestSchema)
+ */
+export async function POST(req: Request) {
+  try {
+    // Parse and validate the request body - return 400 with the field errors if invalid
+    const body = await parseJsonBody(req, quizRequestSchema)
+    if (body.response) return body.response
+    const { pdfId, pageStart, pageEnd, questionCount, types, model } = body.data
+
+    // Validate the requested model against the allowlist
+    const modelId = resolveModelId(model)
+
+    // Create a Supabase client instance for authentication
+    const supabase = await createClient()
+
+    // Get the currently authenticated user from the session
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    // Check if user is authenticated - return 401 Unauthorized if not
+    if (!user) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // Make sure the PDF exists and belongs to the user (RLS hides other rows)
+    const { data: pdf, error: pdfError } = await supabase
+      .from("pdf_files")
+      .select("id, page_count")
+      .eq("id", pdfId)
+      .maybeSingle()
+
+    if (pdfError) throw pdfError
+    if (!pdf) {
+      return Response.json({ error: "PDF not found" }, { status: 404 })
+    }
+
+    // The range must lie within the document
+    if (pageEnd > pdf.page_count) {
+      const error: ErrorResponse = {
+        error: "Invalid request",
+        fieldErrors: { pageEnd: [`The document has only ${pdf.page_count} pages`] },
+      }
+      return Response.json(error, { status: 400 })
+    }
+
+    // Generate the questions from the text of the selected pages
+    const pages = await loadPdfPages(supabase, pdfId)
+    const { title, questions } = await generateQuiz({ pages, pageStart, pageEnd, questionCount, types, modelId })
+
+    // Store the quiz with its answers
+    const { data: quiz, error: dbError } = await supabase
+      .from("quizzes")
+      .insert({
+        user_id: user.id,
+        pdf_id: pdfId,
+        title,
+        page_start: pageStart,
+        page_end: pageEnd,
+        questions,
+        model_id: modelId,
+      })
+      .select(QUIZ_COLUMNS)
+      .single()
+
+    if (dbError) throw dbError
+
+    const response: QuizResponse = { quiz: toPublicQuiz(quiz) }
+    return Response.json(response)
+  } catch (error) {
+    // Reject models outside the allowlist as a client error
+    if (error instanceof ModelNotAllowedError) {
+      return Response.json({ error: error.message }, { status: 400 })
+    }
+    // The pages could not be turned into a quiz
+    if (error instanceof QuizGenerationError) {
+      return Response.json({ error: error.message }, { status: 422 })
+    }
+
+    // Log the error for debugging purposes
+    console.error("[v0] Quiz API error:", error)
+
+    // Extract error message if available
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred"
+
+    // Return a 500 error response with the error details
+    return Response.json(
+      { error: `Failed to generate quiz: ${errorMessage}` },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,89 @@
+// Import Supabase client creation function for server-side authentication
+import { createClient } from "@/lib/supabase/server"
+// Import the shared schemas and the query validation helper
+import {
+  librarySearchQuerySchema,
+  librarySearchResultSchema,
+  type LibrarySearchResponse,
+  type LibrarySearchResult,
+} from "@/lib/api/schemas"
+import { parseSearchParams } from "@/lib/api/validation"
+
+// Most matches returned for one search
+const MAX_RESULTS = 60
+
+/**
+ * GET API Route Handler for the library search
+ * Searches the text of all of the user's documents, their annotations and
+ * chat messages with the Postgres full-text indexes (search_library) and
+ * groups the ranked matches by document
+ *
+ * @param req - The incoming HTTP request with the query as the q parameter
+ * @returns JSON response with the matches grouped by document, best first
+ * (400 with the errors per field if the query does not match librarySearchQuerySchema)
+ */
+export async function GET(req: Request) {
+  try {
+    // Parse and validate the query - return 400 with the field errors if invalid
+    const query = parseSearchParams(req, librarySearchQuerySchema)
+    if (query.response) return query.response
+    const { q } = query.data
+
+    // Create a Supabase client instance for authentication
+    const supabase = await createClient()
+
+    // Get the currently authenticated user from the session
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    // Check if user is authenticated - return 401 Unauthorized if not
+    if (!user) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // Ranked matches in the user's documents, annotations and messages
+    // (row level security limits the search to the user's rows)
+    const { data: rows, error: searchError } = await supabase.rpc("search_library", {
+      query_text: q,
+      match_count: MAX_RESULTS,
+    })
+    if (searchError) throw searchError
+
+    // Matches in the shape of the contract, with the document they belong to
+    const matches = ((rows ?? []) as { pdf_id: string; page_number: number | null }[]).flatMap((row) => {
+      const result = librarySearchResultSchema.safeParse({ ...row, pageNumber: row.page_number })
+      return result.success ? [{ pdfId: row.pdf_id, result: result.data }] : []
+    })
+
+    // Names of the documents the matches belong to
+    const pdfIds = [...new Set(matches.map((match) => match.pdfId))]
+    const { data: pdfs, error: pdfError } = pdfIds.length
+      ? await supabase.from("pdf_files").select("id, name, page_count").in("id", pdfIds)
+      : { data: [], error: null }
+    if (pdfError) throw pdfError
+
+    // Group by document in the order of each document's best match
+    const groups = new Map<string, LibrarySearchResult[]>()
+    for (const { pdfId, result } of matches) {
+      groups.set(pdfId, [...(groups.get(pdfId) ?? []), result])
+    }
+
+    const body: LibrarySearchResponse = {
+      groups: [...groups.entries()].flatMap(([pdfId, results]) => {
+        const pdf = pdfs?.find((p) => p.id === pdfId)
+        return pdf ? [{ pdf, results }] : []
+      }),
+    }
+    return Response.json(body)
+  } catch (error) {
+    // Log the error for debugging purposes
+    console.error("[v0] Library search error:", error)
+
+    // Extract error message if available
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred"
+
+    // Return a 500 error response with the error details
+    return Response.json({ error: `Failed to search the library: ${errorMessage}` }, { status: 500 })
+  }
+}
@@ -0,0 +1,148 @@
+// Import Supabase client creation function for server-side authentication
+import { createClient } from "@/lib/supabase/server"
+// Import the LLM provider registry
+import { ModelNotAllowedError, resolveModelId } from "@/lib/ai/providers"
+// Import the stored per-page text of a PDF
+import { loadPdfPages } from "@/lib/pdf/extract"
+// Import summary helpers
+import { hashPageRange, SUMMARY_COLUMNS, summarizePages } from "@/lib/summaries/summarize"
+// Import the shared request schema and the body validation helper
+import { summarizeRequestSchema, type ErrorResponse, type SummarizeResponse } from "@/lib/api/schemas"
+import { parseJsonBody } from "@/lib/api/validation"
+
+/**
+ * POST API Route Handler for summaries
+ * Summarizes a page, a page range or the whole document at the selected
+ * length. Summaries are cached per PDF, range and length together with a hash
+ * of the summarized text, so they are only regenerated when the text changes
+ * (or when refresh is requested)
+ *
+ * @param req - The incoming HTTP request containing the PDF id, the scope,
+ * the page range, the length and optionally a model id
+ * @returns JSON response with the summary and whether it came from the cache
+ * (400 with the errors per field if the body does not match summarizeRequestSchema)
+ */
+export async function POST(req: Request) {
+  try {
+    // Parse and validate the request body - return 400 with the field errors if invalid
+    const body = await parseJsonBody(req, summarizeRequestSchema)
+    if (body.response) return body.response
+    const { pdfId, scope, length, refresh, model } = body.data
+
+    // Validate the requested model against the allowlist
+    const modelId = resolveModelId(model)
+
+    // Create a Supabase client instance for authentication
+    const supabase = await createClient()
+
+    // Get the currently authenticated user from the session
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    // Check if user is authenticated - return 401 Unauthorized if not
+    if (!user) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // Make sure the PDF exists and belongs to the user (RLS hides other rows)
+    const { data: pdf, error: pdfError } = await supabase
+      .from("pdf_files")
+      .select("id, page_count")
+      .eq("id", pdfId)
+      .maybeSingle()
+
+    if (pdfError) throw pdfError
+    if (!pdf) {
+      return Response.json({ error: "PDF not found" }, { status: 404 })
+    }
+
+    // Text of every page; documents without a stored page count have as many
+    // pages as were extracted
+    const pages = await loadPdfPages(supabase, pdfId)
+    const pageCount: number = pdf.page_count ?? pages.length
+
+    // Resolve the pages the summary covers
+    const pageStart = scope === "document" ? 1 : body.data.pageStart!
+    const pageEnd = scope === "document" ? pageCount : scope === "page" ? pageStart : body.data.pageEnd!
+
+    // The range must lie within the document
+    if (pageEnd > pageCount) {
+      const field = scope === "page" ? "pageStart" : "pageEnd"
+      const error: ErrorResponse = {
+        error: "Invalid request",
+        fieldErrors: { [field]: [`The document has only ${pageCount} pages`] },
+      }
+      return Response.json(error, { status: 400 })
+    }
+
+    const contentHash = hashPageRange(pages, { pageStart, pageEnd })
+
+    // Reuse the cached summary of the same text
+    if (!refresh) {
+      const { data: cached, error: cacheError } = await supabase
+        .from("summaries")
+        .select(SUMMARY_COLUMNS)
+        .eq("pdf_id", pdfId)
+        .eq("page_start", pageStart)
+        .eq("page_end", pageEnd)
+        .eq("length", length)
+        .eq("content_hash", contentHash)
+        .maybeSingle()
+
+      if (cacheError) throw cacheError
+      if (cached) {
+        const response: SummarizeResponse = { summary: cached, cached: true }
+        return Response.json(response)
+      }
+    }
+
+    const text = await summarizePages({ pages, pageStart, pageEnd, length, modelId })
+    if (!text) {
+      return Response.json({ error: "The selected pages contain no text to summarize" }, { status: 422 })
+    }
+
+    // Store the summary, replacing an earlier one of the same text
+    const { data: summary, error: dbError } = await supabase
+      .from("summaries")
+      .upsert(
+        {
+          user_id: user.id,
+          pdf_id: pdfId,
+          scope,
+          page_start: pageStart,
+          page_end: pageEnd,
+          length,
+          content_hash: contentHash,
+          summary: text,
+          model_id: modelId,
+          created_at: new Date().toISOString(),
+        },
+        { onConflict: "pdf_id,page_start,page_end,length,content_hash" },
+      )
+      .select(SUMMARY_COLUMNS)
+      .single()
+
+    if (dbError) throw dbError
+
+    const response: SummarizeResponse = { summary, cached: false }
+    return Response.json(response)
+  } catch (error) {
+    // Reject models outside the allowlist as a client error
+    if (error instanceof ModelNotAllowedError) {
+      return Response.json({ error: error.message }, { status: 400 })
+    }
+
+    // Log the error for debugging purposes
+    console.error("[v0] Summarize API error:", error)
+
+    // Extract error message if available
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred"
+
+    // Return a 500 error response with the error details
+    return Response.json(
+      { error: `Failed to summarize: ${errorMessage}` },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,197 @@
+// This is a client-side component - exports and imports the annotations of a PDF
+"use client"
+
+// Import React hooks for the hidden file input and the request in flight
+import { useRef, useState } from "react"
+// Import Button UI component for the menu trigger
+import { Button } from "@/components/ui/button"
+// Import DropdownMenu components for the export formats
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+// Import icons for the trigger and the menu items
+import { Download, FileDown, FileJson, FileSpreadsheet, FileText, Loader2, Stamp, Upload } from "lucide-react"
+// Import toast for user feedback notifications
+import { toast } from "sonner"
+// Import the typed API client
+import { downloadAnnotatedPdf, exportAnnotations, importAnnotations } from "@/lib/api/client"
+// Import the export formats and the JSON export file
+import {
+  ANNOTATED_PDF_STYLES,
+  ANNOTATION_EXPORT_FORMATS,
+  annotationsFileSchema,
+  type AnnotatedPdfStyle,
+  type AnnotationExportFormat,
+  type AnnotationRecord,
+} from "@/lib/api/schemas"
+
+// Label and icon of each export format
+const FORMAT_DETAILS: Record<AnnotationExportFormat, { label: string; icon: typeof FileText }> = {
+  markdown: { label: "Markdown study sheet", icon: FileText },
+  json: { label: "JSON (re-importable)", icon: FileJson },
+  csv: { label: "CSV spreadsheet", icon: FileSpreadsheet },
+}
+
+// Label and icon of each annotated PDF style
+const PDF_STYLE_DETAILS: Record<AnnotatedPdfStyle, { label: string; icon: typeof FileText }> = {
+  annotations: { label: "With PDF annotations", icon: FileDown },
+  burned: { label: "With marks burned in", icon: Stamp },
+}
+
+/**
+ * Saves a downloaded file on the user's device
+ * @param file - The file and its name
+ */
+function saveFile({ blob, fileName }: { blob: Blob; fileName: string }) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Props for the AnnotationExportMenu component
+ * @property pdfId - PDF whose annotations are exported, and that imports are added to
+ * @property onImported - Called with the annotations added by an import
+ */
+interface AnnotationExportMenuProps {
+  pdfId: string
+  onImported: (annotations: AnnotationRecord[]) => void
+}
+
+/**
+ * AnnotationExportMenu - Downloads the annotations as Markdown, JSON or CSV
+ * or a copy of the PDF with the annotations written in, and adds the
+ * annotations of a JSON export, e.g. of another copy of the same document,
+ * to the PDF
+ *
+ * @param props - The PDF and the import callback
+ * @returns JSX element with the menu and a hidden file input
+ */
+export default function AnnotationExportMenu({ pdfId, onImported }: AnnotationExportMenuProps) {
+  // State to track the export or import in flight
+  const [isBusy, setIsBusy] = useState(false)
+  // Hidden input used to pick the file to import
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  /**
+   * Download the annotations in a format
+   * @param format - The file format
+   */
+  const handleExport = async (format: AnnotationExportFormat) => {
+    setIsBusy(true)
+    try {
+      saveFile(await exportAnnotations({ pdfId, format }))
+    } catch (error) {
+      console.error("[v0] Error exporting annotations:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to export annotations")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  /**
+   * Download a copy of the PDF with its annotations
+   * @param style - Editable PDF annotations or burned-in marks
+   */
+  const handleDownloadPdf = async (style: AnnotatedPdfStyle) => {
+    setIsBusy(true)
+    try {
+      saveFile(await downloadAnnotatedPdf({ pdfId, style }))
+    } catch (error) {
+      console.error("[v0] Error creating annotated PDF:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to create annotated PDF")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  /**
+   * Add the annotations of the picked JSON export to the PDF
+   * @param file - The picked file
+   */
+  const handleImport = async (file: File) => {
+    setIsBusy(true)
+    try {
+      const parsed = annotationsFileSchema.safeParse(JSON.parse(await file.text()))
+      if (!parsed.success) throw new Error("This is not an annotations export")
+
+      const { annotations, skipped } = await importAnnotations({ pdfId, file: parsed.data })
+      onImported(annotations)
+      toast.success(
+        `Imported ${annotations.length} annotation${annotations.length === 1 ? "" : "s"}` +
+          (skipped > 0 ? ` (${skipped} on pages past the end of this PDF skipped)` : ""),
+      )
+    } catch (error) {
+      console.error("[v0] Error importing annotations:", error)
+      toast.error(
+        error instanceof SyntaxError
+          ? "This is not an annotations export"
+          : error instanceof Error
+            ? error.message
+            : "Failed to import annotations",
+      )
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" disabled={isBusy} title="Export or import annotations">
+            {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel className="text-xs text-muted-foreground">Export annotations</DropdownMenuLabel>
+          {ANNOTATION_EXPORT_FORMATS.map((format) => {
+            const { label, icon: Icon } = FORMAT_DETAILS[format]
+            return (
+              <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+                <Icon className="h-4 w-4" />
+                {label}
+              </DropdownMenuItem>
+            )
+          })}
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel className="text-xs text-muted-foreground">Download annotated PDF</DropdownMenuLabel>
+          {ANNOTATED_PDF_STYLES.map((style) => {
+            const { label, icon: Icon } = PDF_STYLE_DETAILS[style]
+            return (
+              <DropdownMenuItem key={style} onSelect={() => handleDownloadPdf(style)}>
+                <Icon className="h-4 w-4" />
+                {label}
+              </DropdownMenuItem>
+            )
+          })}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4" />
+            Import JSON...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          e.target.value = ""
+          if (file) handleImport(file)
+        }}
+      />
+    </>
+  )
+}
@@ -0,0 +1,293 @@
+// This is a client-side component - lists every annotation of the open PDF
+"use client"
+
+// Import React hooks for the filters and the checked annotations
+import { useMemo, useState } from "react"
+// Import Button UI component for the filters and actions
+import { Button } from "@/components/ui/button"
+// Import Input component for the search box
+import { Input } from "@/components/ui/input"
+// Import AnnotationExportMenu for downloading and importing the annotations
+import AnnotationExportMenu from "@/components/annotation-export-menu"
+// Import icons for the annotation types and the panel actions
+import { Highlighter, Search, StickyNote, Trash2, Underline, X } from "lucide-react"
+// Import the annotation record and its types
+import { ANNOTATION_TYPES, type AnnotationRecord } from "@/lib/api/schemas"
+// Import the palette for naming and ordering the color filters
+import { ANNOTATION_COLORS } from "@/lib/annotations/palette"
+// Import the reading order of annotations on a page
+import { compareReadingOrder } from "@/lib/annotations/geometry"
+// Import utility for merging class names
+import { cn } from "@/lib/utils"
+
+type AnnotationType = AnnotationRecord["type"]
+
+// Label and icon of each annotation type
+const TYPE_DETAILS: Record<AnnotationType, { label: string; icon: typeof Highlighter }> = {
+  highlight: { label: "Highlight", icon: Highlighter },
+  underline: { label: "Underline", icon: Underline },
+  note: { label: "Note", icon: StickyNote },
+}
+
+/**
+ * Props for the AnnotationsPanel component
+ * @property pdfId - The open PDF
+ * @property annotations - All annotations of the PDF
+ * @property selectedId - Annotation selected in the viewer, if any
+ * @property onJump - Scroll the viewer to an annotation and select it
+ * @property onDelete - Delete annotations; resolves to true once they are deleted
+ * @property onImported - Called with the annotations added by an import
+ * @property onClose - Collapse the panel
+ */
+interface AnnotationsPanelProps {
+  pdfId: string
+  annotations: AnnotationRecord[]
+  selectedId: string | null
+  onJump: (annotation: AnnotationRecord) => void
+  onDelete: (annotations: AnnotationRecord[]) => Promise<boolean>
+  onImported: (annotations: AnnotationRecord[]) => void
+  onClose: () => void
+}
+
+/**
+ * AnnotationsPanel - Document-wide list of annotations next to the PDF
+ * Features:
+ * - Annotations grouped by page, in reading order
+ * - Filter by type and color, search the annotated text and note content
+ * - Click an annotation to jump to it in the viewer
+ * - Check annotations (or all shown ones) and delete them at once; the
+ *   delete can be undone from the viewer
+ * - Export the annotations as Markdown, JSON or CSV or as an annotated copy
+ *   of the PDF, or import a JSON export
+ *
+ * @param props - Annotations and the viewer actions
+ * @returns JSX element with the filters and the grouped list
+ */
+export default function AnnotationsPanel({
+  pdfId,
+  annotations,
+  selectedId,
+  onJump,
+  onDelete,
+  onImported,
+  onClose,
+}: AnnotationsPanelProps) {
+  // State for the search text and the type and color filters (null shows all)
+  const [query, setQuery] = useState("")
+  const [typeFilter, setTypeFilter] = useState<AnnotationType | null>(null)
+  const [colorFilter, setColorFilter] = useState<string | null>(null)
+  // State for the annotations checked for deleting
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(new Set())
+  // State to track the delete in flight
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  // Colors used in the PDF, palette colors first
+  const colors = useMemo(() => {
+    const used = new Set(annotations.map((a) => a.color))
+    const palette = ANNOTATION_COLORS.filter((c) => used.has(c.value))
+    const others = [...used]
+      .filter((color) => !ANNOTATION_COLORS.some((c) => c.value === color))
+      .map((color) => ({ name: color, value: color }))
+    return [...palette, ...others]
+  }, [annotations])
+
+  // Annotations matching the filters, in page and reading order
+  const filtered = useMemo(() => {
+    const search = query.trim().toLowerCase()
+    return annotations
+      .filter((a) => !typeFilter || a.type === typeFilter)
+      .filter((a) => !colorFilter || a.color === colorFilter)
+      .filter(
+        (a) =>
+          !search ||
+          (a.text_content ?? "").toLowerCase().includes(search) ||
+          (a.note_content ?? "").toLowerCase().includes(search),
+      )
+      .sort(compareReadingOrder)
+  }, [annotations, query, typeFilter, colorFilter])
+
+  // Shown annotations grouped by page
+  const groups = useMemo(() => {
+    const byPage = new Map<number, AnnotationRecord[]>()
+    filtered.forEach((a) => byPage.set(a.page_number, [...(byPage.get(a.page_number) ?? []), a]))
+    return [...byPage.entries()]
+  }, [filtered])
+
+  // Checked annotations that are still shown
+  const checked = filtered.filter((a) => checkedIds.has(a.id))
+  const allChecked = filtered.length > 0 && checked.length === filtered.length
+
+  /**
+   * Check or uncheck one annotation
+   * @param id - The annotation
+   */
+  const toggleChecked = (id: string) => {
+    setCheckedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  /**
+   * Check all shown annotations, or uncheck them if they are all checked
+   */
+  const toggleAll = () => {
+    setCheckedIds(allChecked ? new Set() : new Set(filtered.map((a) => a.id)))
+  }
+
+  /**
+   * Delete the checked annotations that are shown
+   */
+  const handleDelete = async () => {
+    setIsDeleting(true)
+    const deleted = await onDelete(checked)
+    setIsDeleting(false)
+    if (deleted) setCheckedIds(new Set())
+  }
+
+  return (
+    <div className="flex h-full w-72 shrink-0 flex-col border-l bg-background">
+      {/* Header */}
+      <div className="flex items-center justify-between border-b p-2">
+        <h3 className="text-sm font-medium">
+          Annotations <span className="text-muted-foreground">({annotations.length})</span>
+        </h3>
+        <div className="flex items-center">
+          <AnnotationExportMenu pdfId={pdfId} onImported={onImported} />
+          <Button variant="ghost" size="icon" onClick={onClose} title="Close annotations">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="space-y-2 border-b p-2">
+        <div className="relative">
+          <Search className="pointer-events-none absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search text and notes..."
+            className="h-8 pl-8"
+          />
+        </div>
+        <div className="flex flex-wrap gap-1">
+          <Button
+            size="sm"
+            variant={typeFilter === null ? "secondary" : "ghost"}
+            className="h-7 px-2 text-xs"
+            onClick={() => setTypeFilter(null)}
+          >
+            All
+          </Button>
+          {ANNOTATION_TYPES.map((type) => {
+            const { label, icon: Icon } = TYPE_DETAILS[type]
+            return (
+              <Button
+                key={type}
+                size="sm"
+                variant={typeFilter === type ? "secondary" : "ghost"}
+                className="h-7 px-2 text-xs"
+                onClick={() => setTypeFilter(typeFilter === type ? null : type)}
+              >
+                <Icon className="h-3 w-3" />
+                {label}
+              </Button>
+            )
+          })}
+        </div>
+        {colors.length > 1 && (
+          <div className="flex flex-wrap items-center gap-1">
+            {colors.map((color) => (
+              <button
+                key={color.value}
+                type="button"
+                title={color.name}
+                aria-label={`Only ${color.name}`}
+                aria-pressed={colorFilter === color.value}
+                onClick={() => setColorFilter(colorFilter === color.value ? null : color.value)}
+                className={cn(
+                  "h-4 w-4 rounded-full border border-black/10 transition-transform hover:scale-110",
+                  colorFilter === color.value && "ring-2 ring-primary ring-offset-1 ring-offset-background",
+                )}
+                style={{ backgroundColor: color.value }}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Bulk actions */}
+      {filtered.length > 0 && (
+        <div className="flex items-center justify-between border-b px-2 py-1">
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            <input type="checkbox" checked={allChecked} onChange={toggleAll} className="accent-primary" />
+            Select all ({filtered.length})
+          </label>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 px-2 text-xs text-destructive hover:text-destructive"
+            onClick={handleDelete}
+            disabled={checked.length === 0 || isDeleting}
+          >
+            <Trash2 className="h-3 w-3" />
+            Delete{checked.length > 0 && ` (${checked.length})`}
+          </Button>
+        </div>
+      )}
+
+      {/* Annotations grouped by page */}
+      <div className="flex-1 overflow-y-auto p-2">
+        {groups.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            {annotations.length === 0 ? "No annotations yet" : "No annotations match the filters"}
+          </p>
+        ) : (
+          groups.map(([page, items]) => (
+            <div key={page} className="mb-3">
+              <p className="mb-1 text-xs font-medium text-muted-foreground">Page {page}</p>
+              <ul className="space-y-1">
+                {items.map((a) => {
+                  const Icon = TYPE_DETAILS[a.type].icon
+                  return (
+                    <li
+                      key={a.id}
+                      className={cn(
+                        "flex cursor-pointer items-start gap-2 rounded-md border p-2 text-sm hover:bg-muted/50",
+                        a.id === selectedId && "border-primary bg-muted/50",
+                      )}
+                      onClick={() => onJump(a)}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={checkedIds.has(a.id)}
+                        onChange={() => toggleChecked(a.id)}
+                        onClick={(e) => e.stopPropagation()}
+                        className="mt-1 accent-primary"
+                        aria-label="Select annotation"
+                      />
+                      <Icon className="mt-0.5 h-4 w-4 shrink-0" style={{ color: a.color }} />
+                      <div className="min-w-0 flex-1">
+                        <p className="line-clamp-2 break-words">
+                          {a.text_content || <span className="italic text-muted-foreground">Marked area</span>}
+                        </p>
+                        {a.note_content && (
+                          <p className="mt-1 line-clamp-3 break-words text-xs text-muted-foreground">
+                            {a.note_content}
+                          </p>
+                        )}
+                      </div>
+                    </li>
+                  )
+                })}
+              </ul>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
@@ -9,21 +9,62 @@ import { useState, useRef, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 // Import Input component for user text input
 import { Input } from "@/components/ui/input"
-// Import icons from lucide-react: Send for submission, Mic for voice input, Loader2 for loading state
-import { Send, Mic, Loader2 } from "lucide-react"
+// Import icons from lucide-react: Send for submission, Mic for voice input, Loader2 for loading state, Square for stopping
+import { Send, Mic, Loader2, Square, BookOpen, Quote, X } from "lucide-react"
 // Import Supabase client for database and authentication operations
 import { createClient } from "@/lib/supabase/client"
 // Import toast notification system for user feedback
 import { toast } from "sonner"
+// Import reader for the streamed chat response
+import { fetchModels, streamChat } from "@/lib/api/client"
+// Import Citation type for the page sources of tutor answers and the tutoring modes
+import { DEFAULT_TUTOR_MODE, type ChatSelection, type Citation, type TutorMode } from "@/lib/api/schemas"
+// Import the preset questions about a passage selected in the PDF
+import { SELECTION_ACTION_DETAILS, type SelectionAction } from "@/lib/chat/selection"
+// Import ConversationPicker for switching and managing chat threads
+import ConversationPicker, { type Conversation } from "@/components/conversation-picker"
+// Import ModelPicker for choosing among the models allowed by the server
+import ModelPicker from "@/components/model-picker"
+// Import ModePicker for choosing the tutoring mode of the thread
+import ModePicker from "@/components/mode-picker"
+// Import DocumentScopePicker for choosing the documents the thread draws on
+import DocumentScopePicker from "@/components/document-scope-picker"
+// Import MarkdownContent for rendering the tutor's answers
+import MarkdownContent from "@/components/markdown-content"
+// Import ModelOption type describing the allowed models
+import type { ModelOption } from "@/lib/api/schemas"
+
+// localStorage key remembering the selected model across sessions
+const MODEL_STORAGE_KEY = "ai-tutor:model"
+
+/**
+ * A request to ask the tutor about a passage selected in the PDF
+ * - id: changes for every request so the same passage can be asked about again
+ * - selection: the selected passage
+ * - action: "ask" quotes the passage for a question of one's own, the
+ *   other actions ask their preset question right away
+ */
+export interface SelectionRequest {
+  id: number
+  selection: ChatSelection
+  action: SelectionAction
+}
 
 /**
  * Props for the ChatInterface component
  * @property pdfId - The unique identifier of the PDF being discussed
- * @property pdfContent - The text content of the PDF for context in AI responses
+ * @property documents - All of the student's documents, which a thread may draw on as well
+ * @property onCitationClick - Called when a citation chip is clicked, to show the cited page
+ * @property selectionRequest - Latest request to ask about a selected passage
+ * @property onSelectionClick - Called when the quoted passage of a question is clicked, to show it in
+ * the PDF it was selected in
  */
 interface ChatInterfaceProps {
   pdfId: string
-  pdfContent: string
+  documents?: { id: string; name: string; folder?: string | null }[]
+  onCitationClick?: (citation: Citation) => void
+  selectionRequest?: SelectionRequest | null
+  onSelectionClick?: (selection: ChatSelection, pdfId: string | null) => void
 }
 
 /**
@@ -31,11 +72,17 @@ interface ChatInterfaceProps {
  * @property id - Unique identifier for the message
  * @property role - Indicates who sent the message: 'user' or 'assistant' (AI)
  * @property content - The text content of the message
+ * @property citations - Page sources cited by an assistant message
+ * @property selection - Passage of the PDF a user message asks about
+ * @property viewedPdfId - PDF open when the message was sent, which the passage was selected in
  */
 interface Message {
   id: string
   role: "user" | "assistant"
   content: string
+  citations?: Citation[]
+  selection?: ChatSelection | null
+  viewedPdfId?: string | null
 }
 
 /**
@@ -43,30 +90,75 @@ interface Message {
  * Features:
  * - Display conversation history with user and AI messages
  * - Send text messages to query the AI about the document
+ * - Streamed AI responses rendered token by token, with a Stop button
+ * - Clickable page citations that jump the PDF viewer to the source
+ * - Questions about a passage selected in the PDF, quoted above the question
+ *   and linking back to the passage
+ * - Multiple named threads per document, picked from the header
+ * - Threads drawing on several documents at once, with citations naming the
+ *   document of each source; such a thread stays open while browsing them
+ * - Model selection among the models allowed by the server
  * - Voice input using browser's speech recognition API
  * - Auto-scroll to latest messages
  * - Loading indicators while AI processes responses
  * - Persistent message storage in Supabase database
  * 
- * @param props - Component props containing pdfId and pdfContent
+ * @param props - Component props containing pdfId, the selection request and the click handlers
  * @returns JSX element with full chat interface
  */
 export default function ChatInterface({
   pdfId,
-  pdfContent,
+  documents = [],
+  onCitationClick,
+  selectionRequest,
+  onSelectionClick,
 }: ChatInterfaceProps) {
   // State for storing all chat messages (user and AI responses)
   const [messages, setMessages] = useState<Message[]>([])
   // State for the current user input in the text field
   const [input, setInput] = useState("")
+  // State for the passage of the PDF the next question is about
+  const [attachedSelection, setAttachedSelection] = useState<ChatSelection | null>(null)
   // State to track if AI is processing a response
   const [isLoading, setIsLoading] = useState(false)
   // State to track if voice recognition is active
   const [isListening, setIsListening] = useState(false)
+  // ID of the assistant message currently receiving streamed tokens
+  const [streamingId, setStreamingId] = useState<string | null>(null)
+  // State for the chat threads of this PDF, most recently used first
+  const [conversations, setConversations] = useState<Conversation[]>([])
+  // State for the open thread; null means a new thread that is saved with its first message
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null)
+  // State for the models allowed by the server and the one selected
+  const [models, setModels] = useState<ModelOption[]>([])
+  const [selectedModel, setSelectedModel] = useState<string | null>(null)
+  // State for the tutoring mode of the next new thread; saved threads keep their own mode
+  const [newThreadMode, setNewThreadMode] = useState<TutorMode>(DEFAULT_TUTOR_MODE)
+  // State for the documents the next new thread draws on besides the open PDF
+  const [newThreadPdfIds, setNewThreadPdfIds] = useState<string[]>([])
   // Reference to the bottom of messages container for auto-scroll functionality
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  // Reference to the text field, focused when a passage is attached
+  const inputRef = useRef<HTMLInputElement>(null)
+  // Controller used by the Stop button to abort the in-flight request
+  const abortControllerRef = useRef<AbortController | null>(null)
+  // Thread created by the current submission; its messages are already on screen
+  const createdConversationRef = useRef<string | null>(null)
   // Initialize Supabase client for database operations
   const supabase = createClient()
+  // Tutoring mode of the open thread
+  const activeMode =
+    conversations.find((c) => c.id === activeConversationId)?.mode ?? newThreadMode
+  // Documents the open thread draws on, including unlisted ones, e.g. deleted
+  // but still undoable
+  const scopePdfIds = conversations.find((c) => c.id === activeConversationId)?.pdf_ids ?? newThreadPdfIds
+  // Listed documents the open thread draws on, the open PDF first
+  const activePdfIds = [
+    pdfId,
+    ...scopePdfIds.filter((id) => id !== pdfId && documents.some((d) => d.id === id)),
+  ]
+  // Names of the documents, for citations of other documents than the open one
+  const documentNames = new Map(documents.map((d) => [d.id, d.name]))
 
   /**
    * Scroll to the bottom of the messages container
@@ -83,9 +175,35 @@ export default function ChatInterface({
     scrollToBottom()
   }, [messages])
 
-  // Load existing messages from database when component mounts or PDF changes
+  // Load the allowed models once and restore the previously selected one
   useEffect(() => {
-    const loadMessages = async () => {
+    const loadModels = async () => {
+      const { models, defaultModel } = await fetchModels()
+      const stored = localStorage.getItem(MODEL_STORAGE_KEY)
+      setModels(models)
+      setSelectedModel(models.some((m) => m.id === stored) ? stored : defaultModel)
+    }
+
+    // Without the list the picker stays hidden and the server default is used
+    loadModels().catch((error) => console.error("[v0] Error loading models:", error))
+  }, [])
+
+  /**
+   * Select the model for the next messages and remember the choice
+   * @param id - Registry id of the model
+   */
+  const handleModelChange = (id: string) => {
+    setSelectedModel(id)
+    localStorage.setItem(MODEL_STORAGE_KEY, id)
+  }
+
+  // Load the threads of the PDF when component mounts or PDF changes
+  // and open the most recently used active thread; a thread that also draws
+  // on the newly opened PDF (e.g. after following one of its citations) stays open
+  useEffect(() => {
+    const keepActive = conversations.some((c) => c.id === activeConversationId && c.pdf_ids.includes(pdfId))
+
+    const loadConversations = async () => {
       // Get the current authenticated user
       const {
         data: {
@@ -94,129 +212,339 @@ export default function ChatInterface({
       } = await supabase.auth.getUser()
 
       // Only proceed if user is authenticated
-      if (user) {
-        // Fetch all messages for this user and PDF from the database
-        const {
-          data,
-          error,
-        } = await supabase
-          .from("messages")
-          .select("*")
-          .eq("user_id", user.id)
-          .eq("pdf_id", pdfId)
-          .order("created_at", {
-            ascending: true,
-          })
-
-        // If successful, populate messages state with fetched data
-        if (data && !error) {
-          setMessages(
-            data.map((msg) => ({
-              id: msg.id,
-              role: msg.role as "user" | "assistant",
-              content: msg.content,
-            })),
-          )
-        }
+      if (!user) return
+
+      // Fetch all threads for this user drawing on the PDF from the database
+      const { data, error } = await supabase
+        .from("conversations")
+        .select("id, title, mode, pdf_ids, archived_at, updated_at")
+        .eq("user_id", user.id)
+        .contains("pdf_ids", [pdfId])
+        .order("updated_at", {
+          ascending: false,
+        })
+
+      if (data && !error) {
+        setConversations(data)
+        setActiveConversationId((current) =>
+          keepActive && data.some((c) => c.id === current)
+            ? current
+            : (data.find((c) => !c.archived_at)?.id ?? null),
+        )
       }
     }
 
-    loadMessages()
+    if (!keepActive) {
+      setConversations([])
+      setActiveConversationId(null)
+    }
+    setAttachedSelection(null)
+    loadConversations()
   }, [pdfId, supabase])
 
+  // Load the messages of the open thread whenever it changes
+  useEffect(() => {
+    // A thread created by the current submission already shows its messages
+    if (activeConversationId && activeConversationId === createdConversationRef.current) {
+      createdConversationRef.current = null
+      return
+    }
+
+    // A new thread starts empty
+    if (!activeConversationId) {
+      setMessages([])
+      return
+    }
+
+    const loadMessages = async () => {
+      // Fetch all messages of the thread from the database
+      const {
+        data,
+        error,
+      } = await supabase
+        .from("messages")
+        .select("*")
+        .eq("conversation_id", activeConversationId)
+        .order("created_at", {
+          ascending: true,
+        })
+
+      // If successful, populate messages state with fetched data
+      if (data && !error) {
+        setMessages(
+          data.map((msg) => ({
+            id: msg.id,
+            role: msg.role as "user" | "assistant",
+            content: msg.content,
+            citations: msg.citations ?? [],
+            selection: msg.selection ?? null,
+            viewedPdfId: msg.viewed_pdf_id ?? null,
+          })),
+        )
+      }
+    }
+
+    loadMessages()
+  }, [activeConversationId, supabase])
+
+  // Ask about a passage selected in the PDF: preset questions are sent right
+  // away, otherwise the passage is quoted above the text field for a question
+  // of the student's own (also while an answer is still streaming)
+  useEffect(() => {
+    if (!selectionRequest) return
+    const { selection, action } = selectionRequest
+    const question = SELECTION_ACTION_DETAILS[action].question
+    if (question && !isLoading) {
+      sendMessage(question, selection)
+      return
+    }
+    setAttachedSelection(selection)
+    if (question) setInput(question)
+    inputRef.current?.focus()
+  }, [selectionRequest])
+
+  /**
+   * Start a new thread
+   * The thread is saved together with its first message
+   */
+  const handleCreateConversation = () => {
+    setActiveConversationId(null)
+  }
+
+  /**
+   * Rename a thread
+   * @param id - Thread to rename
+   * @param title - New title
+   */
+  const handleRenameConversation = async (id: string, title: string) => {
+    const { error } = await supabase.from("conversations").update({ title }).eq("id", id)
+    if (error) {
+      toast.error("Failed to rename thread")
+      return
+    }
+    setConversations((prev) => prev.map((c) => (c.id === id ? { ...c, title } : c)))
+  }
+
+  /**
+   * Change the tutoring mode of the open thread, or of the next new thread
+   * @param mode - The new tutoring mode
+   */
+  const handleModeChange = async (mode: TutorMode) => {
+    if (!activeConversationId) {
+      setNewThreadMode(mode)
+      return
+    }
+    const id = activeConversationId
+    const { error } = await supabase.from("conversations").update({ mode }).eq("id", id)
+    if (error) {
+      toast.error("Failed to change tutoring mode")
+      return
+    }
+    setConversations((prev) => prev.map((c) => (c.id === id ? { ...c, mode } : c)))
+  }
+
+  /**
+   * Change the documents the open thread draws on, or those of the next new thread
+   * Unlisted documents stay in the thread: one waiting to be deleted comes back
+   * with undo, and the server takes it out once it is deleted for good
+   * @param pickedPdfIds - The listed documents, including the open PDF
+   */
+  const handleDocumentsChange = async (pickedPdfIds: string[]) => {
+    const pdfIds = [...pickedPdfIds, ...scopePdfIds.filter((id) => !documents.some((d) => d.id === id))]
+    if (!activeConversationId) {
+      setNewThreadPdfIds(pdfIds)
+      return
+    }
+    const id = activeConversationId
+    const { error } = await supabase.from("conversations").update({ pdf_ids: pdfIds }).eq("id", id)
+    if (error) {
+      toast.error("Failed to change the documents of the thread")
+      return
+    }
+    setConversations((prev) => prev.map((c) => (c.id === id ? { ...c, pdf_ids: pdfIds } : c)))
+  }
+
+  /**
+   * Archive or restore a thread
+   * Archived threads stay readable but are listed separately
+   * @param id - Thread to update
+   * @param archived - True to archive, false to restore
+   */
+  const handleArchiveConversation = async (id: string, archived: boolean) => {
+    const archived_at = archived ? new Date().toISOString() : null
+    const { error } = await supabase.from("conversations").update({ archived_at }).eq("id", id)
+    if (error) {
+      toast.error(archived ? "Failed to archive thread" : "Failed to restore thread")
+      return
+    }
+    setConversations((prev) => prev.map((c) => (c.id === id ? { ...c, archived_at } : c)))
+  }
+
+  /**
+   * Delete a thread together with its messages
+   * Opens the next active thread afterwards
+   * @param id - Thread to delete
+   */
+  const handleDeleteConversation = async (id: string) => {
+    const { error } = await supabase.from("conversations").delete().eq("id", id)
+    if (error) {
+      toast.error("Failed to delete thread")
+      return
+    }
+    const remaining = conversations.filter((c) => c.id !== id)
+    setConversations(remaining)
+    if (activeConversationId === id) {
+      setActiveConversationId(remaining.find((c) => !c.archived_at)?.id ?? null)
+    }
+    toast.success("Thread deleted")
+  }
+
   /**
    * Handle text message submission
-   * Sends user message to AI endpoint and stores in database
    * @param e - Form submission event
    */
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
-    
+    sendMessage(input, attachedSelection)
+  }
+
+  /**
+   * Send a message to the tutor
+   * Streams the AI answer into the conversation; /api/chat stores both
+   * messages (and a new thread) and the local IDs are swapped for the stored ones
+   * @param content - The question
+   * @param selection - Passage of the PDF the question is about, if any
+   */
+  const sendMessage = async (content: string, selection: ChatSelection | null) => {
     // Don't process empty messages
-    if (!input.trim()) return
+    if (!content.trim()) return
 
     // Create a user message object
     const userMessage: Message = {
       id: Date.now().toString(),
       role: "user",
-      content: input,
+      content,
+      selection,
+      viewedPdfId: pdfId,
     }
+    // Temporary IDs of both messages until the server returns the stored rows
+    let userId = userMessage.id
+    let assistantId = (Date.now() + 1).toString()
 
     // Update UI with user message immediately
-    setMessages((prev) => [...prev, userMessage])
-    // Clear input field for next message
+    setMessages((prev) => [...prev, userMessage, { id: assistantId, role: "assistant", content: "" }])
+    // Clear input field and the quoted passage for next message
     setInput("")
+    setAttachedSelection(null)
     // Indicate that AI is processing
     setIsLoading(true)
+    setStreamingId(assistantId)
 
-    try {
-      // Send message to AI chat endpoint along with PDF context
-      const response = await fetch("/api/chat", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          message: input,
-          pdfContent: pdfContent,
-          pdfId: pdfId,
-          conversationHistory: messages,
-        }),
-      })
-
-      // Check if the API request was successful
-      if (!response.ok) {
-        throw new Error("Failed to get AI response")
-      }
-
-      // Parse the AI response
-      const data = await response.json()
-      
-      // Create assistant message object from AI response
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: "assistant",
-        content: data.response,
-      }
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    // Text of the answer received so far
+    let answer = ""
+    // Thread created by the server for this message, if it started a new one
+    let createdConversationId: string | null = null
 
-      // Add AI response to message history
-      setMessages((prev) => [...prev, assistantMessage])
-      
-      // Store both messages in the database
-      const {
-        data: { user },
-      } = await supabase.auth.getUser()
+    /**
+     * Update the assistant message being streamed
+     */
+    const updateAnswer = (changes: Partial<Message>) => {
+      setMessages((prev) =>
+        prev.map((m) => (m.id === assistantId ? { ...m, ...changes } : m)),
+      )
+    }
 
-      if (user) {
-        // Save user message to database
-        await supabase.from("messages").insert({
-          user_id: user.id,
-          pdf_id: pdfId,
-          role: "user",
-          content: input,
-        })
+    try {
+      // Send the message to the AI chat endpoint; the server loads the thread
+      // history, retrieves the relevant passages and stores the exchange
+      const events = streamChat(
+        {
+          pdfId: pdfId,
+          conversationId: activeConversationId,
+          message: userMessage.content,
+          model: selectedModel,
+          mode: activeMode,
+          pdfIds: activePdfIds,
+          selection,
+        },
+        { signal: abortController.signal },
+      )
 
-        // Save AI response to database
-        await supabase.from("messages").insert({
-          user_id: user.id,
-          pdf_id: pdfId,
-          role: "assistant",
-          content: data.response,
-        })
+      // Render tokens as they arrive and reconcile IDs of stored rows
+      for await (const event of events) {
+        if (event.type === "user-message") {
+          const { conversation, message } = event
+          setMessages((prev) =>
+            prev.map((m) => (m.id === userId ? { ...m, id: message.id } : m)),
+          )
+          userId = message.id
+          if (!activeConversationId) {
+            // The message started a new thread - open it without reloading
+            createdConversationId = conversation.id
+            createdConversationRef.current = conversation.id
+            setConversations((prev) => [conversation, ...prev])
+            setActiveConversationId(conversation.id)
+          } else {
+            // Move the thread to the top of the picker
+            setConversations((prev) => [
+              { ...conversation, updated_at: message.created_at },
+              ...prev.filter((c) => c.id !== conversation.id),
+            ])
+          }
+        } else if (event.type === "delta") {
+          answer += event.text
+          updateAnswer({ content: answer })
+        } else if (event.type === "citations") {
+          updateAnswer({ citations: event.citations })
+        } else if (event.type === "assistant-message") {
+          updateAnswer({ id: event.message.id })
+          assistantId = event.message.id
+          setStreamingId(assistantId)
+        } else if (event.type === "error") {
+          throw new Error(event.error)
+        }
       }
     } catch (error) {
-      // Show error message to user
-      toast.error(
-        error instanceof Error
-          ? error.message
-          : "Failed to get response",
-      )
+      // Stopping is not an error - the server keeps the partial answer
+      if (!abortController.signal.aborted) {
+        // Show error message to user
+        toast.error(
+          error instanceof Error
+            ? error.message
+            : "Failed to get response",
+        )
+      }
     } finally {
       // Stop showing loading indicator
       setIsLoading(false)
+      setStreamingId(null)
+      abortControllerRef.current = null
+    }
+
+    // Without an answer the server discards the question (and a thread
+    // created for it), so take it back off the screen and into the input
+    if (!answer) {
+      setMessages((prev) => prev.filter((m) => m.id !== assistantId && m.id !== userId))
+      setInput(userMessage.content)
+      setAttachedSelection(selection)
+      if (createdConversationId) {
+        const discardedId = createdConversationId
+        setConversations((prev) => prev.filter((c) => c.id !== discardedId))
+        setActiveConversationId(null)
+      }
     }
   }
 
+  /**
+   * Stop the in-flight AI response
+   * The partial answer stays in the conversation and is saved by the server
+   */
+  const handleStop = () => {
+    abortControllerRef.current?.abort()
+  }
+
   /**
    * Handle voice input using browser's Web Speech API
    * Captures user's spoken words and converts them to text
@@ -272,12 +600,44 @@ export default function ChatInterface({
   return (
     // Main chat container with flexbox layout
     <div className="flex h-full flex-col bg-background">
-      {/* Chat header with title and description */}
+      {/* Chat header with title and thread picker */}
       <div className="border-b p-4">
-        <h2 className="text-sm font-semibold">AI Tutor Chat</h2>
-        <p className="text-xs text-muted-foreground">
-          Ask questions about your document
-        </p>
+        <div className="flex items-center gap-2">
+          <h2 className="text-sm font-semibold mr-auto">AI Tutor Chat</h2>
+          <ConversationPicker
+            conversations={conversations}
+            activeId={activeConversationId}
+            onSelect={setActiveConversationId}
+            onCreate={handleCreateConversation}
+            onRename={handleRenameConversation}
+            onArchive={handleArchiveConversation}
+            onDelete={handleDeleteConversation}
+            disabled={isLoading}
+          />
+          <ModelPicker
+            models={models}
+            value={selectedModel}
+            onChange={handleModelChange}
+            disabled={isLoading}
+          />
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground truncate">
+            {activePdfIds.length > 1
+              ? `Ask questions across ${activePdfIds.length} documents`
+              : "Ask questions about your document"}
+          </p>
+          <div className="flex items-center">
+            <DocumentScopePicker
+              documents={documents}
+              pdfId={pdfId}
+              value={activePdfIds}
+              onChange={handleDocumentsChange}
+              disabled={isLoading}
+            />
+            <ModePicker value={activeMode} onChange={handleModeChange} disabled={isLoading} />
+          </div>
+        </div>
       </div>
 
       {/* Messages display area - scrollable container */}
@@ -312,31 +672,84 @@ export default function ChatInterface({
           </div>
         ) : (
           // Display conversation messages
-          messages.map((message) => (
-            <div
-              key={message.id}
-              className={`flex ${
-                message.role === "user" ? "justify-end" : "justify-start"
-              }`}
-            >
-              {/* Message bubble with different styling for user vs assistant */}
+          messages
+            // The streaming bubble appears once it has content
+            .filter((message) => message.content)
+            .map((message) => (
               <div
-                className={`max-w-[80%] rounded-lg px-4 py-2 ${
-                  message.role === "user"
-                    ? "bg-primary text-primary-foreground"
-                    : "bg-muted text-foreground"
+                key={message.id}
+                className={`flex ${
+                  message.role === "user" ? "justify-end" : "justify-start"
                 }`}
               >
-                {/* Message content with preserved formatting */}
-                <p className="text-sm whitespace-pre-wrap">
-                  {message.content}
-                </p>
+                {/* Message bubble with different styling for user vs assistant */}
+                <div
+                  className={`max-w-[80%] rounded-lg px-4 py-2 ${
+                    message.role === "user"
+                      ? "bg-primary text-primary-foreground"
+                      : "bg-muted text-foreground"
+                  }`}
+                >
+                  {/* Passage the question is about - clicking it shows it in the
+                      PDF it was selected in */}
+                  {message.selection && (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        message.selection && onSelectionClick?.(message.selection, message.viewedPdfId ?? null)
+                      }
+                      title="Show this passage in the PDF"
+                      className="mb-2 block w-full border-l-2 border-primary-foreground/50 pl-2 text-left text-xs opacity-80 transition-opacity hover:opacity-100"
+                    >
+                      <span className="font-medium">
+                        {message.viewedPdfId && message.viewedPdfId !== pdfId
+                          ? `${documentNames.get(message.viewedPdfId) ?? "Deleted document"}, `
+                          : ""}
+                        p. {message.selection.pageNumber}
+                      </span>
+                      <span className="line-clamp-3">&ldquo;{message.selection.text}&rdquo;</span>
+                    </button>
+                  )}
+                  {/* Answers are rendered as Markdown, questions as typed */}
+                  {message.role === "assistant" ? (
+                    <MarkdownContent content={message.content} />
+                  ) : (
+                    <p className="text-sm whitespace-pre-wrap">
+                      {message.content}
+                    </p>
+                  )}
+                  {/* Citation chips - clicking one shows the cited page, in
+                      its own document if it comes from another one */}
+                  {message.citations && message.citations.length > 0 && (
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      {message.citations.map((citation) => {
+                        const otherDocument =
+                          citation.pdfId && citation.pdfId !== pdfId
+                            ? (documentNames.get(citation.pdfId) ?? "Deleted document")
+                            : null
+                        return (
+                          <button
+                            key={citation.index}
+                            type="button"
+                            onClick={() => onCitationClick?.(citation)}
+                            title={`${otherDocument ? `${otherDocument}: ` : ""}"${citation.snippet}"`}
+                            className="inline-flex max-w-full items-center gap-1 rounded-full border bg-background px-2 py-0.5 text-xs text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground"
+                          >
+                            <BookOpen className="h-3 w-3 shrink-0" />
+                            [{citation.index}]
+                            {otherDocument && <span className="max-w-24 truncate">{otherDocument}</span>}
+                            <span className="shrink-0">p. {citation.pageNumber}</span>
+                          </button>
+                        )
+                      })}
+                    </div>
+                  )}
+                </div>
               </div>
-            </div>
-          ))
+            ))
         )}
-        {/* Show loading indicator while AI is processing */}
-        {isLoading && (
+        {/* Show loading indicator until the first token arrives */}
+        {isLoading && !messages.find((m) => m.id === streamingId)?.content && (
           <div className="flex justify-start">
             <div className="max-w-[80%] rounded-lg bg-muted px-4 py-2 flex items-center gap-2">
               {/* Animated spinner icon */}
@@ -354,13 +767,32 @@ export default function ChatInterface({
 
       {/* Input area for sending messages */}
       <div className="border-t p-4">
+        {/* Passage the next question is about */}
+        {attachedSelection && (
+          <div className="mb-2 flex items-start gap-2 rounded-md border-l-2 border-primary bg-muted px-2 py-1 text-xs">
+            <Quote className="mt-0.5 h-3 w-3 shrink-0 text-muted-foreground" />
+            <p className="line-clamp-2 flex-1 text-muted-foreground">
+              <span className="font-medium text-foreground">p. {attachedSelection.pageNumber}</span>{" "}
+              &ldquo;{attachedSelection.text}&rdquo;
+            </p>
+            <button
+              type="button"
+              onClick={() => setAttachedSelection(null)}
+              className="text-muted-foreground hover:text-foreground"
+              aria-label="Remove quoted passage"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        )}
         {/* Form for message submission */}
         <form onSubmit={handleSubmit} className="flex gap-2">
           {/* Text input field for user messages */}
           <Input
+            ref={inputRef}
             value={input}
             onChange={(e) => setInput(e.target.value)}
-            placeholder="Ask a question about the document..."
+            placeholder={attachedSelection ? "Ask about the quoted passage..." : "Ask a question about the document..."}
             disabled={isLoading}
             className="flex-1"
           />
@@ -379,15 +811,29 @@ export default function ChatInterface({
               }`}
             />
           </Button>
-          {/* Submit button - disabled while loading or input is empty */}
-          <Button
-            type="submit"
-            size="icon"
-            disabled={isLoading || !input.trim()}
-          >
-            {/* Send icon */}
-            <Send className="h-4 w-4" />
-          </Button>
+          {isLoading ? (
+            // Stop button - aborts the streaming response
+            <Button
+              type="button"
+              size="icon"
+              variant="destructive"
+              onClick={handleStop}
+              title="Stop generating"
+            >
+              {/* Stop icon */}
+              <Square className="h-4 w-4" />
+            </Button>
+          ) : (
+            // Submit button - disabled while input is empty
+            <Button
+              type="submit"
+              size="icon"
+              disabled={!input.trim()}
+            >
+              {/* Send icon */}
+              <Send className="h-4 w-4" />
+            </Button>
+          )}
         </form>
         {/* Help text for voice input feature */}
         <p className="text-xs text-muted-foreground mt-2 text-center">
@@ -0,0 +1,48 @@
+// This is a client-side component - picks a color of the annotation palette
+"use client"
+
+// Import the palette colors
+import { ANNOTATION_COLORS } from "@/lib/annotations/palette"
+// Import utility for merging class names
+import { cn } from "@/lib/utils"
+
+/**
+ * Props for the ColorPalette component
+ * @property value - The selected color
+ * @property onChange - Called with the color that was clicked
+ * @property className - Extra classes for the row of colors
+ */
+interface ColorPaletteProps {
+  value: string
+  onChange: (color: string) => void
+  className?: string
+}
+
+/**
+ * ColorPalette - Row of color circles, the selected one ringed
+ *
+ * @param props - Selected color and change handler
+ * @returns JSX element with one button per palette color
+ */
+export default function ColorPalette({ value, onChange, className }: ColorPaletteProps) {
+  return (
+    <div className={cn("flex items-center gap-1", className)} role="radiogroup" aria-label="Annotation color">
+      {ANNOTATION_COLORS.map((color) => (
+        <button
+          key={color.value}
+          type="button"
+          role="radio"
+          aria-checked={color.value === value}
+          aria-label={color.name}
+          title={color.name}
+          onClick={() => onChange(color.value)}
+          className={cn(
+            "h-4 w-4 rounded-full border border-black/10 transition-transform hover:scale-110",
+            color.value === value && "ring-2 ring-primary ring-offset-1 ring-offset-background",
+          )}
+          style={{ backgroundColor: color.value }}
+        />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,243 @@
+// This is a client-side component - enables thread switching and management
+"use client"
+
+// Import React type for form event handling
+import type React from "react"
+// Import useState hook for dialog state
+import { useState } from "react"
+// Import Button UI component for the trigger and dialog actions
+import { Button } from "@/components/ui/button"
+// Import Input component for renaming threads
+import { Input } from "@/components/ui/input"
+// Import Dialog components for the rename and delete confirmations
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+// Import DropdownMenu components for the thread list
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+// Import icons for the thread actions
+import { Archive, ArchiveRestore, Check, ChevronDown, Files, MessageSquare, Pencil, Plus, Trash2 } from "lucide-react"
+// Import TutorMode type of the thread's tutoring mode
+import type { TutorMode } from "@/lib/api/schemas"
+
+/**
+ * A named chat thread about a PDF
+ * @property id - Unique identifier of the thread
+ * @property title - Display name chosen by the student
+ * @property mode - Tutoring mode of the thread
+ * @property pdf_ids - Documents the thread draws on, including its own PDF
+ * @property archived_at - When the thread was archived, or null if active
+ * @property updated_at - Time of the latest message, used for ordering
+ */
+export interface Conversation {
+  id: string
+  title: string
+  mode: TutorMode
+  pdf_ids: string[]
+  archived_at: string | null
+  updated_at: string
+}
+
+/**
+ * Props for the ConversationPicker component
+ * @property conversations - All threads drawing on the current PDF, most recent first
+ * @property activeId - ID of the open thread, or null for a new unsaved thread
+ * @property onSelect - Open another thread
+ * @property onCreate - Start a new thread
+ * @property onRename - Rename a thread
+ * @property onArchive - Archive (true) or restore (false) a thread
+ * @property onDelete - Delete a thread and its messages
+ * @property disabled - Prevent switching threads, e.g. while an answer is streaming
+ */
+interface ConversationPickerProps {
+  conversations: Conversation[]
+  activeId: string | null
+  onSelect: (id: string) => void
+  onCreate: () => void
+  onRename: (id: string, title: string) => void
+  onArchive: (id: string, archived: boolean) => void
+  onDelete: (id: string) => void
+  disabled?: boolean
+}
+
+/**
+ * ConversationPicker - Thread picker shown in the chat header
+ * Features:
+ * - Switch between active threads, with archived threads listed separately
+ * - Create a new thread
+ * - Rename, archive/restore and delete the open thread
+ *
+ * @param props - Threads, the open thread and the thread action callbacks
+ * @returns JSX element with the picker menu and its dialogs
+ */
+export default function ConversationPicker({
+  conversations,
+  activeId,
+  onSelect,
+  onCreate,
+  onRename,
+  onArchive,
+  onDelete,
+  disabled,
+}: ConversationPickerProps) {
+  // State for the rename dialog and its input value
+  const [isRenameOpen, setIsRenameOpen] = useState(false)
+  const [renameValue, setRenameValue] = useState("")
+  // State for the delete confirmation dialog
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false)
+
+  // The open thread, if it has been saved
+  const active = conversations.find((c) => c.id === activeId) ?? null
+  // Threads split into active and archived lists
+  const activeThreads = conversations.filter((c) => !c.archived_at)
+  const archivedThreads = conversations.filter((c) => c.archived_at)
+
+  /**
+   * Save the new title of the open thread
+   * @param e - Form submission event
+   */
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!active || !renameValue.trim()) return
+    onRename(active.id, renameValue.trim())
+    setIsRenameOpen(false)
+  }
+
+  /**
+   * Render one thread entry of the menu; threads drawing on several documents
+   * have their own icon
+   */
+  const renderThread = (conversation: Conversation) => (
+    <DropdownMenuItem key={conversation.id} onSelect={() => onSelect(conversation.id)}>
+      {conversation.pdf_ids.length > 1 ? <Files /> : <MessageSquare />}
+      <span className="flex-1 truncate">{conversation.title}</span>
+      {conversation.id === activeId && <Check className="ml-auto" />}
+    </DropdownMenuItem>
+  )
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-7 max-w-[14rem] px-2" disabled={disabled}>
+            <span className="truncate">{active?.title ?? "New thread"}</span>
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          {/* Start a new thread */}
+          <DropdownMenuItem onSelect={onCreate}>
+            <Plus />
+            New thread
+          </DropdownMenuItem>
+
+          {/* Active threads */}
+          {activeThreads.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs text-muted-foreground">Threads</DropdownMenuLabel>
+              {activeThreads.map(renderThread)}
+            </>
+          )}
+
+          {/* Archived threads */}
+          {archivedThreads.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs text-muted-foreground">Archived</DropdownMenuLabel>
+              {archivedThreads.map(renderThread)}
+            </>
+          )}
+
+          {/* Actions on the open thread */}
+          {active && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                onSelect={() => {
+                  setRenameValue(active.title)
+                  setIsRenameOpen(true)
+                }}
+              >
+                <Pencil />
+                Rename
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => onArchive(active.id, !active.archived_at)}>
+                {active.archived_at ? <ArchiveRestore /> : <Archive />}
+                {active.archived_at ? "Restore" : "Archive"}
+              </DropdownMenuItem>
+              <DropdownMenuItem variant="destructive" onSelect={() => setIsDeleteOpen(true)}>
+                <Trash2 />
+                Delete
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Rename dialog */}
+      <Dialog open={isRenameOpen} onOpenChange={setIsRenameOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <form onSubmit={handleRename} className="grid gap-4">
+            <DialogHeader>
+              <DialogTitle>Rename thread</DialogTitle>
+              <DialogDescription>Give this conversation a name you will recognize later.</DialogDescription>
+            </DialogHeader>
+            <Input
+              value={renameValue}
+              onChange={(e) => setRenameValue(e.target.value)}
+              maxLength={100}
+              autoFocus
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsRenameOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!renameValue.trim()}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation dialog */}
+      <Dialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Delete thread?</DialogTitle>
+            <DialogDescription>
+              &ldquo;{active?.title}&rdquo; and all of its messages will be permanently deleted.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDeleteOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => {
+                if (active) onDelete(active.id)
+                setIsDeleteOpen(false)
+              }}
+            >
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
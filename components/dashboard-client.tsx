@@ -2,23 +2,57 @@
 "use client"
 
 // Import useState hook for managing component state
-import { useState } from "react"
+import { Fragment, useEffect, useRef, useState } from "react"
 // Import User type from Supabase for type safety
 import type { User } from "@supabase/supabase-js"
 // Import Button UI component for user actions
 import { Button } from "@/components/ui/button"
+// Import Input component for the library search box
+import { Input } from "@/components/ui/input"
 // Import icons: LogOut for logout button, Upload for PDF upload, FileText for PDF file display
-import { LogOut, Upload, FileText } from "lucide-react"
+import { LogOut, Upload, FileText, Folder, MessageSquare, ListChecks, Layers, ScrollText, Search, X } from "lucide-react"
 // Import Supabase client for authentication and database operations
 import { createClient } from "@/lib/supabase/client"
 // Import router for navigation after logout
 import { useRouter } from "next/navigation"
 // Import PdfUploadDialog component for PDF file uploads
 import PdfUploadDialog from "@/components/pdf-upload-dialog"
-// Import PdfViewer component for displaying PDF documents
-import PdfViewer from "@/components/pdf-viewer"
+// Import DocumentMenu component for renaming, replacing and deleting documents
+import DocumentMenu from "@/components/document-menu"
+// Import toast notification system for user feedback and undoing deletions
+import { toast } from "sonner"
+// Import the typed client for replacing and deleting documents
+import { deletePdf, extractText } from "@/lib/api/client"
+// Import the storage helpers for uploading a replacement file
+import { removePdfFile, uploadPdfFile } from "@/lib/pdf/storage"
+// Import dynamic to load the PDF viewer in the browser only (pdf.js needs the DOM)
+import dynamic from "next/dynamic"
+// Import the PdfViewer types for flashing quotes
+import type { PdfFlash } from "@/components/pdf-viewer"
 // Import ChatInterface component for AI-powered document Q&A
-import ChatInterface from "@/components/chat-interface"
+import ChatInterface, { type SelectionRequest } from "@/components/chat-interface"
+// Import QuizPanel component for quizzes generated from the document
+import QuizPanel from "@/components/quiz-panel"
+// Import FlashcardPanel component for the flashcard deck of the document
+import FlashcardPanel from "@/components/flashcard-panel"
+// Import SummaryPanel component for summaries of the document
+import SummaryPanel from "@/components/summary-panel"
+// Import LibrarySearchResults component for searching all documents
+import LibrarySearchResults, { snippetText } from "@/components/library-search-results"
+// Import Tabs components for switching between the study panels
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+// Import Citation type for chat answers that link back to the PDF
+import type { Citation } from "@/lib/chat/citations"
+// Import the selected passage type and the tutor actions offered for it
+import type { ChatSelection, SelectionAction } from "@/lib/chat/selection"
+// Import the library search result type and the shortest query searched
+import { MIN_SEARCH_QUERY_LENGTH, type LibrarySearchResult } from "@/lib/api/schemas"
+
+// PdfViewer component for displaying PDF documents, rendered with pdf.js
+const PdfViewer = dynamic(() => import("@/components/pdf-viewer"), { ssr: false })
+
+// Time to undo deleting a document before it is deleted for good (in milliseconds)
+const UNDO_DELETE_DELAY = 8000
 
 /**
  * Interface representing a PDF file stored in the database
@@ -27,6 +61,7 @@ import ChatInterface from "@/components/chat-interface"
  * @property url - URL to access the PDF file
  * @property text_content - Extracted text content from the PDF for AI processing
  * @property page_count - Total number of pages in the PDF
+ * @property folder - Course folder the PDF is in, null if none
  * @property created_at - Timestamp when the PDF was uploaded
  */
 interface PdfFile {
@@ -35,6 +70,7 @@ interface PdfFile {
   url: string
   text_content: string
   page_count: number
+  folder: string | null
   created_at: string
 }
 
@@ -51,9 +87,12 @@ interface DashboardClientProps {
 /**
  * DashboardClient - Main interactive dashboard component
  * Manages the layout and state for:
- * - PDF file list sidebar
+ * - PDF file list sidebar, with a search across all documents and a menu
+ *   per document to rename, replace or delete it (undoable for a few seconds)
  * - PDF viewer panel
- * - AI chat interface panel
+ * - Study panel with the AI chat (across one or several documents), quizzes and flashcards
+ * - Questions about text selected in the viewer, asked in the chat
+ * - Flashcards due for review per document
  * - User authentication (logout)
  * - PDF upload functionality
  * 
@@ -71,8 +110,31 @@ export default function DashboardClient({
   const [selectedPdf, setSelectedPdf] = useState<PdfFile | null>(
     initialPdfFiles[0] || null
   )
+  // State for the page shown in the PDF viewer (shared with the chat for citations)
+  const [currentPage, setCurrentPage] = useState(1)
+  // State for the quoted region the viewer should flash
+  const [flash, setFlash] = useState<PdfFlash | null>(null)
+  // State for the open study panel tab
+  const [studyTab, setStudyTab] = useState("chat")
+  // State for the latest question about text selected in the viewer
+  const [selectionRequest, setSelectionRequest] = useState<SelectionRequest | null>(null)
+  // State for the number of flashcards due per PDF id
+  const [dueCounts, setDueCounts] = useState<Record<string, number>>({})
+  // State for the library search text in the sidebar
+  const [libraryQuery, setLibraryQuery] = useState("")
+  // State for the document whose menu is open, e.g. after a right-click
+  const [menuPdfId, setMenuPdfId] = useState<string | null>(null)
   // State for controlling visibility of the PDF upload dialog
   const [isUploadOpen, setIsUploadOpen] = useState(false)
+  // Course folders of the documents by name, and the documents in the sidebar
+  // grouped by folder, those in no folder last
+  const sortedFolders = [...new Set(pdfFiles.flatMap((pdf) => (pdf.folder ? [pdf.folder] : [])))].sort((a, b) =>
+    a.localeCompare(b),
+  )
+  const folderOrder = (pdf: PdfFile) => (pdf.folder ? sortedFolders.indexOf(pdf.folder) : sortedFolders.length)
+  const listedPdfFiles = [...pdfFiles].sort((a, b) => folderOrder(a) - folderOrder(b))
+  // Documents deleted in the sidebar that can still be undone, with their timers
+  const pendingDeletesRef = useRef(new Map<string, ReturnType<typeof setTimeout>>())
   // Router for navigation after logout
   const router = useRouter()
   // Supabase client for authentication operations
@@ -89,6 +151,262 @@ export default function DashboardClient({
     router.push("/")
   }
 
+  /**
+   * Load the number of flashcards due for review per PDF
+   */
+  const loadDueCounts = async () => {
+    const { data, error } = await supabase.rpc("flashcard_due_counts")
+    if (error) {
+      console.error("[v0] Error loading due flashcards:", error)
+      return
+    }
+    setDueCounts(
+      Object.fromEntries(
+        (data as { pdf_id: string; due_count: number }[]).map((row) => [row.pdf_id, Number(row.due_count)]),
+      ),
+    )
+  }
+
+  // Load the due counts once when the dashboard opens
+  useEffect(() => {
+    loadDueCounts()
+  }, [])
+
+  // Delete documents still waiting for their undo window right away when the
+  // page is closed or left; keepalive lets the requests finish
+  useEffect(() => {
+    const flushDeletes = () => {
+      for (const [pdfId, timeout] of pendingDeletesRef.current) {
+        clearTimeout(timeout)
+        deletePdf(pdfId, { keepalive: true }).catch((error) =>
+          console.error("[v0] Error deleting document:", error),
+        )
+      }
+      pendingDeletesRef.current.clear()
+    }
+
+    window.addEventListener("pagehide", flushDeletes)
+    return () => {
+      window.removeEventListener("pagehide", flushDeletes)
+      flushDeletes()
+    }
+  }, [])
+
+  /**
+   * Select a PDF for viewing, starting on its first page
+   * @param pdf - The PDF file to show
+   */
+  const selectPdf = (pdf: PdfFile) => {
+    setSelectedPdf(pdf)
+    setCurrentPage(1)
+    setFlash(null)
+    setSelectionRequest(null)
+  }
+
+  /**
+   * Handle a click on a chat citation
+   * Jumps the viewer to the cited page and flashes the quoted text; a citation
+   * of another document of the thread opens that document first
+   * @param citation - The clicked citation
+   */
+  const handleCitationClick = (citation: Citation) => {
+    if (citation.pdfId && citation.pdfId !== selectedPdf?.id) {
+      const pdf = pdfFiles.find((file) => file.id === citation.pdfId)
+      if (!pdf) return
+      setSelectedPdf(pdf)
+    }
+    setCurrentPage(citation.pageNumber)
+    setFlash({ id: Date.now(), pageNumber: citation.pageNumber, text: citation.snippet })
+  }
+
+  /**
+   * Ask the tutor about text selected in the viewer
+   * Opens the chat and hands it the passage
+   * @param selection - The selected passage
+   * @param action - Which question to ask about it
+   */
+  const handleAskTutor = (selection: ChatSelection, action: SelectionAction) => {
+    setStudyTab("chat")
+    setSelectionRequest({ id: Date.now(), selection, action })
+  }
+
+  /**
+   * Handle a click on the passage quoted by a chat question
+   * Jumps the viewer to its page - opening the document it was selected in
+   * first if that is another one - and flashes the selected lines
+   * @param selection - The quoted passage
+   * @param pdfId - Document the passage was selected in
+   */
+  const handleSelectionClick = (selection: ChatSelection, pdfId: string | null) => {
+    if (pdfId && pdfId !== selectedPdf?.id) {
+      const pdf = pdfFiles.find((file) => file.id === pdfId)
+      if (!pdf) return
+      setSelectedPdf(pdf)
+    }
+    setCurrentPage(selection.pageNumber)
+    setFlash({ id: Date.now(), pageNumber: selection.pageNumber, text: selection.text, rects: selection.rects })
+  }
+
+  /**
+   * Show a page of the PDF, e.g. the source page of a quiz explanation
+   * @param pageNumber - The page to show
+   */
+  const handlePageJump = (pageNumber: number) => {
+    setCurrentPage(pageNumber)
+    setFlash(null)
+  }
+
+  /**
+   * Open a library search match
+   * Selects its document, jumps to its page and flashes the matched text;
+   * chat matches also open the chat
+   * @param pdfId - Document of the match
+   * @param result - The clicked match
+   */
+  const openSearchResult = (pdfId: string, result: LibrarySearchResult) => {
+    const pdf = pdfFiles.find((file) => file.id === pdfId)
+    if (!pdf) return
+    setSelectedPdf(pdf)
+    setCurrentPage(result.pageNumber ?? 1)
+    setFlash(
+      result.pageNumber === null
+        ? null
+        : { id: Date.now(), pageNumber: result.pageNumber, text: snippetText(result.snippet) },
+    )
+    setSelectionRequest(null)
+    if (result.kind === "message") setStudyTab("chat")
+  }
+
+  /**
+   * Show the changed record of a document in the list and the viewer
+   * @param pdf - The updated document
+   */
+  const updatePdf = (pdf: PdfFile) => {
+    setPdfFiles((prev) => prev.map((file) => (file.id === pdf.id ? pdf : file)))
+    setSelectedPdf((current) => (current?.id === pdf.id ? pdf : current))
+  }
+
+  /**
+   * Rename a document
+   * @param pdf - The document
+   * @param name - Its new name
+   */
+  const handleRenamePdf = async (pdf: PdfFile, name: string) => {
+    const { error } = await supabase.from("pdf_files").update({ name }).eq("id", pdf.id)
+    if (error) {
+      console.error("[v0] Error renaming document:", error)
+      toast.error("Failed to rename document")
+      return
+    }
+    updatePdf({ ...pdf, name })
+  }
+
+  /**
+   * Move a document into a course folder or out of its folder
+   * @param pdf - The document
+   * @param folder - The folder, null for none
+   */
+  const handleMovePdf = async (pdf: PdfFile, folder: string | null) => {
+    const { error } = await supabase.from("pdf_files").update({ folder }).eq("id", pdf.id)
+    if (error) {
+      console.error("[v0] Error moving document:", error)
+      toast.error("Failed to move document")
+      return
+    }
+    updatePdf({ ...pdf, folder })
+  }
+
+  /**
+   * Replace the file of a document, keeping its id and everything attached to it
+   * Uploads the new file and lets /api/extract-text renew the text of the
+   * record and remove the old file
+   * @param pdf - The document
+   * @param file - The new version of the PDF
+   * @throws If replacing fails, after reporting it, so the dialog stays open
+   */
+  const handleReplacePdf = async (pdf: PdfFile, file: File) => {
+    try {
+      const {
+        data: { user: sessionUser },
+      } = await supabase.auth.getUser()
+      if (!sessionUser) throw new Error("Not authenticated")
+
+      const { url } = await uploadPdfFile(supabase, { userId: sessionUser.id, file })
+      const { pdf: replaced } = await extractText({ file, url, pdfId: pdf.id }).catch(async (extractError) => {
+        // Remove the new file again so a failed replacement leaves nothing behind
+        await removePdfFile(supabase, url).catch((removeError) =>
+          console.error("[v0] Storage cleanup error:", removeError),
+        )
+        throw extractError
+      })
+
+      updatePdf(replaced)
+      if (selectedPdf?.id === pdf.id) {
+        setCurrentPage(1)
+        setFlash(null)
+      }
+      toast.success("File replaced")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to replace file")
+      throw error
+    }
+  }
+
+  /**
+   * Delete a document, undoable for a few seconds
+   * The document disappears at once; its record, file, annotations and chats
+   * are only deleted once the undo window has passed
+   * @param pdf - The document
+   */
+  const handleDeletePdf = (pdf: PdfFile) => {
+    const index = pdfFiles.findIndex((file) => file.id === pdf.id)
+    const remaining = pdfFiles.filter((file) => file.id !== pdf.id)
+    const wasSelected = selectedPdf?.id === pdf.id
+
+    setPdfFiles(remaining)
+    if (wasSelected) {
+      const next = remaining[Math.min(index, remaining.length - 1)]
+      if (next) {
+        selectPdf(next)
+      } else {
+        setSelectedPdf(null)
+      }
+    }
+
+    /**
+     * Put the document back where it was
+     */
+    const restore = () => {
+      setPdfFiles((prev) => [...prev.slice(0, index), pdf, ...prev.slice(index)])
+      if (wasSelected) selectPdf(pdf)
+    }
+
+    const timeout = setTimeout(async () => {
+      pendingDeletesRef.current.delete(pdf.id)
+      try {
+        await deletePdf(pdf.id)
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Failed to delete document")
+        restore()
+      }
+    }, UNDO_DELETE_DELAY)
+    pendingDeletesRef.current.set(pdf.id, timeout)
+
+    toast(`"${pdf.name}" deleted`, {
+      duration: UNDO_DELETE_DELAY,
+      action: {
+        label: "Undo",
+        onClick: () => {
+          // Too late once the deletion has started
+          if (!pendingDeletesRef.current.has(pdf.id)) return
+          clearTimeout(timeout)
+          pendingDeletesRef.current.delete(pdf.id)
+          restore()
+        },
+      },
+    })
+  }
+
   /**
    * Handle new PDF upload
    * Adds the newly uploaded PDF to the file list and selects it for viewing
@@ -98,7 +416,7 @@ export default function DashboardClient({
     // Add new PDF to the beginning of the list
     setPdfFiles([newPdf, ...pdfFiles])
     // Automatically select the newly uploaded PDF
-    setSelectedPdf(newPdf)
+    selectPdf(newPdf)
     // Close the upload dialog
     setIsUploadOpen(false)
   }
@@ -148,15 +466,39 @@ export default function DashboardClient({
         {/* Left sidebar - PDF files list */}
         <aside className="w-64 border-r bg-muted/50 overflow-y-auto">
           {/* Sidebar header */}
-          <div className="border-b p-4">
+          <div className="border-b p-4 space-y-3">
+            {/* Search across all documents, annotations and chats */}
+            <div className="relative">
+              <Search className="pointer-events-none absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                value={libraryQuery}
+                onChange={(e) => setLibraryQuery(e.target.value)}
+                onKeyDown={(e) => e.key === "Escape" && setLibraryQuery("")}
+                placeholder="Search all documents..."
+                className="h-8 bg-background pl-8 pr-8"
+              />
+              {libraryQuery && (
+                <button
+                  type="button"
+                  onClick={() => setLibraryQuery("")}
+                  className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                  title="Clear search"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              )}
+            </div>
             {/* Sidebar title */}
-            <h2 className="text-sm font-semibold">Your Documents</h2>
+            <h2 className="text-sm font-semibold">
+              {libraryQuery.trim().length >= MIN_SEARCH_QUERY_LENGTH ? "Search Results" : "Your Documents"}
+            </h2>
           </div>
 
-          {/* PDF files list container */}
+          {/* PDF files list container, or the search results while searching */}
           <div className="p-4 space-y-2">
-            {/* Check if there are any PDF files */}
-            {pdfFiles.length === 0 ? (
+            {libraryQuery.trim().length >= MIN_SEARCH_QUERY_LENGTH ? (
+              <LibrarySearchResults query={libraryQuery.trim()} onOpen={openSearchResult} />
+            ) : pdfFiles.length === 0 ? (
               // Empty state - show when no PDFs uploaded
               <div className="text-center py-8">
                 {/* Empty state icon */}
@@ -171,29 +513,74 @@ export default function DashboardClient({
                 </p>
               </div>
             ) : (
-              // Display list of PDF files
-              pdfFiles.map((pdf) => (
-                // PDF file item button
-                <button
-                  key={pdf.id}
-                  onClick={() => setSelectedPdf(pdf)}
-                  className={`w-full text-left px-3 py-2 rounded-md text-sm transition-colors ${
-                    selectedPdf?.id === pdf.id
-                      ? "bg-primary text-primary-foreground"
-                      : "hover:bg-muted"
-                  }`}
-                >
-                  {/* PDF file icon */}
-                  <div className="flex items-center gap-2 truncate">
-                    <FileText className="h-4 w-4 flex-shrink-0" />
-                    {/* PDF filename */}
-                    <span className="truncate">{pdf.name}</span>
+              // Display list of PDF files under their folders; right-clicking one opens its menu
+              listedPdfFiles.map((pdf, index) => (
+                <Fragment key={pdf.id}>
+                  {/* Folder heading above the first document of each folder */}
+                  {sortedFolders.length > 0 && (index === 0 || pdf.folder !== listedPdfFiles[index - 1].folder) && (
+                    <p className="flex items-center gap-1 px-3 pt-3 pb-1 text-xs font-medium text-muted-foreground">
+                      <Folder className="h-3 w-3" />
+                      <span className="truncate">{pdf.folder ?? "No folder"}</span>
+                    </p>
+                  )}
+                  <div
+                    className="group relative"
+                    onContextMenu={(e) => {
+                      e.preventDefault()
+                      setMenuPdfId(pdf.id)
+                    }}
+                  >
+                    {/* PDF file item button */}
+                    <button
+                      onClick={() => selectPdf(pdf)}
+                      className={`w-full text-left pl-3 pr-9 py-2 rounded-md text-sm transition-colors ${
+                        selectedPdf?.id === pdf.id
+                          ? "bg-primary text-primary-foreground"
+                          : "hover:bg-muted"
+                      }`}
+                    >
+                      {/* PDF file icon */}
+                      <div className="flex items-center gap-2 truncate">
+                        <FileText className="h-4 w-4 flex-shrink-0" />
+                        {/* PDF filename */}
+                        <span className="truncate">{pdf.name}</span>
+                      </div>
+                      {/* PDF page count info and flashcards due for review */}
+                      <div className="flex items-center justify-between mt-1">
+                        <p className="text-xs text-muted-foreground">
+                          {pdf.page_count} pages
+                        </p>
+                        {dueCounts[pdf.id] > 0 && (
+                          <span
+                            className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+                              selectedPdf?.id === pdf.id
+                                ? "bg-primary-foreground text-primary"
+                                : "bg-primary text-primary-foreground"
+                            }`}
+                            title="Flashcards due for review"
+                          >
+                            {dueCounts[pdf.id]} due
+                          </span>
+                        )}
+                      </div>
+                    </button>
+                    {/* Rename, move, replace and delete - shown on hover */}
+                    <DocumentMenu
+                      name={pdf.name}
+                      folder={pdf.folder}
+                      folders={sortedFolders}
+                      open={menuPdfId === pdf.id}
+                      onOpenChange={(open) => setMenuPdfId(open ? pdf.id : null)}
+                      onRename={(name) => handleRenamePdf(pdf, name)}
+                      onMove={(folder) => handleMovePdf(pdf, folder)}
+                      onReplace={(file) => handleReplacePdf(pdf, file)}
+                      onDelete={() => handleDeletePdf(pdf)}
+                      className={`absolute right-1 top-1 h-7 w-7 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100 ${
+                        selectedPdf?.id === pdf.id ? "text-primary-foreground" : ""
+                      }`}
+                    />
                   </div>
-                  {/* PDF page count info */}
-                  <p className="text-xs text-muted-foreground mt-1">
-                    {pdf.page_count} pages
-                  </p>
-                </button>
+                </Fragment>
               ))
             )}
           </div>
@@ -207,19 +594,80 @@ export default function DashboardClient({
             <>
               {/* PDF Viewer panel - takes up left side */}
               <div className="flex-1 overflow-hidden border-r">
+                {/* Keyed by the file so a replaced file starts a fresh viewer */}
                 <PdfViewer
+                  key={selectedPdf.url}
                   pdfUrl={selectedPdf.url}
                   pdfName={selectedPdf.name}
-                />
-              </div>
-
-              {/* Chat Interface panel - takes up right side */}
-              <div className="w-96 overflow-hidden flex flex-col border-l">
-                <ChatInterface
                   pdfId={selectedPdf.id}
-                  pdfContent={selectedPdf.text_content}
+                  pageCount={selectedPdf.page_count}
+                  currentPage={currentPage}
+                  onPageChange={setCurrentPage}
+                  onAskTutor={handleAskTutor}
+                  flash={flash}
                 />
               </div>
+
+              {/* Study panel - takes up right side; panels stay mounted so
+                  switching tabs keeps a streaming answer or a quiz in progress */}
+              <Tabs value={studyTab} onValueChange={setStudyTab} className="w-96 overflow-hidden border-l gap-0">
+                <div className="border-b px-4 py-2">
+                  <TabsList className="w-full">
+                    <TabsTrigger value="chat">
+                      <MessageSquare className="h-4 w-4" />
+                      Chat
+                    </TabsTrigger>
+                    <TabsTrigger value="summary">
+                      <ScrollText className="h-4 w-4" />
+                      Summary
+                    </TabsTrigger>
+                    <TabsTrigger value="quiz">
+                      <ListChecks className="h-4 w-4" />
+                      Quiz
+                    </TabsTrigger>
+                    <TabsTrigger value="flashcards">
+                      <Layers className="h-4 w-4" />
+                      Cards
+                    </TabsTrigger>
+                  </TabsList>
+                </div>
+                <TabsContent value="chat" forceMount className="min-h-0 overflow-hidden data-[state=inactive]:hidden">
+                  <ChatInterface
+                    pdfId={selectedPdf.id}
+                    documents={pdfFiles}
+                    onCitationClick={handleCitationClick}
+                    selectionRequest={selectionRequest}
+                    onSelectionClick={handleSelectionClick}
+                  />
+                </TabsContent>
+                <TabsContent value="summary" forceMount className="min-h-0 overflow-hidden data-[state=inactive]:hidden">
+                  {/* Keyed by the file so a replaced file starts without the old summaries */}
+                  <SummaryPanel
+                    key={selectedPdf.url}
+                    pdfId={selectedPdf.id}
+                    pageCount={selectedPdf.page_count}
+                    currentPage={currentPage}
+                    onPageClick={handlePageJump}
+                  />
+                </TabsContent>
+                <TabsContent value="quiz" forceMount className="min-h-0 overflow-hidden data-[state=inactive]:hidden">
+                  <QuizPanel
+                    pdfId={selectedPdf.id}
+                    pageCount={selectedPdf.page_count}
+                    currentPage={currentPage}
+                    onPageClick={handlePageJump}
+                  />
+                </TabsContent>
+                <TabsContent value="flashcards" forceMount className="min-h-0 overflow-hidden data-[state=inactive]:hidden">
+                  <FlashcardPanel
+                    pdfId={selectedPdf.id}
+                    pageCount={selectedPdf.page_count}
+                    currentPage={currentPage}
+                    onPageClick={handlePageJump}
+                    onDueCountChange={loadDueCounts}
+                  />
+                </TabsContent>
+              </Tabs>
             </>
           ) : (
             // Empty state when no PDF is selected
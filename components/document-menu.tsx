@@ -0,0 +1,289 @@
+// This is a client-side component - enables managing a document from the sidebar
+"use client"
+
+// Import React type for form event handling
+import type React from "react"
+// Import useState hook for dialog state
+import { useState } from "react"
+// Import Button UI component for the trigger and dialog actions
+import { Button } from "@/components/ui/button"
+// Import Input component for renaming, naming the folder and picking the new file
+import { Input } from "@/components/ui/input"
+// Import Dialog components for the rename, move and replace dialogs
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+// Import DropdownMenu components for the document actions
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+// Import icons for the document actions
+import { FileUp, FolderInput, Loader2, MoreHorizontal, Pencil, Trash2 } from "lucide-react"
+// Import the largest PDF accepted by the server
+import { MAX_PDF_SIZE } from "@/lib/api/schemas"
+
+/**
+ * Props for the DocumentMenu component
+ * @property name - Display name of the document
+ * @property folder - Course folder the document is in, null if none
+ * @property folders - The student's existing folders, offered when moving
+ * @property open - Whether the menu is open, e.g. after a right-click on the document
+ * @property onOpenChange - Called when the menu opens or closes
+ * @property onRename - Rename the document
+ * @property onMove - Move the document into a folder, or out of it with null
+ * @property onReplace - Replace the file of the document; resolves once done
+ * @property onDelete - Delete the document (undoable for a few seconds)
+ * @property className - Classes of the trigger button
+ */
+interface DocumentMenuProps {
+  name: string
+  folder: string | null
+  folders: string[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onRename: (name: string) => void
+  onMove: (folder: string | null) => void
+  onReplace: (file: File) => Promise<void>
+  onDelete: () => void
+  className?: string
+}
+
+/**
+ * DocumentMenu - Actions of a document in the sidebar
+ * Features:
+ * - Rename the document
+ * - Move it into a course folder, a new or an existing one
+ * - Replace its file with a new version, keeping annotations, chats, quizzes and flashcards
+ * - Delete it together with its file
+ *
+ * @param props - The document name, the menu state and the action callbacks
+ * @returns JSX element with the menu and its dialogs
+ */
+export default function DocumentMenu({
+  name,
+  folder,
+  folders,
+  open,
+  onOpenChange,
+  onRename,
+  onMove,
+  onReplace,
+  onDelete,
+  className,
+}: DocumentMenuProps) {
+  // State for the rename dialog and its input value
+  const [isRenameOpen, setIsRenameOpen] = useState(false)
+  const [renameValue, setRenameValue] = useState("")
+  // State for the move dialog and its folder name
+  const [isMoveOpen, setIsMoveOpen] = useState(false)
+  const [folderValue, setFolderValue] = useState("")
+  // State for the replace dialog, the picked file and the upload in progress
+  const [isReplaceOpen, setIsReplaceOpen] = useState(false)
+  const [file, setFile] = useState<File | null>(null)
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [isReplacing, setIsReplacing] = useState(false)
+
+  /**
+   * Save the new name of the document
+   * @param e - Form submission event
+   */
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!renameValue.trim()) return
+    onRename(renameValue.trim())
+    setIsRenameOpen(false)
+  }
+
+  /**
+   * Save the folder of the document; an empty name takes it out of its folder
+   * @param e - Form submission event
+   */
+  const handleMove = (e: React.FormEvent) => {
+    e.preventDefault()
+    const next = folderValue.trim() || null
+    if (next !== folder) onMove(next)
+    setIsMoveOpen(false)
+  }
+
+  /**
+   * Pick the new file, which must be a PDF the server accepts
+   * @param e - File input change event
+   */
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0] ?? null
+    if (selectedFile && selectedFile.type !== "application/pdf") {
+      setFile(null)
+      setFileError("Please select a valid PDF file")
+    } else if (selectedFile && selectedFile.size > MAX_PDF_SIZE) {
+      setFile(null)
+      setFileError("PDF is too large")
+    } else {
+      setFile(selectedFile)
+      setFileError(null)
+    }
+  }
+
+  /**
+   * Replace the file and close the dialog once done
+   * The dialog stays open with the file picked if replacing fails
+   */
+  const handleReplace = async () => {
+    if (!file) return
+    setIsReplacing(true)
+    try {
+      await onReplace(file)
+      setIsReplaceOpen(false)
+      setFile(null)
+    } catch {
+      // The caller reports the failure
+    } finally {
+      setIsReplacing(false)
+    }
+  }
+
+  return (
+    <>
+      <DropdownMenu open={open} onOpenChange={onOpenChange}>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className={className} aria-label={`Actions for ${name}`}>
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-48">
+          <DropdownMenuItem
+            onSelect={() => {
+              setRenameValue(name)
+              setIsRenameOpen(true)
+            }}
+          >
+            <Pencil />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={() => {
+              setFolderValue(folder ?? "")
+              setIsMoveOpen(true)
+            }}
+          >
+            <FolderInput />
+            Move to folder
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={() => {
+              setFile(null)
+              setFileError(null)
+              setIsReplaceOpen(true)
+            }}
+          >
+            <FileUp />
+            Replace file
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem variant="destructive" onSelect={onDelete}>
+            <Trash2 />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Rename dialog */}
+      <Dialog open={isRenameOpen} onOpenChange={setIsRenameOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <form onSubmit={handleRename} className="grid gap-4">
+            <DialogHeader>
+              <DialogTitle>Rename document</DialogTitle>
+              <DialogDescription>The name shown in your documents, chats and exports.</DialogDescription>
+            </DialogHeader>
+            <Input
+              value={renameValue}
+              onChange={(e) => setRenameValue(e.target.value)}
+              maxLength={200}
+              autoFocus
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsRenameOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!renameValue.trim()}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Move to folder dialog - suggests the existing folders */}
+      <Dialog open={isMoveOpen} onOpenChange={setIsMoveOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <form onSubmit={handleMove} className="grid gap-4">
+            <DialogHeader>
+              <DialogTitle>Move to folder</DialogTitle>
+              <DialogDescription>
+                Group the documents of a course, e.g. &ldquo;Biology 101&rdquo;. Leave empty for no folder.
+              </DialogDescription>
+            </DialogHeader>
+            <Input
+              value={folderValue}
+              onChange={(e) => setFolderValue(e.target.value)}
+              list="document-folders"
+              placeholder="Folder name"
+              maxLength={100}
+              autoFocus
+            />
+            <datalist id="document-folders">
+              {folders.map((name) => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsMoveOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">Move</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Replace file dialog - cannot be closed while the new file is uploading */}
+      <Dialog open={isReplaceOpen} onOpenChange={(next) => !isReplacing && setIsReplaceOpen(next)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Replace file</DialogTitle>
+            <DialogDescription>
+              Upload a new version of &ldquo;{name}&rdquo;. Its annotations, chats, quizzes and flashcards stay
+              attached. Annotations stay on the same page numbers, so check them if the pages have changed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2">
+            <Input type="file" accept=".pdf,application/pdf" onChange={handleFileChange} disabled={isReplacing} />
+            {file && (
+              <p className="text-sm text-muted-foreground">
+                Selected: {file.name} ({(file.size / 1024 / 1024).toFixed(2)} MB)
+              </p>
+            )}
+            {fileError && <p className="text-sm text-red-500">{fileError}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsReplaceOpen(false)} disabled={isReplacing}>
+              Cancel
+            </Button>
+            <Button onClick={handleReplace} disabled={!file || isReplacing}>
+              {isReplacing ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileUp className="h-4 w-4" />}
+              {isReplacing ? "Replacing..." : "Replace"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,142 @@
+// This is a client-side component - enables choosing the documents a chat thread draws on
+"use client"
+
+// Import Button UI component for the menu trigger
+import { Button } from "@/components/ui/button"
+// Import DropdownMenu components for the document list
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+// Import icons for the trigger and the folders
+import { ChevronDown, Files, Folder } from "lucide-react"
+// Import the most documents a thread may draw on
+import { MAX_CHAT_DOCUMENTS } from "@/lib/api/schemas"
+
+/**
+ * Props for the DocumentScopePicker component
+ * @property documents - All of the student's documents with their course folders
+ * @property pdfId - The open PDF, always part of the thread
+ * @property value - Documents the thread draws on
+ * @property onChange - Called with the newly picked documents
+ * @property disabled - Prevent changes, e.g. while an answer is streaming
+ */
+interface DocumentScopePickerProps {
+  documents: { id: string; name: string; folder?: string | null }[]
+  pdfId: string
+  value: string[]
+  onChange: (pdfIds: string[]) => void
+  disabled?: boolean
+}
+
+/**
+ * DocumentScopePicker - Picks the documents the tutor answers from, shown in the chat header
+ * Features:
+ * - Add other documents (lecture notes, textbook, past papers) to the open one
+ * - Pick all documents, or all documents of a course folder, at once (up to MAX_CHAT_DOCUMENTS)
+ * - The menu stays open while documents are ticked
+ *
+ * @param props - The documents, the picked ones and the change handler
+ * @returns JSX element with the document menu
+ */
+export default function DocumentScopePicker({ documents, pdfId, value, onChange, disabled }: DocumentScopePickerProps) {
+  // Picked documents that still exist, the open one first
+  const picked = [pdfId, ...value.filter((id) => id !== pdfId && documents.some((d) => d.id === id))]
+  const isFull = picked.length >= MAX_CHAT_DOCUMENTS
+  // Every document, or as many as a thread may draw on
+  const all = [pdfId, ...documents.map((d) => d.id).filter((id) => id !== pdfId)].slice(0, MAX_CHAT_DOCUMENTS)
+  const allPicked = all.every((id) => picked.includes(id))
+  // Course folders with their documents, by name
+  const folders = [...new Set(documents.flatMap((d) => (d.folder ? [d.folder] : [])))]
+    .sort((a, b) => a.localeCompare(b))
+    .map((name) => ({ name, ids: documents.filter((d) => d.folder === name).map((d) => d.id) }))
+
+  /**
+   * Add a document to the thread or take it out again
+   * @param id - The document
+   * @param checked - Whether it is now ticked
+   */
+  const toggle = (id: string, checked: boolean) => {
+    onChange(checked ? [...picked, id] : picked.filter((p) => p !== id))
+  }
+
+  /**
+   * Add every document of a folder to the thread, or take them out again
+   * The open document always stays
+   * @param ids - The documents of the folder
+   * @param checked - Whether the folder is now ticked
+   */
+  const toggleFolder = (ids: string[], checked: boolean) => {
+    onChange(
+      checked
+        ? [...new Set([...picked, ...ids])].slice(0, MAX_CHAT_DOCUMENTS)
+        : picked.filter((p) => p === pdfId || !ids.includes(p)),
+    )
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" disabled={disabled}>
+          <Files className="h-3 w-3" />
+          <span className="truncate">{picked.length > 1 ? `${picked.length} documents` : "This document"}</span>
+          <ChevronDown className="h-3 w-3" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel className="text-xs text-muted-foreground">Answer from</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={allPicked}
+          onCheckedChange={(checked) => onChange(checked ? all : [pdfId])}
+          onSelect={(e) => e.preventDefault()}
+          disabled={documents.length < 2}
+        >
+          <div className="flex flex-col">
+            <span>All documents</span>
+            {documents.length > MAX_CHAT_DOCUMENTS && (
+              <span className="text-xs text-muted-foreground">The first {MAX_CHAT_DOCUMENTS} of them</span>
+            )}
+          </div>
+        </DropdownMenuCheckboxItem>
+        {folders.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            {folders.map((folder) => (
+              <DropdownMenuCheckboxItem
+                key={folder.name}
+                checked={folder.ids.every((id) => picked.includes(id))}
+                onCheckedChange={(checked) => toggleFolder(folder.ids, checked)}
+                onSelect={(e) => e.preventDefault()}
+                disabled={isFull && !folder.ids.every((id) => picked.includes(id))}
+              >
+                <Folder className="h-3 w-3" />
+                <span className="truncate">{folder.name}</span>
+                <span className="ml-auto text-xs text-muted-foreground">{folder.ids.length}</span>
+              </DropdownMenuCheckboxItem>
+            ))}
+          </>
+        )}
+        <DropdownMenuSeparator />
+        <div className="max-h-64 overflow-y-auto">
+          {documents.map((document) => (
+            <DropdownMenuCheckboxItem
+              key={document.id}
+              checked={picked.includes(document.id)}
+              onCheckedChange={(checked) => toggle(document.id, checked)}
+              onSelect={(e) => e.preventDefault()}
+              disabled={document.id === pdfId || (isFull && !picked.includes(document.id))}
+            >
+              <span className="truncate">{document.name}</span>
+              {document.id === pdfId && <span className="ml-auto text-xs text-muted-foreground">open</span>}
+            </DropdownMenuCheckboxItem>
+          ))}
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
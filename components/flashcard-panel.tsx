@@ -0,0 +1,414 @@
+// This is a client-side component - enables flashcard generation and review
+"use client"
+
+// Import React type for form event handling
+import type React from "react"
+// Import React hooks for state and side effects
+import { useEffect, useState } from "react"
+// Import Button UI component
+import { Button } from "@/components/ui/button"
+// Import Input component for page numbers and the card count
+import { Input } from "@/components/ui/input"
+// Import Label component for form fields
+import { Label } from "@/components/ui/label"
+// Import icons for the deck and review states
+import { BookOpen, Layers, Loader2, Trash2 } from "lucide-react"
+// Import Supabase client for loading and deleting cards
+import { createClient } from "@/lib/supabase/client"
+// Import toast notification system for user feedback
+import { toast } from "sonner"
+// Import the typed client of the flashcard endpoints
+import { createFlashcards, reviewFlashcard } from "@/lib/api/client"
+// Import the columns of flashcards returned to the client
+import { FLASHCARD_COLUMNS } from "@/lib/flashcards/persistence"
+// Import the SM-2 interval preview for the grade buttons
+import { formatNextInterval } from "@/lib/flashcards/scheduler"
+// Import shared flashcard types
+import {
+  FLASHCARD_SOURCES,
+  MAX_FLASHCARDS_PER_REQUEST,
+  REVIEW_GRADES,
+  type Flashcard,
+  type FlashcardSource,
+  type ReviewGrade,
+} from "@/lib/api/schemas"
+
+// Labels of the card sources
+const SOURCE_LABELS: Record<FlashcardSource, string> = {
+  document: "Document",
+  pages: "Pages",
+  annotations: "Annotations",
+}
+
+// Labels and styles of the review grades
+const GRADE_BUTTONS: Record<ReviewGrade, { label: string; variant: "destructive" | "outline" | "default" }> = {
+  again: { label: "Again", variant: "destructive" },
+  hard: { label: "Hard", variant: "outline" },
+  good: { label: "Good", variant: "default" },
+  easy: { label: "Easy", variant: "outline" },
+}
+
+/**
+ * Props for the FlashcardPanel component
+ * @property pdfId - The PDF whose deck is shown
+ * @property pageCount - Number of pages of the PDF
+ * @property currentPage - Page shown in the viewer, used as the default range
+ * @property onPageClick - Called to show the source page of a card
+ * @property onDueCountChange - Called after cards were added, reviewed or deleted
+ */
+interface FlashcardPanelProps {
+  pdfId: string
+  pageCount: number
+  currentPage: number
+  onPageClick?: (pageNumber: number) => void
+  onDueCountChange?: () => void
+}
+
+/**
+ * Whether a card is due for review
+ * @param card - The card
+ * @returns True if its due date has passed
+ */
+function isDue(card: Flashcard) {
+  return new Date(card.due_at).getTime() <= Date.now()
+}
+
+/**
+ * FlashcardPanel - The flashcard deck of a PDF with spaced-repetition review
+ * Features:
+ * - Generate cards from the whole document, a page range or the annotations
+ * - Daily review queue scheduled with SM-2
+ * - Again/hard/good/easy grading with a preview of the next interval
+ * - Cards link back to their source page
+ *
+ * @param props - PDF id, page count, current page and change handlers
+ * @returns JSX element with the flashcard panel
+ */
+export default function FlashcardPanel({
+  pdfId,
+  pageCount,
+  currentPage,
+  onPageClick,
+  onDueCountChange,
+}: FlashcardPanelProps) {
+  // State for all cards of the deck, oldest first
+  const [cards, setCards] = useState<Flashcard[]>([])
+  // State for the generation form (page numbers kept as text while typing)
+  const [source, setSource] = useState<FlashcardSource>("document")
+  const [pageStart, setPageStart] = useState(String(currentPage))
+  const [pageEnd, setPageEnd] = useState(String(currentPage))
+  const [cardCount, setCardCount] = useState("10")
+  const [isGenerating, setIsGenerating] = useState(false)
+  // State for the review session; null when not reviewing
+  const [queue, setQueue] = useState<Flashcard[] | null>(null)
+  const [showBack, setShowBack] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  // Initialize Supabase client for database operations
+  const supabase = createClient()
+
+  // Load the deck and start over when another PDF is opened; the current page
+  // only seeds the range at that point
+  useEffect(() => {
+    const loadCards = async () => {
+      const { data, error } = await supabase
+        .from("flashcards")
+        .select(FLASHCARD_COLUMNS)
+        .eq("pdf_id", pdfId)
+        .order("created_at", { ascending: true })
+
+      if (error) {
+        console.error("[v0] Error loading flashcards:", error)
+        return
+      }
+      setCards(data ?? [])
+    }
+
+    setCards([])
+    setQueue(null)
+    setShowBack(false)
+    setPageStart(String(currentPage))
+    setPageEnd(String(currentPage))
+    loadCards()
+  }, [pdfId])
+
+  /**
+   * Generate cards and add them to the deck
+   * @param e - Form submit event
+   */
+  const handleGenerate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsGenerating(true)
+
+    try {
+      const { cards: added } = await createFlashcards({
+        pdfId,
+        source,
+        // The range is required for pages and narrows down annotations
+        pageStart: source === "document" ? undefined : Number(pageStart),
+        pageEnd: source === "document" ? undefined : Number(pageEnd),
+        cardCount: Number(cardCount),
+      })
+      setCards((prev) => [...prev, ...added])
+      if (added.length > 0) {
+        toast.success(`Added ${added.length} card${added.length === 1 ? "" : "s"} to the deck`)
+        onDueCountChange?.()
+      } else {
+        toast.info("No new cards - the deck already covers this")
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to generate flashcards")
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  /**
+   * Start reviewing the cards that are due, most overdue first
+   */
+  const handleStartReview = () => {
+    setQueue(
+      cards.filter(isDue).sort((a, b) => new Date(a.due_at).getTime() - new Date(b.due_at).getTime()),
+    )
+    setShowBack(false)
+  }
+
+  /**
+   * Grade the card being reviewed and move on to the next one
+   * Forgotten cards go to the end of the queue to be seen again this session
+   * @param grade - How well the card was recalled
+   */
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (!queue || queue.length === 0) return
+    const [card, ...rest] = queue
+    setIsSaving(true)
+
+    try {
+      const { card: updated } = await reviewFlashcard(card.id, { grade })
+      setCards((prev) => prev.map((c) => (c.id === updated.id ? updated : c)))
+      setQueue(grade === "again" ? [...rest, updated] : rest)
+      setShowBack(false)
+      onDueCountChange?.()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save review")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  /**
+   * Delete a card from the deck
+   * @param id - The card to delete
+   */
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from("flashcards").delete().eq("id", id)
+    if (error) {
+      console.error("[v0] Error deleting flashcard:", error)
+      toast.error("Failed to delete card")
+      return
+    }
+    setCards((prev) => prev.filter((c) => c.id !== id))
+    onDueCountChange?.()
+  }
+
+  // Card being reviewed, if any
+  const currentCard = queue?.[0]
+  // Number of cards due now
+  const dueCount = cards.filter(isDue).length
+
+  return (
+    // Main flashcard container with flexbox layout
+    <div className="flex h-full flex-col bg-background">
+      {/* Header with the deck size and the review session */}
+      <div className="border-b p-4">
+        <div className="flex items-center gap-2">
+          <h2 className="text-sm font-semibold mr-auto">Flashcards</h2>
+          {queue && (
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setQueue(null)}>
+              End review
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {queue
+            ? `${queue.length} card${queue.length === 1 ? "" : "s"} left in this review`
+            : `${cards.length} card${cards.length === 1 ? "" : "s"} · ${dueCount} due today`}
+        </p>
+      </div>
+
+      {queue ? (
+        // Review session
+        <div className="flex-1 overflow-y-auto p-4">
+          {currentCard ? (
+            <div className="space-y-4">
+              <div className="rounded-lg border p-4 space-y-4">
+                <p className="text-sm font-medium whitespace-pre-wrap">{currentCard.front}</p>
+                {showBack && (
+                  <>
+                    <div className="border-t" />
+                    <p className="text-sm whitespace-pre-wrap">{currentCard.back}</p>
+                    {currentCard.page_number && (
+                      <button
+                        type="button"
+                        onClick={() => onPageClick?.(currentCard.page_number!)}
+                        className="inline-flex items-center gap-1 rounded-full border bg-background px-2 py-0.5 text-xs text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground"
+                      >
+                        <BookOpen className="h-3 w-3" />
+                        p. {currentCard.page_number}
+                      </button>
+                    )}
+                  </>
+                )}
+              </div>
+
+              {showBack ? (
+                // Grade buttons with the interval each one schedules
+                <div className="grid grid-cols-4 gap-2">
+                  {REVIEW_GRADES.map((grade) => (
+                    <Button
+                      key={grade}
+                      variant={GRADE_BUTTONS[grade].variant}
+                      className="h-auto flex-col gap-0 py-2"
+                      onClick={() => handleGrade(grade)}
+                      disabled={isSaving}
+                    >
+                      <span>{GRADE_BUTTONS[grade].label}</span>
+                      <span className="text-xs opacity-70">
+                        {formatNextInterval(
+                          {
+                            easeFactor: currentCard.ease_factor,
+                            intervalDays: currentCard.interval_days,
+                            repetitions: currentCard.repetitions,
+                          },
+                          grade,
+                        )}
+                      </span>
+                    </Button>
+                  ))}
+                </div>
+              ) : (
+                <Button className="w-full" onClick={() => setShowBack(true)}>
+                  Show answer
+                </Button>
+              )}
+            </div>
+          ) : (
+            // Queue finished
+            <div className="flex h-full items-center justify-center">
+              <div className="text-center space-y-2">
+                <p className="text-sm font-medium">All done for now</p>
+                <p className="text-xs text-muted-foreground">Come back when more cards are due</p>
+                <Button variant="outline" size="sm" onClick={() => setQueue(null)}>
+                  Back to deck
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      ) : (
+        // Deck: review button, generation form and card list
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          <Button className="w-full" onClick={handleStartReview} disabled={dueCount === 0}>
+            <Layers className="mr-2 h-4 w-4" />
+            {dueCount > 0 ? `Review ${dueCount} due card${dueCount === 1 ? "" : "s"}` : "Nothing due"}
+          </Button>
+
+          <form onSubmit={handleGenerate} className="space-y-4">
+            {/* Source of the new cards */}
+            <div className="space-y-2">
+              <Label>Generate from</Label>
+              <div className="flex flex-wrap gap-2">
+                {FLASHCARD_SOURCES.map((option) => (
+                  <Button
+                    key={option}
+                    type="button"
+                    size="sm"
+                    variant={source === option ? "default" : "outline"}
+                    onClick={() => setSource(option)}
+                  >
+                    {SOURCE_LABELS[option]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {/* Page range for pages, or to narrow down annotations */}
+            {source !== "document" && (
+              <div className="space-y-2">
+                <Label>Pages</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    max={pageCount}
+                    value={pageStart}
+                    onChange={(e) => setPageStart(e.target.value)}
+                    aria-label="First page"
+                  />
+                  <span className="text-sm text-muted-foreground">to</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={pageCount}
+                    value={pageEnd}
+                    onChange={(e) => setPageEnd(e.target.value)}
+                    aria-label="Last page"
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Number of cards */}
+            <div className="space-y-2">
+              <Label htmlFor="flashcard-count">Cards</Label>
+              <Input
+                id="flashcard-count"
+                type="number"
+                min={1}
+                max={MAX_FLASHCARDS_PER_REQUEST}
+                value={cardCount}
+                onChange={(e) => setCardCount(e.target.value)}
+              />
+            </div>
+
+            <Button type="submit" variant="outline" className="w-full" disabled={isGenerating}>
+              {isGenerating ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Generating...
+                </>
+              ) : (
+                "Generate flashcards"
+              )}
+            </Button>
+          </form>
+
+          {/* Cards of the deck */}
+          {cards.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-xs font-medium text-muted-foreground">Deck</h3>
+              {cards.map((card) => (
+                <div key={card.id} className="group flex items-start gap-2 rounded-md border px-3 py-2 text-sm">
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium">{card.front}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {card.page_number ? `p. ${card.page_number} · ` : ""}
+                      {isDue(card) ? "due" : `next ${new Date(card.due_at).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(card.id)}
+                    className="text-muted-foreground opacity-0 transition-opacity hover:text-destructive group-hover:opacity-100"
+                    title="Delete card"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
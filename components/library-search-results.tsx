@@ -0,0 +1,178 @@
+// This is a client-side component - searches all of the user's documents
+"use client"
+
+// Import React hooks for the results and the debounced search
+import { useEffect, useState } from "react"
+// Import icons for the kinds of matches and the loading state
+import { FileText, Highlighter, Loader2, MessageSquare, SearchX } from "lucide-react"
+// Import the typed API client for the library search
+import { searchLibrary } from "@/lib/api/client"
+// Import the search result types and the markers of matched words
+import {
+  SNIPPET_MATCH_END,
+  SNIPPET_MATCH_START,
+  type LibrarySearchResponse,
+  type LibrarySearchResult,
+} from "@/lib/api/schemas"
+
+// Wait after the last keystroke before searching (in milliseconds)
+const SEARCH_DELAY = 300
+
+// Icon and label of each kind of match
+const RESULT_KIND_DETAILS = {
+  page: { label: "Document text", icon: FileText },
+  annotation: { label: "Annotation", icon: Highlighter },
+  message: { label: "Chat message", icon: MessageSquare },
+} satisfies Record<LibrarySearchResult["kind"], { label: string; icon: typeof FileText }>
+
+/**
+ * Splits a snippet into its plain text and its matched words
+ * @param snippet - Snippet with the matched words between SNIPPET_MATCH_START and SNIPPET_MATCH_END
+ * @returns The parts of the snippet in order, the matched ones flagged
+ */
+function snippetParts(snippet: string): { text: string; match: boolean }[] {
+  return snippet
+    .split(SNIPPET_MATCH_START)
+    .flatMap((part, i) => {
+      if (i === 0) return [{ text: part, match: false }]
+      const [match, rest = ""] = part.split(SNIPPET_MATCH_END)
+      return [
+        { text: match, match: true },
+        { text: rest, match: false },
+      ]
+    })
+    .filter((part) => part.text)
+}
+
+/**
+ * The text of a snippet without the markers of matched words
+ * @param snippet - Snippet from the library search
+ * @returns The plain text, with runs of whitespace collapsed
+ */
+export function snippetText(snippet: string) {
+  return snippetParts(snippet)
+    .map((part) => part.text)
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+/**
+ * Props for the LibrarySearchResults component
+ * @property query - The search text, at least MIN_SEARCH_QUERY_LENGTH characters
+ * @property onOpen - Open the document of a match at its page
+ */
+interface LibrarySearchResultsProps {
+  query: string
+  onOpen: (pdfId: string, result: LibrarySearchResult) => void
+}
+
+/**
+ * LibrarySearchResults - Matches of a search across all documents in the sidebar
+ * Features:
+ * - Searches document text, annotations and chat messages as the query is typed
+ * - Matches grouped by document, the best matching document first
+ * - Snippets with the matched words highlighted
+ * - Opens the document of a match at its page when clicked
+ *
+ * @param props - The search text and the open callback
+ * @returns JSX element with the grouped matches
+ */
+export default function LibrarySearchResults({ query, onOpen }: LibrarySearchResultsProps) {
+  // State for the matches of the last finished search, null while searching
+  const [response, setResponse] = useState<LibrarySearchResponse | null>(null)
+  // State for the error of the last search, if it failed
+  const [error, setError] = useState<string | null>(null)
+
+  // Search once typing pauses; results of an older query are dropped
+  useEffect(() => {
+    let cancelled = false
+    setResponse(null)
+    setError(null)
+
+    const timeout = setTimeout(async () => {
+      try {
+        const data = await searchLibrary({ q: query })
+        if (!cancelled) setResponse(data)
+      } catch (err) {
+        console.error("[v0] Library search error:", err)
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to search the library")
+      }
+    }, SEARCH_DELAY)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [query])
+
+  if (error) {
+    return <p className="py-8 text-center text-sm text-destructive">{error}</p>
+  }
+
+  if (!response) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (response.groups.length === 0) {
+    return (
+      <div className="py-8 text-center">
+        <SearchX className="mx-auto mb-2 h-8 w-8 text-muted-foreground" />
+        <p className="text-sm text-muted-foreground">No matches</p>
+        <p className="mt-1 text-xs text-muted-foreground">Try other words or fewer of them</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {response.groups.map(({ pdf, results }) => (
+        <section key={pdf.id}>
+          {/* Document of the matches */}
+          <h3 className="mb-1 flex items-center gap-2 px-1 text-xs font-semibold">
+            <FileText className="h-3.5 w-3.5 flex-shrink-0" />
+            <span className="truncate">{pdf.name}</span>
+            <span className="ml-auto font-normal text-muted-foreground">{results.length}</span>
+          </h3>
+          <ul className="space-y-1">
+            {results.map((result) => {
+              const { label, icon: Icon } = RESULT_KIND_DETAILS[result.kind]
+              return (
+                <li key={`${result.kind}-${result.id}`}>
+                  <button
+                    type="button"
+                    onClick={() => onOpen(pdf.id, result)}
+                    className="w-full rounded-md px-2 py-1.5 text-left text-xs transition-colors hover:bg-muted"
+                  >
+                    {/* Kind and page of the match */}
+                    <span className="mb-0.5 flex items-center gap-1 text-muted-foreground">
+                      <Icon className="h-3 w-3" />
+                      {label}
+                      {result.pageNumber !== null && ` · p. ${result.pageNumber}`}
+                    </span>
+                    {/* Text around the match with the matched words highlighted */}
+                    <span className="line-clamp-3">
+                      {snippetParts(result.snippet).map((part, i) =>
+                        part.match ? (
+                          <mark key={i} className="rounded-sm bg-yellow-300 px-0.5 text-black">
+                            {part.text}
+                          </mark>
+                        ) : (
+                          part.text
+                        ),
+                      )}
+                    </span>
+                  </button>
+                </li>
+              )
+            })}
+          </ul>
+        </section>
+      ))}
+    </div>
+  )
+}
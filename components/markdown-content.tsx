@@ -0,0 +1,152 @@
+// This is a client-side component - renders AI-generated Markdown with copyable code blocks
+"use client"
+
+// Import React type for the element props of the renderers
+import type React from "react"
+// Import React hooks for the copy state and the code block reference
+import { useRef, useState } from "react"
+// Import the Markdown renderer and its plugins:
+// GFM for tables and task lists, math for $...$ formulas rendered with KaTeX,
+// sanitize to drop unsafe HTML and URLs, highlight for code syntax colors
+import ReactMarkdown, { type Components } from "react-markdown"
+import remarkGfm from "remark-gfm"
+import remarkMath from "remark-math"
+import rehypeSanitize from "rehype-sanitize"
+import rehypeKatex from "rehype-katex"
+import rehypeHighlight from "rehype-highlight"
+// Import stylesheets of the rendered formulas and highlighted code
+import "katex/dist/katex.min.css"
+import "highlight.js/styles/github-dark.css"
+// Import icons for the copy button
+import { Check, Copy } from "lucide-react"
+// Import class name helper
+import { cn } from "@/lib/utils"
+
+/**
+ * Rewrites LaTeX \( \) and \[ \] delimiters to the $ and $$ delimiters
+ * understood by remark-math; code spans and blocks are left untouched
+ * @param markdown - Markdown text
+ * @returns Markdown with $-delimited math
+ */
+function normalizeMathDelimiters(markdown: string) {
+  return markdown
+    .split(/(```[\s\S]*?(?:```|$)|`[^`\n]*`)/g)
+    .map((part, i) =>
+      // Odd parts are the code spans and blocks matched by the separator
+      i % 2 === 1
+        ? part
+        : part
+            .replace(/\\\[([\s\S]+?)\\\]/g, (_, math: string) => `\n$$\n${math.trim()}\n$$\n`)
+            .replace(/\\\(([\s\S]+?)\\\)/g, (_, math: string) => `$${math.trim()}$`),
+    )
+    .join("")
+}
+
+/**
+ * CodeBlock - Highlighted code block with a copy button
+ *
+ * @param props - Props of the pre element
+ * @returns JSX element with the code block
+ */
+function CodeBlock({ children, className, ...props }: React.ComponentProps<"pre">) {
+  // Reference to the pre element, used to read the code text
+  const preRef = useRef<HTMLPreElement>(null)
+  // State showing the check mark after copying
+  const [copied, setCopied] = useState(false)
+
+  /**
+   * Copy the code to the clipboard
+   */
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(preRef.current?.textContent ?? "")
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <div className="group relative my-2">
+      <pre
+        ref={preRef}
+        className={cn(
+          "overflow-x-auto rounded-md bg-[#0d1117] p-3 text-xs text-[#c9d1d9] [&>code]:bg-transparent [&>code]:p-0 [&>code]:text-[1em]",
+          className,
+        )}
+        {...props}
+      >
+        {children}
+      </pre>
+      <button
+        type="button"
+        onClick={handleCopy}
+        title="Copy code"
+        className="absolute right-2 top-2 rounded border border-white/20 bg-[#0d1117] p-1 text-[#c9d1d9] opacity-0 transition-opacity hover:bg-white/10 group-hover:opacity-100 focus:opacity-100"
+      >
+        {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+      </button>
+    </div>
+  )
+}
+
+// Renderers of the Markdown elements, styled to fit a chat bubble
+const COMPONENTS: Components = {
+  p: ({ node, ...props }) => <p className="my-2 first:mt-0 last:mb-0" {...props} />,
+  h1: ({ node, ...props }) => <h1 className="mb-2 mt-3 text-base font-semibold first:mt-0" {...props} />,
+  h2: ({ node, ...props }) => <h2 className="mb-2 mt-3 text-sm font-semibold first:mt-0" {...props} />,
+  h3: ({ node, ...props }) => <h3 className="mb-1 mt-3 text-sm font-medium first:mt-0" {...props} />,
+  ul: ({ node, ...props }) => <ul className="my-2 list-disc space-y-1 pl-5" {...props} />,
+  ol: ({ node, ...props }) => <ol className="my-2 list-decimal space-y-1 pl-5" {...props} />,
+  a: ({ node, ...props }) => (
+    <a className="underline underline-offset-2" target="_blank" rel="noopener noreferrer" {...props} />
+  ),
+  blockquote: ({ node, ...props }) => (
+    <blockquote className="my-2 border-l-2 pl-3 text-muted-foreground" {...props} />
+  ),
+  code: ({ node, className, ...props }) => (
+    <code className={cn("rounded bg-background/60 px-1 py-0.5 font-mono text-[0.85em]", className)} {...props} />
+  ),
+  pre: ({ node, ...props }) => <CodeBlock {...props} />,
+  table: ({ node, ...props }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="w-full border-collapse text-xs" {...props} />
+    </div>
+  ),
+  th: ({ node, ...props }) => <th className="border px-2 py-1 text-left font-medium" {...props} />,
+  td: ({ node, ...props }) => <td className="border px-2 py-1 align-top" {...props} />,
+  hr: ({ node, ...props }) => <hr className="my-3" {...props} />,
+}
+
+/**
+ * Props for the MarkdownContent component
+ * @property content - Raw Markdown, e.g. a stored assistant message
+ * @property className - Extra classes of the wrapper
+ */
+interface MarkdownContentProps {
+  content: string
+  className?: string
+}
+
+/**
+ * MarkdownContent - Renders Markdown written by the AI tutor
+ * Features:
+ * - Tables, task lists and strikethrough (GitHub Flavored Markdown)
+ * - LaTeX math between $...$, $$...$$, \(...\) or \[...\] rendered with KaTeX
+ * - Syntax-highlighted code blocks with a copy button
+ * - Raw HTML and unsafe URLs are removed
+ *
+ * @param props - The Markdown and optional classes
+ * @returns JSX element with the rendered content
+ */
+export default function MarkdownContent({ content, className }: MarkdownContentProps) {
+  return (
+    <div className={cn("text-sm break-words", className)}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        // Sanitize first so the trusted KaTeX and highlight output is kept
+        rehypePlugins={[rehypeSanitize, rehypeKatex, rehypeHighlight]}
+        components={COMPONENTS}
+      >
+        {normalizeMathDelimiters(content)}
+      </ReactMarkdown>
+    </div>
+  )
+}
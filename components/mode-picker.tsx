@@ -0,0 +1,71 @@
+// This is a client-side component - enables choosing the AI tutor's teaching style
+"use client"
+
+// Import Button UI component for the menu trigger
+import { Button } from "@/components/ui/button"
+// Import DropdownMenu components for the mode list
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+// Import icons for the trigger
+import { ChevronDown, GraduationCap } from "lucide-react"
+// Import the tutoring modes
+import { TUTOR_MODES, type TutorMode } from "@/lib/api/schemas"
+
+// Name and short description of each tutoring mode
+const MODE_DETAILS: Record<TutorMode, { label: string; description: string }> = {
+  "explain-simply": { label: "Explain simply", description: "Plain language with examples" },
+  socratic: { label: "Socratic", description: "Guiding questions, no direct answers" },
+  "exam-prep": { label: "Exam prep", description: "Drills you with exam-style questions" },
+  "step-by-step": { label: "Step by step", description: "Worked solutions in numbered steps" },
+  "document-only": { label: "Document only", description: "Nothing beyond what the PDF says" },
+}
+
+/**
+ * Props for the ModePicker component
+ * @property value - Tutoring mode of the open thread
+ * @property onChange - Called with the newly selected mode
+ * @property disabled - Prevent changes, e.g. while an answer is streaming
+ */
+interface ModePickerProps {
+  value: TutorMode
+  onChange: (mode: TutorMode) => void
+  disabled?: boolean
+}
+
+/**
+ * ModePicker - Tutoring mode selector shown in the chat header
+ *
+ * @param props - The selected mode and the change handler
+ * @returns JSX element with the mode menu
+ */
+export default function ModePicker({ value, onChange, disabled }: ModePickerProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" disabled={disabled}>
+          <GraduationCap className="h-3 w-3" />
+          <span className="truncate">{MODE_DETAILS[value].label}</span>
+          <ChevronDown className="h-3 w-3" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel className="text-xs text-muted-foreground">Tutoring mode</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {TUTOR_MODES.map((mode) => (
+          <DropdownMenuCheckboxItem key={mode} checked={mode === value} onCheckedChange={() => onChange(mode)}>
+            <div className="flex flex-col">
+              <span>{MODE_DETAILS[mode].label}</span>
+              <span className="text-xs text-muted-foreground">{MODE_DETAILS[mode].description}</span>
+            </div>
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
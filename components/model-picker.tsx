@@ -0,0 +1,71 @@
+// This is a client-side component - enables choosing the AI tutor's model
+"use client"
+
+// Import Button UI component for the menu trigger
+import { Button } from "@/components/ui/button"
+// Import DropdownMenu components for the model list
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+// Import icons for the trigger
+import { Bot, ChevronDown } from "lucide-react"
+// Import ModelOption type describing the allowed models
+import type { ModelOption } from "@/lib/api/schemas"
+
+/**
+ * Props for the ModelPicker component
+ * @property models - Models allowed by the server
+ * @property value - Registry id of the selected model
+ * @property onChange - Called with the id of the newly selected model
+ * @property disabled - Prevent changes, e.g. while an answer is streaming
+ */
+interface ModelPickerProps {
+  models: ModelOption[]
+  value: string | null
+  onChange: (id: string) => void
+  disabled?: boolean
+}
+
+/**
+ * ModelPicker - Compact model selector shown in the chat header
+ * Only rendered when the server allows more than one model
+ *
+ * @param props - Allowed models, the selected model and the change handler
+ * @returns JSX element with the model menu, or null
+ */
+export default function ModelPicker({ models, value, onChange, disabled }: ModelPickerProps) {
+  if (models.length < 2) return null
+
+  const selected = models.find((m) => m.id === value) ?? models[0]
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 max-w-[10rem] px-2 text-xs" disabled={disabled}>
+          <Bot className="h-3 w-3" />
+          <span className="truncate">{selected.model}</span>
+          <ChevronDown className="h-3 w-3" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel className="text-xs text-muted-foreground">Model</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {models.map((model) => (
+          <DropdownMenuCheckboxItem
+            key={model.id}
+            checked={model.id === selected.id}
+            onCheckedChange={() => onChange(model.id)}
+          >
+            <span className="truncate">{model.model}</span>
+            <span className="ml-auto text-xs text-muted-foreground">{model.provider}</span>
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,155 @@
+// This is a client-side component - enables viewing and editing sticky notes on the PDF
+"use client"
+
+// Import React type for the pin position
+import type React from "react"
+// Import React hooks for the editor state
+import { useEffect, useState } from "react"
+// Import Button UI component for the editor actions
+import { Button } from "@/components/ui/button"
+// Import Textarea for the note text
+import { Textarea } from "@/components/ui/textarea"
+// Import Popover components for the note editor
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+// Import HoverCard components for showing the note on hover
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card"
+// Import MarkdownContent for rendering the note text
+import MarkdownContent from "@/components/markdown-content"
+// Import icons for the pin and the editor actions
+import { Loader2, Pin, Trash2 } from "lucide-react"
+
+/**
+ * Props for the NotePin component
+ * @property content - Text of the note (Markdown), empty for a new note
+ * @property color - Color of the pin
+ * @property style - Position of the pin on the page
+ * @property defaultEditing - Open the editor right away, for a new note
+ * @property onSave - Store the note text; resolves to true once it is saved
+ * @property onCancel - Called when the editor of a new note is closed without saving
+ * @property onDelete - Delete the note; omitted for a new note
+ */
+interface NotePinProps {
+  content: string
+  color: string
+  style: React.CSSProperties
+  defaultEditing?: boolean
+  onSave: (content: string) => Promise<boolean>
+  onCancel?: () => void
+  onDelete?: () => void
+}
+
+/**
+ * NotePin - Sticky note pinned to a spot on a PDF page
+ * Features:
+ * - Shows the note, rendered as Markdown, while the pin is hovered
+ * - Clicking the pin opens an editor for the note text
+ * - Ctrl/Cmd+Enter saves, Escape closes the editor
+ *
+ * @param props - Note text, pin color and position and the note actions
+ * @returns JSX element with the pin and its note
+ */
+export default function NotePin({
+  content,
+  color,
+  style,
+  defaultEditing = false,
+  onSave,
+  onCancel,
+  onDelete,
+}: NotePinProps) {
+  // State for the open editor and the text being edited
+  const [isEditing, setIsEditing] = useState(defaultEditing)
+  const [draft, setDraft] = useState(content)
+  // State for the pin being hovered
+  const [isHovering, setIsHovering] = useState(false)
+  // State to track the save in flight
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Start from the stored text whenever the editor opens
+  useEffect(() => {
+    if (isEditing) setDraft(content)
+  }, [isEditing, content])
+
+  /**
+   * Open or close the editor; closing a new note discards it
+   * @param open - Whether the editor is open
+   */
+  const handleOpenChange = (open: boolean) => {
+    setIsEditing(open)
+    if (!open) onCancel?.()
+  }
+
+  /**
+   * Save the note text and close the editor
+   */
+  const handleSave = async () => {
+    if (!draft.trim()) return
+    setIsSaving(true)
+    const saved = await onSave(draft.trim())
+    setIsSaving(false)
+    if (saved) setIsEditing(false)
+  }
+
+  return (
+    <Popover open={isEditing} onOpenChange={handleOpenChange}>
+      {/* The note is previewed on hover unless it is being edited */}
+      <HoverCard openDelay={150} open={isHovering && !isEditing && !!content} onOpenChange={setIsHovering}>
+        <HoverCardTrigger asChild>
+          <PopoverTrigger asChild>
+            <button
+              type="button"
+              className="absolute -translate-x-1/2 -translate-y-full rounded-full border bg-background p-1 shadow transition-transform hover:scale-110"
+              style={{ ...style, pointerEvents: "auto" }}
+              onMouseDown={(e) => e.stopPropagation()}
+              aria-label="Note"
+            >
+              <Pin className="h-3 w-3" style={{ color, fill: color }} />
+            </button>
+          </PopoverTrigger>
+        </HoverCardTrigger>
+        <HoverCardContent className="w-72 max-h-80 overflow-y-auto p-3">
+          <MarkdownContent content={content} />
+          <p className="mt-2 text-xs text-muted-foreground">Click the pin to edit</p>
+        </HoverCardContent>
+      </HoverCard>
+
+      {/* Note editor */}
+      <PopoverContent className="w-80 space-y-2 p-3" onMouseDown={(e) => e.stopPropagation()}>
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault()
+              handleSave()
+            }
+          }}
+          placeholder="Write a note... (Markdown and $math$ supported)"
+          className="max-h-60"
+          autoFocus
+        />
+        <div className="flex items-center gap-2">
+          {onDelete && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="mr-auto text-destructive hover:text-destructive"
+              onClick={onDelete}
+              disabled={isSaving}
+            >
+              <Trash2 className="h-3 w-3" />
+              Delete
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" className="ml-auto" onClick={() => handleOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={isSaving || !draft.trim()}>
+            {isSaving && <Loader2 className="h-3 w-3 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,263 @@
+// This is a client-side component - searches the text of the open PDF
+"use client"
+
+// Import React type for the input ref
+import type React from "react"
+// Import React hooks for the query, the page text and the hits
+import { useDeferredValue, useEffect, useMemo, useState } from "react"
+// Import Button UI component for the options and the hit navigation
+import { Button } from "@/components/ui/button"
+// Import Input component for the search box
+import { Input } from "@/components/ui/input"
+// Import icons for the options, the hit navigation and closing
+import { CaseSensitive, ChevronDown, ChevronUp, List, Loader2, Search, WholeWord, X } from "lucide-react"
+// Import Supabase client for loading the extracted page text
+import { createClient } from "@/lib/supabase/client"
+// Import toast for user feedback notifications
+import { toast } from "sonner"
+// Import the search pattern and hit finder
+import { MAX_SEARCH_HITS, buildSearchPattern, searchPages, type SearchHit } from "@/lib/pdf/search"
+
+/**
+ * The current search of the open PDF
+ * - pattern: pattern of the query and its options, run over the text layer
+ *   of every rendered page to highlight the matches
+ * - hits: the matches in the extracted text of every page
+ * - activeIndex: index of the hit navigated to, -1 before the first jump
+ */
+export interface PdfSearch {
+  pattern: RegExp
+  hits: SearchHit[]
+  activeIndex: number
+}
+
+/**
+ * Props for the PdfSearchBar component
+ * @property pdfId - The open PDF
+ * @property inputRef - The search box, focused by the viewer's Ctrl+F
+ * @property onSearchChange - Called with the current search, or null while the query is empty
+ * @property onJump - Show a hit in the viewer
+ * @property onClose - Close the search bar
+ */
+interface PdfSearchBarProps {
+  pdfId: string
+  inputRef: React.RefObject<HTMLInputElement | null>
+  onSearchChange: (search: PdfSearch | null) => void
+  onJump: (hit: SearchHit) => void
+  onClose: () => void
+}
+
+/**
+ * PdfSearchBar - Full-text search of the open PDF below the viewer toolbar
+ * Features:
+ * - Searches the extracted text of every page as the query is typed
+ * - Match case and whole word options
+ * - Next/previous hit (Enter / Shift+Enter), wrapping around the document
+ * - List of hits with their page and the text around them
+ *
+ * @param props - The PDF, the search box ref and the viewer callbacks
+ * @returns JSX element with the search box, the options and the hit list
+ */
+export default function PdfSearchBar({ pdfId, inputRef, onSearchChange, onJump, onClose }: PdfSearchBarProps) {
+  // State for the search text and its options
+  const [query, setQuery] = useState("")
+  const [matchCase, setMatchCase] = useState(false)
+  const [wholeWord, setWholeWord] = useState(false)
+  // State for the extracted text of each page, null while loading
+  const [pages, setPages] = useState<string[] | null>(null)
+  // State for the hit navigated to, -1 before the first jump
+  const [activeIndex, setActiveIndex] = useState(-1)
+  // State for the visibility of the hit list
+  const [showHits, setShowHits] = useState(false)
+  // Supabase client for loading the page text
+  const supabase = createClient()
+
+  // Search the typed text without holding up the typing
+  const deferredQuery = useDeferredValue(query)
+  const pattern = useMemo(
+    () => buildSearchPattern(deferredQuery, { matchCase, wholeWord }),
+    [deferredQuery, matchCase, wholeWord],
+  )
+  const hits = useMemo(() => (pattern && pages ? searchPages(pages, pattern) : []), [pattern, pages])
+
+  // Load the extracted text of every page when the PDF changes
+  useEffect(() => {
+    let cancelled = false
+
+    const loadPages = async () => {
+      const { data, error } = await supabase
+        .from("pdf_pages")
+        .select("page_number, text_content")
+        .eq("pdf_id", pdfId)
+        .order("page_number", { ascending: true })
+      if (cancelled) return
+      if (error) {
+        console.error("[v0] Error loading page text:", error)
+        toast.error("Failed to load the text of the document")
+        setPages([])
+        return
+      }
+      const texts: string[] = []
+      for (const row of data) texts[row.page_number - 1] = row.text_content ?? ""
+      setPages(Array.from(texts, (text) => text ?? ""))
+    }
+
+    setPages(null)
+    loadPages()
+    return () => {
+      cancelled = true
+    }
+  }, [pdfId])
+
+  // Start again from the top when the search changes
+  useEffect(() => {
+    setActiveIndex(-1)
+  }, [hits])
+
+  // Report the search to the viewer
+  useEffect(() => {
+    onSearchChange(pattern ? { pattern, hits, activeIndex } : null)
+  }, [pattern, hits, activeIndex])
+
+  /**
+   * Show a hit
+   * @param index - Index of the hit
+   */
+  const goToHit = (index: number) => {
+    if (!hits[index]) return
+    setActiveIndex(index)
+    onJump(hits[index])
+  }
+
+  /**
+   * Show the next hit, or the first one after the last
+   */
+  const goToNext = () => goToHit((activeIndex + 1) % hits.length)
+
+  /**
+   * Show the previous hit, or the last one before the first
+   */
+  const goToPrevious = () => goToHit(activeIndex <= 0 ? hits.length - 1 : activeIndex - 1)
+
+  /**
+   * Navigate the hits from the keyboard: Enter shows the next hit,
+   * Shift+Enter the previous one and Escape closes the search
+   * @param e - The key event of the search box
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault()
+      if (e.shiftKey) goToPrevious()
+      else goToNext()
+    } else if (e.key === "Escape") {
+      e.preventDefault()
+      onClose()
+    }
+  }
+
+  return (
+    <div className="relative border-b">
+      <div className="flex items-center gap-1 p-2">
+        <div className="relative flex-1">
+          <Search className="pointer-events-none absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            ref={inputRef}
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search in document..."
+            className="h-8 pl-8"
+          />
+        </div>
+        <Button
+          size="icon"
+          variant={matchCase ? "secondary" : "ghost"}
+          onClick={() => setMatchCase((on) => !on)}
+          aria-pressed={matchCase}
+          title="Match case"
+        >
+          <CaseSensitive className="h-4 w-4" />
+        </Button>
+        <Button
+          size="icon"
+          variant={wholeWord ? "secondary" : "ghost"}
+          onClick={() => setWholeWord((on) => !on)}
+          aria-pressed={wholeWord}
+          title="Whole words only"
+        >
+          <WholeWord className="h-4 w-4" />
+        </Button>
+        {/* Number of hits and the one shown */}
+        <span className="w-20 text-center text-xs text-muted-foreground">
+          {pages === null ? (
+            <Loader2 className="mx-auto h-4 w-4 animate-spin" />
+          ) : !pattern ? null : hits.length === 0 ? (
+            "No hits"
+          ) : activeIndex === -1 ? (
+            `${hits.length}${hits.length === MAX_SEARCH_HITS ? "+" : ""} hits`
+          ) : (
+            `${activeIndex + 1} / ${hits.length}${hits.length === MAX_SEARCH_HITS ? "+" : ""}`
+          )}
+        </span>
+        <Button
+          size="icon"
+          variant="ghost"
+          onClick={goToPrevious}
+          disabled={hits.length === 0}
+          title="Previous hit (Shift+Enter)"
+        >
+          <ChevronUp className="h-4 w-4" />
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          onClick={goToNext}
+          disabled={hits.length === 0}
+          title="Next hit (Enter)"
+        >
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+        <Button
+          size="icon"
+          variant={showHits ? "secondary" : "ghost"}
+          onClick={() => setShowHits((open) => !open)}
+          disabled={hits.length === 0}
+          title={showHits ? "Hide hit list" : "Show all hits"}
+        >
+          <List className="h-4 w-4" />
+        </Button>
+        <Button size="icon" variant="ghost" onClick={onClose} title="Close search (Esc)">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {/* Hits with their page and the text around them, over the pages */}
+      {showHits && hits.length > 0 && (
+        <ul className="absolute inset-x-2 top-full z-30 mt-1 max-h-72 overflow-y-auto rounded-md border bg-background p-1 shadow-lg">
+          {hits.map((hit, i) => (
+            <li key={`${hit.pageNumber}-${hit.index}`}>
+              <button
+                type="button"
+                onClick={() => goToHit(i)}
+                className={`flex w-full items-baseline gap-2 rounded-sm px-2 py-1 text-left text-xs hover:bg-muted ${
+                  i === activeIndex ? "bg-muted" : ""
+                }`}
+              >
+                <span className="w-10 shrink-0 font-medium text-muted-foreground">p. {hit.pageNumber}</span>
+                <span className="min-w-0 flex-1 truncate">
+                  {hit.before}
+                  <mark className="rounded-sm bg-yellow-300 px-0.5 text-black">{hit.text}</mark>
+                  {hit.after}
+                </span>
+              </button>
+            </li>
+          ))}
+          {hits.length === MAX_SEARCH_HITS && (
+            <li className="px-2 py-1 text-xs text-muted-foreground">Only the first {MAX_SEARCH_HITS} hits are listed</li>
+          )}
+        </ul>
+      )}
+    </div>
+  )
+}
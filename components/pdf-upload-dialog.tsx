@@ -25,6 +25,11 @@ import { Upload, Loader2 } from "lucide-react"
 import { createClient } from "@/lib/supabase/client"
 // Import toast notification system for user feedback
 import { toast } from "sonner"
+// Import the typed client of the extraction endpoint
+import { extractText } from "@/lib/api/client"
+// Import the storage helpers for uploading the file and cleaning up after a failure
+import { removePdfFile, uploadPdfFile } from "@/lib/pdf/storage"
+import type { PdfFileRecord } from "@/lib/api/schemas"
 
 /**
  * Props for the PdfUploadDialog component
@@ -35,7 +40,7 @@ import { toast } from "sonner"
 interface PdfUploadDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
-  onPdfUploaded: (pdf: any) => void
+  onPdfUploaded: (pdf: PdfFileRecord) => void
 }
 
 /**
@@ -43,7 +48,7 @@ interface PdfUploadDialogProps {
  * Features:
  * - File selection with PDF validation
  * - Upload to Supabase Storage
- * - Extract text content from PDF using PDF.js
+ * - Server-side text extraction with per-page text storage
  * - Store metadata in database
  * - Error handling and user feedback
  * 
@@ -86,7 +91,8 @@ export default function PdfUploadDialog({
 
   /**
    * Handle PDF file upload
-   * Uploads to Supabase Storage, extracts text, and stores metadata
+   * Uploads to Supabase Storage, then lets /api/extract-text extract the
+   * text and store the metadata
    */
   const handleUpload = async () => {
     // Do nothing if no file is selected
@@ -109,64 +115,20 @@ export default function PdfUploadDialog({
       // Ensure user is authenticated
       if (!user) throw new Error("Not authenticated")
 
-      // Upload PDF to Supabase Storage
-      // Generate unique filename using user ID and timestamp
-      const fileExt = file.name.split(".").pop()
-      const fileName = `${user.id}/${Date.now()}.${fileExt}`
-
-      // Upload file to 'pdfs' storage bucket
-      const {
-        error: uploadError,
-      } = await supabase.storage
-        .from("pdfs")
-        .upload(fileName, file, {
-          cacheControl: "3600",
-          upsert: false,
-        })
-
-      // Check for upload errors
-      if (uploadError) throw uploadError
-
-      // Get public URL for the uploaded PDF
-      const {
-        data: {
-          publicUrl,
+      // Upload PDF to the user's folder of the 'pdfs' storage bucket
+      const { url: publicUrl } = await uploadPdfFile(supabase, { userId: user.id, file })
+
+      // Send the PDF to the extraction endpoint, which parses it on the server,
+      // stores the text of every page and creates the pdf_files record
+      const { pdf: pdfRecord } = await extractText({ file, name: file.name, url: publicUrl }).catch(
+        async (extractError) => {
+          // Remove the orphaned storage object so a failed upload leaves nothing behind
+          await removePdfFile(supabase, publicUrl).catch((removeError) =>
+            console.error("[v0] Storage cleanup error:", removeError),
+          )
+          throw extractError
         },
-      } = supabase.storage.from("pdfs").getPublicUrl(fileName)
-
-      // Extract text from PDF using FormData and API endpoint
-      const formData = new FormData()
-      formData.append("file", file)
-
-      // Send PDF to extraction endpoint
-      const extractResponse = await fetch("/api/extract-text", {
-        method: "POST",
-        body: formData,
-      })
-
-      // Check if text extraction was successful
-      if (!extractResponse.ok) {
-        throw new Error("Failed to extract text from PDF")
-      }
-
-      // Parse extracted text and page count
-      const { text, pageCount } = await extractResponse.json()
-
-      // Store PDF metadata in database
-      const { data: pdfRecord, error: dbError } = await supabase
-        .from("pdf_files")
-        .insert({
-          user_id: user.id,
-          name: file.name,
-          url: publicUrl,
-          text_content: text,
-          page_count: pageCount,
-        })
-        .select()
-        .single()
-
-      // Check for database errors
-      if (dbError) throw dbError
+      )
 
       // Show success message
       toast.success("PDF uploaded successfully!")
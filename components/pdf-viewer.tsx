@@ -3,40 +3,209 @@
 
 // Import React type for event annotations
 import type React from "react"
-// Import React hooks for state and lifecycle management
-import { useState, useEffect } from "react"
+// Import React hooks for state, references and lifecycle management
+import { useState, useEffect, useRef } from "react"
+// Import the pdf.js based renderer: a canvas plus a selectable text layer per page
+import { Document, Page, pdfjs } from "react-pdf"
+import type { PDFDocumentProxy } from "pdfjs-dist"
+// Import stylesheets positioning the text and link layers over the canvas
+import "react-pdf/dist/Page/TextLayer.css"
+import "react-pdf/dist/Page/AnnotationLayer.css"
 // Import Button UI component for toolbar actions
 import { Button } from "@/components/ui/button"
-// Import icons for navigation and annotation tools
-import { ChevronLeft, ChevronRight, Highlighter, Underline, Trash2 } from "lucide-react"
+// Import icons for navigation, zoom and annotation tools
+import {
+  ChevronLeft,
+  ChevronRight,
+  Highlighter,
+  Loader2,
+  PanelRight,
+  Redo2,
+  Search,
+  Sparkles,
+  StickyNote,
+  Underline,
+  Trash2,
+  Undo2,
+  ZoomIn,
+  ZoomOut,
+} from "lucide-react"
 // Import Supabase client for persisting annotations
 import { createClient } from "@/lib/supabase/client"
 // Import toast for user feedback notifications
 import { toast } from "sonner"
 // Import Switch for toggling annotation mode
 import { Switch } from "@/components/ui/switch"
+// Import NotePin for sticky notes on the pages
+import NotePin from "@/components/note-pin"
+// Import ColorPalette for picking annotation colors
+import ColorPalette from "@/components/color-palette"
+// Import AnnotationsPanel for the list of all annotations
+import AnnotationsPanel from "@/components/annotations-panel"
+// Import PdfSearchBar for searching the text of the document
+import PdfSearchBar, { type PdfSearch } from "@/components/pdf-search-bar"
+// Import the annotation record and its normalized page coordinates
+import {
+  MAX_SELECTION_LENGTH,
+  annotationSchema,
+  type AnnotationRecord,
+  type ChatSelection,
+  type PageRect,
+} from "@/lib/api/schemas"
+// Import the annotation palette, undo/redo history and resize geometry
+import { DEFAULT_ANNOTATION_COLOR, toPaletteColor } from "@/lib/annotations/palette"
+import {
+  EMPTY_HISTORY,
+  invertChanges,
+  recordChanges,
+  redoChange,
+  undoChange,
+  type AnnotationChange,
+  type AnnotationHistory,
+} from "@/lib/annotations/history"
+import { RESIZE_HANDLES, boundingBox, fitRects, resizeBox, type ResizeHandle } from "@/lib/annotations/geometry"
+// Import the tutor actions offered for selected text and the paragraph finder
+import {
+  SELECTION_ACTIONS,
+  SELECTION_ACTION_DETAILS,
+  findParagraph,
+  type SelectionAction,
+  type TextLine,
+} from "@/lib/chat/selection"
+// Import the search hits and the matcher run over the text layer
+import { buildSearchPattern, findMatches, locatePassage, type SearchHit } from "@/lib/pdf/search"
+
+// pdf.js parses and renders documents in a web worker
+pdfjs.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString()
+
+// Zoom steps, relative to the page fitting the viewer width
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3]
+// Widest a page is shown at 100% zoom (in pixels)
+const MAX_FIT_WIDTH = 1024
+// Pages rendered above and below the visible ones; the others are empty placeholders
+const RENDER_MARGIN = 1
+// Delay before a changed text selection is reported (in milliseconds)
+const SELECTION_DELAY = 150
+
+// Position of each resize handle on the outline of the selected annotation
+const HANDLE_CLASSES: Record<ResizeHandle, string> = {
+  nw: "-left-1.5 -top-1.5 cursor-nwse-resize",
+  ne: "-right-1.5 -top-1.5 cursor-nesw-resize",
+  sw: "-bottom-1.5 -left-1.5 cursor-nesw-resize",
+  se: "-bottom-1.5 -right-1.5 cursor-nwse-resize",
+}
 
 /**
- * A single annotation entity stored and rendered over the PDF
- * - id: unique id in database
- * - type: visual type of annotation (highlight or underline)
- * - color: color applied to the annotation shape
- * - text_content: optional text captured within selection
- * - position: relative coordinates of the annotation box
- * - page_number: which page the annotation belongs to
+ * A rectangle on a page in pixels, while a box is being drawn
  */
-interface Annotation {
-  id: string
-  type: "highlight" | "underline"
-  color: string
-  text_content?: string
-  position: {
-    x: number
-    y: number
-    width: number
-    height: number
-  }
-  page_number: number
+interface Box {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Where a new annotation goes on its page, and the annotated text if any
+ */
+type AnnotationAnchor = Pick<AnnotationRecord, "page_number" | "position"> &
+  Partial<Pick<AnnotationRecord, "text_content" | "text_start" | "text_end">>
+
+/**
+ * Fields of an existing annotation that can be edited
+ */
+type AnnotationEdit = Partial<Pick<AnnotationRecord, "type" | "color" | "position" | "note_content">>
+
+/**
+ * A corner of the selected annotation being dragged
+ * - annotation: the annotation as it was before the drag
+ * - handle: the corner being dragged
+ * - start: pointer position when the drag started (client pixels)
+ * - box: bounding box of the annotation when the drag started
+ * - pageSize: rendered size of the page (in pixels)
+ * - rects: the resized rects, updated while dragging
+ */
+interface ResizeDrag {
+  annotation: AnnotationRecord
+  handle: ResizeHandle
+  start: { x: number; y: number }
+  box: PageRect
+  pageSize: { width: number; height: number }
+  rects: PageRect[]
+}
+
+/**
+ * Positions an element over a rect given in normalized page coordinates
+ * @param rect - The rect
+ * @returns Absolute position as percentages of the page
+ */
+function toPercentStyle(rect: PageRect): React.CSSProperties {
+  return {
+    left: `${rect.x * 100}%`,
+    top: `${rect.y * 100}%`,
+    width: `${rect.width * 100}%`,
+    height: `${rect.height * 100}%`,
+  }
+}
+
+/**
+ * Positions a note pin at the top-right corner of a rect
+ * @param rect - First rect of the note
+ * @returns Absolute position as percentages of the page
+ */
+function toPinStyle(rect: PageRect): React.CSSProperties {
+  return {
+    left: `${(rect.x + rect.width) * 100}%`,
+    top: `${rect.y * 100}%`,
+  }
+}
+
+/**
+ * A quoted region to flash on a page, e.g. the source of a chat citation
+ * - id: changes for every request so the same quote can be flashed again
+ * - pageNumber: page containing the quote
+ * - text: the quoted text
+ * - rects: boxes of the quoted lines in normalized page coordinates; found in
+ *   the text layer of the page if not given
+ */
+export interface PdfFlash {
+  id: number
+  pageNumber: number
+  text: string
+  rects?: PageRect[]
+}
+
+/**
+ * The part of the document on screen
+ * - pageNumber: current page, the page at the top of the viewer
+ * - firstVisiblePage / lastVisiblePage: range of pages at least partly visible
+ * - zoom: zoom factor, 1 when pages fit the viewer width
+ * - pageWidth: rendered width of a page (in pixels)
+ */
+export interface PdfViewport {
+  pageNumber: number
+  firstVisiblePage: number
+  lastVisiblePage: number
+  zoom: number
+  pageWidth: number
+}
+
+/**
+ * Text selected in the PDF's text layer
+ * - text: the selected text with whitespace collapsed
+ * - pageNumber: page where the selection starts
+ * - rects: boxes of the selected lines on that page, in normalized page coordinates
+ * - textStart / textEnd: character offsets of the selection in the page's
+ *   text layer (the concatenated pdf.js text items)
+ * - textLayerLength: characters in the page's text layer
+ */
+export interface PdfTextSelection {
+  text: string
+  pageNumber: number
+  rects: PageRect[]
+  textStart: number
+  textEnd: number
+  textLayerLength: number
 }
 
 /**
@@ -44,73 +213,611 @@ interface Annotation {
  * - pdfUrl: public URL of the PDF to display
  * - pdfName: display name of the PDF
  * - pdfId: database identifier for the PDF (used to fetch/store annotations)
- * - pageCount: total number of pages (for navigation bounds)
+ * - pageCount: total number of pages (for navigation bounds until the PDF is loaded)
+ * - currentPage: visible page (1-based), owned by the dashboard
+ * - onPageChange: called when the viewer navigates or is scrolled to another page
+ * - onViewportChange: called when the visible pages or the zoom change
+ * - onSelectionChange: called with the selected text, or null when it is cleared
+ * - onAskTutor: called when the tutor is asked about the selected text; the
+ *   selection menu offers the tutor actions only if it is set
+ * - flash: quoted region to flash briefly once its page is shown
  */
 interface PdfViewerProps {
   pdfUrl: string
   pdfName: string
   pdfId: string
   pageCount: number
+  currentPage: number
+  onPageChange: (page: number) => void
+  onViewportChange?: (viewport: PdfViewport) => void
+  onSelectionChange?: (selection: PdfTextSelection | null) => void
+  onAskTutor?: (selection: ChatSelection, action: SelectionAction) => void
+  flash?: PdfFlash | null
 }
 
 /**
- * PdfViewer - Renders a PDF with page navigation and basic annotation tools
+ * PdfViewer - Renders a PDF with pdf.js in continuous scroll mode
  * Features:
- * - Next/Prev page navigation with bounds checks
- * - Toggle Annotation Mode to create selection boxes
- * - Create highlight/underline annotations from box selections
- * - Persist annotations to Supabase and reload per page
- * - Delete annotations
+ * - Canvas rendering with a selectable text layer per page
+ * - Continuous scrolling; only the pages near the visible ones are rendered
+ * - Next/Prev page navigation and zoom (page state lives in the dashboard)
+ * - Reports the visible pages and the selected text to the dashboard
+ * - Flash a quoted region when a chat citation is opened
+ * - Search the text of the document (Ctrl+F) with match case and whole word
+ *   options; matches are highlighted on the pages and stepped through
+ * - Ask the tutor about selected text (Ask AI, Explain, Define, Simplify),
+ *   sent with the paragraph around it
+ * - Toggle Annotation Mode to draw boxes, e.g. around figures
+ * - Create highlight/underline annotations from selected text or drawn boxes,
+ *   stored in normalized page coordinates so they fit any zoom or screen
+ * - Pin sticky notes to text or boxes; notes show on hover and are edited in place
+ * - Five-color palette; the picked color is remembered per user
+ * - Click an annotation to recolor it, switch highlight/underline, resize it
+ *   by its corners or delete it
+ * - Undo/redo (Ctrl+Z / Ctrl+Shift+Z) of creating, editing and deleting
+ * - Collapsible panel listing all annotations, with filters, jump-to, bulk
+ *   delete and exports
+ * - Persist annotations to Supabase and reload per PDF
  */
 export default function PdfViewer({
   pdfUrl,
   pdfName,
   pdfId,
   pageCount,
+  currentPage,
+  onPageChange,
+  onViewportChange,
+  onSelectionChange,
+  onAskTutor,
+  flash,
 }: PdfViewerProps) {
-  // Current visible page index (1-based)
-  const [currentPage, setCurrentPage] = useState(1)
-  // All annotations for the current page
-  const [annotations, setAnnotations] = useState<Annotation[]>([])
+  // Height / width of every page, known once the PDF is loaded
+  const [pageRatios, setPageRatios] = useState<number[]>([])
+  // Width available to the pages (in pixels)
+  const [containerWidth, setContainerWidth] = useState(0)
+  // Index into ZOOM_LEVELS
+  const [zoomIndex, setZoomIndex] = useState(ZOOM_LEVELS.indexOf(1))
+  // Range of pages at least partly visible
+  const [visibleRange, setVisibleRange] = useState({ first: 1, last: 1 })
+  // Quote currently flashing over the page, if any
+  const [activeFlash, setActiveFlash] = useState<PdfFlash | null>(null)
+  // All annotations of the PDF
+  const [annotations, setAnnotations] = useState<AnnotationRecord[]>([])
+  // Text selected in the text layer, offered for highlighting
+  const [textSelection, setTextSelection] = useState<PdfTextSelection | null>(null)
+  // New note whose text is being written, not stored yet
+  const [draftNote, setDraftNote] = useState<AnnotationAnchor | null>(null)
   // Context menu visibility for creating annotation at a selection
   const [showMenu, setShowMenu] = useState(false)
-  // Position of the annotation creation menu
-  const [menuPosition, setMenuPosition] = useState({ x: 0, y: 0 })
   // Whether user is currently dragging to select a region
   const [isSelecting, setIsSelecting] = useState(false)
-  // Drag start point (relative to PDF viewport)
+  // Page the selection is drawn on
+  const [selectionPage, setSelectionPage] = useState(1)
+  // Drag start point (relative to the page)
   const [selectionStart, setSelectionStart] = useState({ x: 0, y: 0 })
-  // Drag end point (relative to PDF viewport)
-  const [selectionEnd, setSelectionEnd] = useState({ x: 0, y: 0 })
   // Computed selection rectangle (x,y,width,height) or null if none
-  const [selectionBox, setSelectionBox] = useState<{ x: number; y: number; width: number; height: number } | null>(null)
+  const [selectionBox, setSelectionBox] = useState<Box | null>(null)
   // Global toggle for enabling annotation interactions
   const [annotationMode, setAnnotationMode] = useState(false)
+  // Color of new annotations, the user's saved palette color
+  const [annotationColor, setAnnotationColor] = useState(DEFAULT_ANNOTATION_COLOR)
+  // Annotation clicked for editing
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  // Rects of the selected annotation while it is being resized
+  const [resizePreview, setResizePreview] = useState<{ id: string; rects: PageRect[] } | null>(null)
+  // Annotation changes that can be undone and redone
+  const [history, setHistory] = useState<AnnotationHistory>(EMPTY_HISTORY)
+  // Whether the annotations panel is open
+  const [showPanel, setShowPanel] = useState(false)
+  // Whether the search bar is open, and the current search
+  const [showSearch, setShowSearch] = useState(false)
+  const [search, setSearch] = useState<PdfSearch | null>(null)
+  // Rects of every search match per page, in normalized page coordinates
+  const [searchMarks, setSearchMarks] = useState<Record<number, PageRect[][]>>({})
+
+  // Scrolling container holding the pages
+  const containerRef = useRef<HTMLDivElement>(null)
+  // Wrapper element of every page, index 0 is page 1
+  const pageRefs = useRef<(HTMLDivElement | null)[]>([])
+  // Page last reported by scrolling, so reporting it does not scroll back to it
+  const reportedPageRef = useRef(currentPage)
+  // Latest callbacks, read by the listeners registered once
+  const callbacksRef = useRef({ onPageChange, onViewportChange, onSelectionChange })
+  callbacksRef.current = { onPageChange, onViewportChange, onSelectionChange }
+  // Signed-in user, owner of new annotations
+  const userIdRef = useRef<string | null>(null)
+  // Whether an undo or redo is being applied, so key repeats do not overlap
+  const isApplyingRef = useRef(false)
+  // Latest search, read when a text layer finishes rendering
+  const searchRef = useRef(search)
+  searchRef.current = search
+  // Quote flashing over the page, read when a text layer finishes rendering
+  const activeFlashRef = useRef(activeFlash)
+  activeFlashRef.current = activeFlash
+  // Search hit to scroll to once its page has rendered its text layer
+  const pendingHitRef = useRef<SearchHit | null>(null)
+  // The search box, focused by Ctrl+F
+  const searchInputRef = useRef<HTMLInputElement>(null)
 
   // Supabase client for DB operations
   const supabase = createClient()
 
-  // Load annotations when page or pdf changes
+  // Number of pages, from the loaded PDF once available
+  const numPages = pageRatios.length || pageCount
+  const zoom = ZOOM_LEVELS[zoomIndex]
+  const pageWidth = Math.round(Math.min(Math.max(containerWidth - 32, 0), MAX_FIT_WIDTH) * zoom)
+
+  // Load annotations and start at the top when the PDF changes
   useEffect(() => {
+    setPageRatios([])
+    setDraftNote(null)
+    setSelectionBox(null)
+    setShowMenu(false)
+    setSelectedId(null)
+    setHistory(EMPTY_HISTORY)
+    setSearchMarks({})
+    pendingHitRef.current = null
+    reportedPageRef.current = 1
+    containerRef.current?.scrollTo({ top: 0 })
     loadAnnotations()
-  }, [currentPage, pdfId])
+  }, [pdfId])
+
+  // Load the user's annotation color
+  useEffect(() => {
+    loadAnnotationColor()
+  }, [])
+
+  // Track the width available to the pages
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(([entry]) => setContainerWidth(entry.contentRect.width))
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  // Scroll to the current page when it is changed from outside the viewer
+  // (page buttons, citations, quiz and flashcard page links)
+  useEffect(() => {
+    if (currentPage === reportedPageRef.current) return
+    reportedPageRef.current = currentPage
+    scrollToPage(currentPage)
+  }, [currentPage, pageRatios])
+
+  // Keep the current page in view when the zoom or the viewer width changes
+  useEffect(() => {
+    scrollToPage(reportedPageRef.current)
+  }, [pageWidth])
+
+  // Report the viewport whenever it changes
+  useEffect(() => {
+    callbacksRef.current.onViewportChange?.({
+      pageNumber: currentPage,
+      firstVisiblePage: visibleRange.first,
+      lastVisiblePage: visibleRange.last,
+      zoom,
+      pageWidth,
+    })
+  }, [currentPage, visibleRange, zoom, pageWidth])
+
+  // Report the text selected in the text layer
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout>
+    let lastKey = ""
+
+    const handleSelectionChange = () => {
+      clearTimeout(timeout)
+      timeout = setTimeout(() => {
+        const selection = readSelection()
+        const key = selection ? `${selection.pageNumber}:${selection.textStart}:${selection.text}` : ""
+        if (key === lastKey) return
+        lastKey = key
+        setTextSelection(selection)
+        callbacksRef.current.onSelectionChange?.(selection)
+      }, SELECTION_DELAY)
+    }
+
+    document.addEventListener("selectionchange", handleSelectionChange)
+    return () => {
+      clearTimeout(timeout)
+      document.removeEventListener("selectionchange", handleSelectionChange)
+    }
+  }, [])
+
+  // Flash a requested quote for a few seconds; without its rects it is looked
+  // up in the text layer of its page, now or once that has rendered
+  useEffect(() => {
+    if (!flash) return
+    setActiveFlash(flash.rects?.length ? flash : { ...flash, rects: readFlashRects(flash) ?? undefined })
+    const timeout = setTimeout(() => setActiveFlash(null), 4000)
+    return () => clearTimeout(timeout)
+  }, [flash])
+
+  // Keyboard shortcuts: Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes,
+  // Ctrl/Cmd+F searches the document and Escape unselects the selected
+  // annotation; typing in a field is left alone
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof Element && e.target.closest("input, textarea, [contenteditable='true']")) return
+      if (e.key === "Escape") {
+        setSelectedId(null)
+        return
+      }
+      if (!(e.ctrlKey || e.metaKey)) return
+      const key = e.key.toLowerCase()
+      if (key === "f") {
+        e.preventDefault()
+        setShowSearch(true)
+        searchInputRef.current?.focus()
+        searchInputRef.current?.select()
+      } else if (key === "z" && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault()
+        redo()
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [history, visibleRange])
+
+  // Highlight the matches of a new search on the pages already rendered;
+  // other pages are marked once their text layer renders
+  useEffect(() => {
+    const marks: Record<number, PageRect[][]> = {}
+    if (search) {
+      pageRefs.current.forEach((_, i) => {
+        const rects = readSearchMarks(i + 1)
+        if (rects) marks[i + 1] = rects
+      })
+    }
+    setSearchMarks(marks)
+  }, [search?.pattern])
+
+  // Scroll to a search hit whose page has just been marked
+  useEffect(() => {
+    const hit = pendingHitRef.current
+    if (!hit || !searchMarks[hit.pageNumber]) return
+    pendingHitRef.current = null
+    const rects = searchMarks[hit.pageNumber][hit.index]
+    if (rects?.length) scrollToRects(hit.pageNumber, rects)
+  }, [searchMarks])
 
   /**
-   * Fetch annotations for the current page from the database
+   * Fetch the annotations of the PDF from the database
+   * Rows that do not match the annotation schema are skipped
    */
   const loadAnnotations = async () => {
     const { data, error } = await supabase
       .from("annotations")
       .select("*")
       .eq("pdf_id", pdfId)
-      .eq("page_number", currentPage)
 
     if (error) {
       console.error("Error loading annotations:", error)
       return
     }
 
-    setAnnotations(data || [])
+    setAnnotations(
+      (data || []).flatMap((row) => {
+        const parsed = annotationSchema.safeParse(row)
+        return parsed.success ? [parsed.data] : []
+      }),
+    )
+  }
+
+  /**
+   * The signed-in user, fetched once
+   * @returns The user's id, or null if not signed in
+   */
+  const getUserId = async () => {
+    if (!userIdRef.current) {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser()
+      userIdRef.current = user?.id ?? null
+    }
+    return userIdRef.current
+  }
+
+  /**
+   * Fetch the annotation color saved in the user's profile
+   */
+  const loadAnnotationColor = async () => {
+    const userId = await getUserId()
+    if (!userId) return
+
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("annotation_color")
+      .eq("id", userId)
+      .single()
+
+    if (error) {
+      console.error("[v0] Error loading annotation color:", error)
+      return
+    }
+
+    setAnnotationColor(toPaletteColor(data?.annotation_color))
+  }
+
+  /**
+   * Use a palette color for new annotations and remember it for the user
+   * @param color - The picked color
+   */
+  const changeAnnotationColor = async (color: string) => {
+    setAnnotationColor(color)
+    const userId = await getUserId()
+    if (!userId) return
+
+    const { error } = await supabase.from("profiles").update({ annotation_color: color }).eq("id", userId)
+    if (error) console.error("[v0] Error saving annotation color:", error)
+  }
+
+  /**
+   * Read the page sizes of a loaded PDF so every page gets its final size
+   * before it is rendered
+   * @param pdf - The loaded document
+   */
+  const handleLoadSuccess = async (pdf: PDFDocumentProxy) => {
+    const pages = await Promise.all(
+      Array.from({ length: pdf.numPages }, (_, i) => pdf.getPage(i + 1)),
+    )
+    setPageRatios(
+      pages.map((page) => {
+        const { width, height } = page.getViewport({ scale: 1 })
+        return height / width
+      }),
+    )
+  }
+
+  /**
+   * Scroll a page to the top of the viewer
+   * @param page - The page to show
+   */
+  const scrollToPage = (page: number) => {
+    const container = containerRef.current
+    const element = pageRefs.current[page - 1]
+    if (!container || !element) return
+    container.scrollTo({ top: element.offsetTop - 16 })
+  }
+
+  /**
+   * Work out the visible pages and the current page after scrolling
+   * The current page is the one crossing a line a quarter down the viewer,
+   * or the last visible page once the end of the document is reached
+   */
+  const handleScroll = () => {
+    const container = containerRef.current
+    if (!container) return
+
+    const top = container.scrollTop
+    const bottom = top + container.clientHeight
+    const line = top + container.clientHeight / 4
+    const atEnd = bottom >= container.scrollHeight - 2
+
+    let first = 0
+    let last = 0
+    let current = 0
+    pageRefs.current.slice(0, numPages).forEach((element, i) => {
+      if (!element) return
+      const pageTop = element.offsetTop
+      const pageBottom = pageTop + element.offsetHeight
+      if (pageBottom > top && pageTop < bottom) {
+        if (!first) first = i + 1
+        last = i + 1
+      }
+      if (!current && pageBottom >= line) current = i + 1
+    })
+    if (!first) return
+
+    setVisibleRange((prev) => (prev.first === first && prev.last === last ? prev : { first, last }))
+
+    const page = atEnd ? last : current || last
+    if (page !== reportedPageRef.current) {
+      reportedPageRef.current = page
+      callbacksRef.current.onPageChange(page)
+    }
+  }
+
+  // Show the current page once the pages of a newly loaded PDF are laid out,
+  // e.g. a library search result opening another document on a later page
+  useEffect(() => {
+    if (pageRatios.length === 0) return
+    reportedPageRef.current = currentPage
+    scrollToPage(currentPage)
+  }, [pageRatios])
+
+  // Update the visible pages once the page sizes are known
+  useEffect(() => {
+    handleScroll()
+  }, [pageRatios, pageWidth])
+
+  /**
+   * Read the current text selection if it lies within the viewer
+   * @returns The selection, or null if nothing in the PDF is selected
+   */
+  const readSelection = (): PdfTextSelection | null => {
+    const selection = window.getSelection()
+    const container = containerRef.current
+    if (!selection || selection.isCollapsed || selection.rangeCount === 0 || !container) return null
+
+    const range = selection.getRangeAt(0)
+    if (!container.contains(range.commonAncestorContainer)) return null
+
+    const text = selection.toString().replace(/\s+/g, " ").trim()
+    const startNode = range.startContainer
+    const startElement = startNode instanceof Element ? startNode : startNode.parentElement
+    const pageElement = startElement?.closest<HTMLElement>("[data-viewer-page]")
+    const textLayer = pageElement?.querySelector(".textLayer")
+    if (!text || !pageElement || !textLayer?.contains(startNode)) return null
+
+    // Character offsets in the text layer; a selection running onto the next
+    // page ends at the end of the start page
+    const before = document.createRange()
+    before.setStart(textLayer, 0)
+    before.setEnd(range.startContainer, range.startOffset)
+    const textLayerLength = (textLayer.textContent ?? "").length
+    const textStart = before.toString().length
+    const textEnd = textLayer.contains(range.endContainer) ? textStart + range.toString().length : textLayerLength
+
+    // Keep the line boxes on the start page, relative to its size
+    const pageRect = pageElement.getBoundingClientRect()
+    const rects = Array.from(range.getClientRects())
+      .filter((rect) => rect.width > 0 && rect.height > 0)
+      .filter((rect) => rect.top < pageRect.bottom && rect.bottom > pageRect.top)
+      .map((rect) => ({
+        x: (rect.left - pageRect.left) / pageRect.width,
+        y: (rect.top - pageRect.top) / pageRect.height,
+        width: rect.width / pageRect.width,
+        height: rect.height / pageRect.height,
+      }))
+
+    return { text, pageNumber: Number(pageElement.dataset.viewerPage), rects, textStart, textEnd, textLayerLength }
+  }
+
+  /**
+   * Read the paragraph around the selected text from the text layer of its page
+   * @param selection - The selected text
+   * @returns The paragraph, or null if it cannot be read or is the selection itself
+   */
+  const readParagraph = (selection: PdfTextSelection): string | null => {
+    const textLayer = pageRefs.current[selection.pageNumber - 1]?.querySelector(".textLayer")
+    const domSelection = window.getSelection()
+    if (!textLayer || !domSelection || domSelection.rangeCount === 0) return null
+    const range = domSelection.getRangeAt(0)
+
+    // Group the text items into lines by their vertical position
+    const lines: TextLine[] = []
+    textLayer.querySelectorAll("span").forEach((span) => {
+      const text = span.textContent ?? ""
+      if (span.childElementCount > 0 || !text.trim()) return
+      const rect = span.getBoundingClientRect()
+      const middle = (rect.top + rect.bottom) / 2
+      const selected = range.intersectsNode(span)
+      const line = lines[lines.length - 1]
+      if (line && middle > line.top && middle < line.bottom) {
+        line.text += text
+        line.top = Math.min(line.top, rect.top)
+        line.bottom = Math.max(line.bottom, rect.bottom)
+        line.selected ||= selected
+      } else {
+        lines.push({ text, top: rect.top, bottom: rect.bottom, selected })
+      }
+    })
+
+    return findParagraph(lines, selection.text)
+  }
+
+  /**
+   * Ask the tutor about the selected text
+   * @param action - Ask a question of one's own, or one of the preset questions
+   */
+  const askTutor = (action: SelectionAction) => {
+    if (!textSelection || !onAskTutor) return
+    onAskTutor(
+      {
+        pageNumber: textSelection.pageNumber,
+        text: textSelection.text.slice(0, MAX_SELECTION_LENGTH),
+        context: readParagraph(textSelection),
+        rects: textSelection.rects,
+      },
+      action,
+    )
+    clearSelection()
+  }
+
+  /**
+   * Find the matches of a pattern in the text layer of a page
+   * @param page - The page number
+   * @param pattern - A global pattern from buildSearchPattern
+   * @returns The rects of every match in normalized page coordinates, or null
+   * if the text layer is not rendered
+   */
+  const readTextLayerMatches = (page: number, pattern: RegExp): PageRect[][] | null => {
+    const pageElement = pageRefs.current[page - 1]
+    const textLayer = pageElement?.querySelector(".textLayer")
+    if (!pageElement || !textLayer) return null
+
+    // Text nodes of the layer and where each starts in the layer's text
+    const nodes: { node: Text; start: number }[] = []
+    let text = ""
+    const walker = document.createTreeWalker(textLayer, NodeFilter.SHOW_TEXT)
+    while (walker.nextNode()) {
+      const node = walker.currentNode as Text
+      nodes.push({ node, start: text.length })
+      text += node.data
+    }
+
+    /**
+     * Position of a character offset in the text nodes
+     * @param offset - Offset in the layer's text
+     * @param isEnd - Whether the offset ends a range, so it stays in the node before a boundary
+     */
+    const locate = (offset: number, isEnd: boolean) => {
+      let entry = nodes[0]
+      for (const n of nodes) if (isEnd ? n.start < offset : n.start <= offset) entry = n
+      return { node: entry.node, offset: offset - entry.start }
+    }
+
+    const pageRect = pageElement.getBoundingClientRect()
+    return findMatches(text, pattern).map(({ start, end }) => {
+      const from = locate(start, false)
+      const to = locate(end, true)
+      const range = document.createRange()
+      range.setStart(from.node, from.offset)
+      range.setEnd(to.node, to.offset)
+      return Array.from(range.getClientRects())
+        .filter((rect) => rect.width > 0 && rect.height > 0)
+        .map((rect) => ({
+          x: (rect.left - pageRect.left) / pageRect.width,
+          y: (rect.top - pageRect.top) / pageRect.height,
+          width: rect.width / pageRect.width,
+          height: rect.height / pageRect.height,
+        }))
+    })
+  }
+
+  /**
+   * Find the matches of the current search in the text layer of a page
+   * @param page - The page number
+   * @returns The rects of every match, or null if there is no search or the
+   * text layer is not rendered
+   */
+  const readSearchMarks = (page: number) => {
+    const pattern = searchRef.current?.pattern
+    return pattern ? readTextLayerMatches(page, pattern) : null
+  }
+
+  /**
+   * Find a flashed quote in the text layer of its page, the way the search
+   * finds a query; a snippet cut short with an ellipsis is matched without it
+   * @param quote - The flashed quote
+   * @returns The rects of its first match, or null if it is not found or the
+   * text layer is not rendered
+   */
+  const readFlashRects = (quote: PdfFlash) => {
+    const pattern = buildSearchPattern(quote.text.replace(/…$/, ""), { matchCase: false, wholeWord: false })
+    const rects = pattern ? readTextLayerMatches(quote.pageNumber, pattern)?.[0] : null
+    return rects?.length ? rects : null
+  }
+
+  /**
+   * Mark the search matches of a page once its text layer has rendered, and
+   * outline the flashing quote if it is on that page
+   * @param page - The page number
+   */
+  const handleTextLayerRendered = (page: number) => {
+    const rects = readSearchMarks(page)
+    if (rects) setSearchMarks((prev) => ({ ...prev, [page]: rects }))
+
+    const quote = activeFlashRef.current
+    if (quote?.pageNumber === page && !quote.rects?.length) {
+      const quoteRects = readFlashRects(quote)
+      if (quoteRects) setActiveFlash({ ...quote, rects: quoteRects })
+    }
   }
 
   /**
@@ -125,16 +832,17 @@ export default function PdfViewer({
   }
 
   /**
-   * Begin a selection drag when annotation mode is enabled
+   * Begin a selection drag on a page when annotation mode is enabled
    */
-  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+  const handleMouseDown = (page: number, e: React.MouseEvent<HTMLDivElement>) => {
     if (!annotationMode) return
     const rect = (e.currentTarget as HTMLDivElement).getBoundingClientRect()
     const x = e.clientX - rect.left
     const y = e.clientY - rect.top
+    window.getSelection()?.removeAllRanges()
     setIsSelecting(true)
+    setSelectionPage(page)
     setSelectionStart({ x, y })
-    setSelectionEnd({ x, y })
     setSelectionBox(null)
     setShowMenu(false)
   }
@@ -147,184 +855,849 @@ export default function PdfViewer({
     const rect = (e.currentTarget as HTMLDivElement).getBoundingClientRect()
     const x = e.clientX - rect.left
     const y = e.clientY - rect.top
-    const end = { x, y }
-    setSelectionEnd(end)
-    setSelectionBox(computeSelectionBox(selectionStart, end))
+    setSelectionBox(computeSelectionBox(selectionStart, { x, y }))
   }
 
   /**
    * Finish selection and show annotation creation menu
    */
-  const handleMouseUp = (e: React.MouseEvent<HTMLDivElement>) => {
+  const handleMouseUp = () => {
     if (!isSelecting) return
     setIsSelecting(false)
     if (!selectionBox) return
-    const rect = (e.currentTarget as HTMLDivElement).getBoundingClientRect()
-    const x = selectionBox.x + rect.left
-    const y = selectionBox.y + rect.top
-    setMenuPosition({ x, y })
     setShowMenu(true)
   }
 
   /**
-   * Persist a new annotation of given type/color using current selection
+   * Find selected text in the extracted text of its page (pdf_pages), which
+   * annotation offsets refer to
+   * @param selection - The text selected in the text layer
+   * @returns Start and end offset in the page text, or null if the page text
+   * is missing or does not contain the selection
    */
-  const createAnnotation = async (type: Annotation["type"], color: string) => {
-    if (!selectionBox) return
+  const locateInPageText = async (selection: PdfTextSelection) => {
+    const { data, error } = await supabase
+      .from("pdf_pages")
+      .select("text_content")
+      .eq("pdf_id", pdfId)
+      .eq("page_number", selection.pageNumber)
+      .maybeSingle()
+    if (error) {
+      console.error("[v0] Error loading page text:", error)
+      return null
+    }
+    if (!data?.text_content) return null
+    return locatePassage(data.text_content, selection.text, selection.textStart / (selection.textLayerLength || 1))
+  }
+
+  /**
+   * Where a new annotation goes: the selected text if there is one, otherwise
+   * the box drawn in annotation mode, in normalized page coordinates
+   * Selected text is anchored to its offsets in the extracted page text, or
+   * stored without offsets if it cannot be found there
+   * @returns The anchor fields of the annotation, or null if nothing is selected
+   */
+  const getSelectedAnchor = async (): Promise<AnnotationAnchor | null> => {
+    if (textSelection) {
+      const located = await locateInPageText(textSelection)
+      return {
+        page_number: textSelection.pageNumber,
+        position: { rects: textSelection.rects },
+        text_content: textSelection.text,
+        text_start: located?.start ?? null,
+        text_end: located?.end ?? null,
+      }
+    }
+
+    const pageElement = pageRefs.current[selectionPage - 1]
+    if (!selectionBox || !pageElement) return null
+    const { offsetWidth: width, offsetHeight: height } = pageElement
+    return {
+      page_number: selectionPage,
+      position: {
+        rects: [
+          {
+            x: selectionBox.x / width,
+            y: selectionBox.y / height,
+            width: selectionBox.width / width,
+            height: selectionBox.height / height,
+          },
+        ],
+      },
+    }
+  }
 
+  /**
+   * Clear the selected text and the drawn box once they are annotated
+   */
+  const clearSelection = () => {
+    setSelectionBox(null)
+    setShowMenu(false)
+    window.getSelection()?.removeAllRanges()
+  }
+
+  /**
+   * Replace or add annotations in local state with rows returned by the database
+   * @param rows - The stored rows
+   */
+  const storeAnnotations = (rows: unknown[]) => {
+    const saved = rows.map((row) => annotationSchema.parse(row))
+    setAnnotations((prev) => [...prev.filter((a) => !saved.some((s) => s.id === a.id)), ...saved])
+  }
+
+  /**
+   * Apply annotation changes to the database and local state
+   * Deleted and created annotations are written in one request each; created
+   * ones are inserted with their original ids, so changes recorded after them
+   * still find them when they are undone or redone
+   * @param changes - The annotations before and after the changes
+   * @returns Whether all changes were stored
+   */
+  const applyChanges = async (changes: AnnotationChange[]) => {
+    // Deleted annotations
+    const deletedIds = changes.flatMap(({ before, after }) => (before && !after ? [before.id] : []))
+    if (deletedIds.length > 0) {
+      const { error } = await supabase.from("annotations").delete().in("id", deletedIds)
+      if (error) return false
+      setAnnotations((prev) => prev.filter((a) => !deletedIds.includes(a.id)))
+    }
+
+    // Created (or restored) annotations
+    const created = changes.flatMap(({ before, after }) => (!before && after ? [after] : []))
+    if (created.length > 0) {
+      const userId = await getUserId()
+      const { data, error } = await supabase
+        .from("annotations")
+        .insert(created.map((a) => ({ ...a, user_id: userId })))
+        .select()
+      if (error) return false
+      storeAnnotations(data)
+    }
+
+    // Edited annotations
+    for (const { before, after } of changes) {
+      if (!before || !after) continue
+      const { data, error } = await supabase
+        .from("annotations")
+        .update({
+          type: after.type,
+          color: after.color,
+          position: after.position,
+          note_content: after.note_content,
+        })
+        .eq("id", after.id)
+        .select()
+        .single()
+      if (error) return false
+      storeAnnotations([data])
+    }
+
+    return true
+  }
+
+  /**
+   * Apply the changes of a user action and record them for undoing
+   * @param changes - The annotations before and after the changes
+   * @returns Whether the changes were stored
+   */
+  const commitChanges = async (changes: AnnotationChange[]) => {
+    if (!(await applyChanges(changes))) return false
+    setHistory((prev) => recordChanges(prev, changes))
+    return true
+  }
+
+  /**
+   * Persist a new annotation and add it to local state
+   * @param fields - Anchor, type, color and for notes the note text
+   * @returns Whether the annotation was stored
+   */
+  const insertAnnotation = async (
+    fields: AnnotationAnchor & Pick<AnnotationRecord, "type" | "color"> & { note_content?: string },
+  ) => {
     // Insert annotation into DB
     const { data, error } = await supabase
       .from("annotations")
-      .insert({
-        pdf_id: pdfId,
-        page_number: currentPage,
-        type,
-        color,
-        position: selectionBox,
-      })
+      .insert({ pdf_id: pdfId, user_id: await getUserId(), ...fields })
       .select()
       .single()
 
     if (error) {
       toast.error("Failed to create annotation")
-      return
+      return false
     }
 
     // Update local state to include the new annotation
-    setAnnotations((prev) => [...prev, data as Annotation])
-    setSelectionBox(null)
-    setShowMenu(false)
+    const created = annotationSchema.parse(data)
+    setAnnotations((prev) => [...prev, created])
+    setHistory((prev) => recordChanges(prev, [{ before: null, after: created }]))
     toast.success("Annotation added")
+    return true
   }
 
   /**
-   * Remove an annotation from DB and local state
+   * Highlight or underline the selected text or the drawn box in the current color
    */
-  const deleteAnnotation = async (id: string) => {
-    const { error } = await supabase.from("annotations").delete().eq("id", id)
-    if (error) {
-      toast.error("Failed to delete annotation")
+  const createAnnotation = async (type: "highlight" | "underline") => {
+    const anchor = await getSelectedAnchor()
+    if (!anchor) return
+    if (await insertAnnotation({ ...anchor, type, color: annotationColor })) clearSelection()
+  }
+
+  /**
+   * Pin a new note to the selected text or the drawn box and open its editor
+   * The note is stored once its text is saved
+   */
+  const startNote = async () => {
+    const anchor = await getSelectedAnchor()
+    if (!anchor) return
+    setDraftNote(anchor)
+    clearSelection()
+  }
+
+  /**
+   * Store the new note with its text
+   * @param content - The note text
+   * @returns Whether the note was stored
+   */
+  const saveDraftNote = async (content: string) => {
+    if (!draftNote) return false
+    const saved = await insertAnnotation({ ...draftNote, type: "note", color: annotationColor, note_content: content })
+    if (saved) setDraftNote(null)
+    return saved
+  }
+
+  /**
+   * Change an existing annotation; the database bumps its updated_at
+   * @param annotation - The annotation to change
+   * @param edit - The changed fields
+   * @returns Whether the annotation was saved
+   */
+  const editAnnotation = async (annotation: AnnotationRecord, edit: AnnotationEdit) => {
+    const saved = await commitChanges([{ before: annotation, after: { ...annotation, ...edit } }])
+    if (!saved) toast.error("Failed to update annotation")
+    return saved
+  }
+
+  /**
+   * Change the text of a note
+   * @param annotation - The note to change
+   * @param content - The new note text
+   * @returns Whether the note was saved
+   */
+  const updateNote = async (annotation: AnnotationRecord, content: string) => {
+    const saved = await editAnnotation(annotation, { note_content: content })
+    if (saved) toast.success("Note saved")
+    return saved
+  }
+
+  /**
+   * Remove annotations from DB and local state, as one undoable action
+   * @param targets - The annotations to delete
+   * @returns Whether they were deleted
+   */
+  const deleteAnnotations = async (targets: AnnotationRecord[]) => {
+    if (targets.length === 0) return true
+    if (!(await commitChanges(targets.map((a) => ({ before: a, after: null }))))) {
+      toast.error(targets.length === 1 ? "Failed to delete annotation" : "Failed to delete annotations")
+      return false
+    }
+    setSelectedId((id) => (targets.some((a) => a.id === id) ? null : id))
+    toast.success(targets.length === 1 ? "Annotation deleted" : `${targets.length} annotations deleted`)
+    return true
+  }
+
+  /**
+   * Show the annotations added by an import; undoing removes them again
+   * @param imported - The stored annotations
+   */
+  const addImportedAnnotations = (imported: AnnotationRecord[]) => {
+    setAnnotations((prev) => [...prev, ...imported])
+    setHistory((prev) => recordChanges(prev, imported.map((a) => ({ before: null, after: a }))))
+  }
+
+  /**
+   * Scroll to the page of an undone or redone action unless it is visible
+   * @param changes - The changes of the action
+   */
+  const revealChanges = (changes: AnnotationChange[]) => {
+    const page = (changes[0]?.after ?? changes[0]?.before)?.page_number
+    if (page && (page < visibleRange.first || page > visibleRange.last)) onPageChange(page)
+  }
+
+  /**
+   * Revert the latest annotation action
+   */
+  const undo = async () => {
+    const changes = history.past[history.past.length - 1]
+    if (!changes || isApplyingRef.current) return
+    isApplyingRef.current = true
+    const applied = await applyChanges(invertChanges(changes))
+    isApplyingRef.current = false
+    if (!applied) {
+      toast.error("Failed to undo")
+      return
+    }
+    setHistory(undoChange)
+    setSelectedId(null)
+    revealChanges(changes)
+  }
+
+  /**
+   * Apply the latest undone annotation action again
+   */
+  const redo = async () => {
+    const changes = history.future[history.future.length - 1]
+    if (!changes || isApplyingRef.current) return
+    isApplyingRef.current = true
+    const applied = await applyChanges(changes)
+    isApplyingRef.current = false
+    if (!applied) {
+      toast.error("Failed to redo")
+      return
+    }
+    setHistory(redoChange)
+    setSelectedId(null)
+    revealChanges(changes)
+  }
+
+  /**
+   * Scroll an annotation into view, a third down the viewer, and select it
+   * @param annotation - The annotation to show
+   */
+  const jumpToAnnotation = (annotation: AnnotationRecord) => {
+    scrollToRects(annotation.page_number, annotation.position.rects)
+    setSelectedId(annotation.id)
+  }
+
+  /**
+   * Scroll a region of a page a third of the way down the viewer
+   * @param page - The page number
+   * @param rects - The region in normalized page coordinates; the top of the
+   * page is shown if it is empty
+   */
+  const scrollToRects = (page: number, rects: PageRect[]) => {
+    const container = containerRef.current
+    const element = pageRefs.current[page - 1]
+    if (!container || !element) return
+    const offset = rects.length > 0 ? boundingBox(rects).y * element.offsetHeight - container.clientHeight / 3 : -16
+    container.scrollTo({ top: element.offsetTop + offset })
+  }
+
+  /**
+   * Scroll to a search hit
+   * Pages far from the visible ones have no text layer yet, so the viewer
+   * shows the page first and the hit once its matches are marked
+   * @param hit - The hit
+   */
+  const jumpToHit = (hit: SearchHit) => {
+    const marks = searchMarks[hit.pageNumber]
+    const rects = marks?.[hit.index]
+    if (rects?.length) {
+      scrollToRects(hit.pageNumber, rects)
       return
     }
-    setAnnotations((prev) => prev.filter((a) => a.id !== id))
-    toast.success("Annotation deleted")
+    // A marked page without the hit lays its text out differently; show the page
+    pendingHitRef.current = marks ? null : hit
+    scrollToPage(hit.pageNumber)
+  }
+
+  /**
+   * Close the search bar and remove the highlighted matches
+   */
+  const closeSearch = () => {
+    setShowSearch(false)
+    setSearch(null)
+  }
+
+  /**
+   * Start dragging a corner of the selected annotation
+   * The rects are previewed while dragging and saved when the pointer is released
+   * @param annotation - The selected annotation
+   * @param handle - The corner being dragged
+   * @param e - The pointer event
+   */
+  const startResize = (annotation: AnnotationRecord, handle: ResizeHandle, e: React.PointerEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    const pageElement = pageRefs.current[annotation.page_number - 1]
+    if (!pageElement) return
+
+    const drag: ResizeDrag = {
+      annotation,
+      handle,
+      start: { x: e.clientX, y: e.clientY },
+      box: boundingBox(annotation.position.rects),
+      pageSize: { width: pageElement.offsetWidth, height: pageElement.offsetHeight },
+      rects: annotation.position.rects,
+    }
+
+    const handleMove = (event: PointerEvent) => {
+      const box = resizeBox(
+        drag.box,
+        drag.handle,
+        (event.clientX - drag.start.x) / drag.pageSize.width,
+        (event.clientY - drag.start.y) / drag.pageSize.height,
+      )
+      drag.rects = fitRects(drag.annotation.position.rects, drag.box, box)
+      setResizePreview({ id: drag.annotation.id, rects: drag.rects })
+    }
+
+    const handleUp = async () => {
+      window.removeEventListener("pointermove", handleMove)
+      window.removeEventListener("pointerup", handleUp)
+      if (drag.rects !== drag.annotation.position.rects) {
+        await editAnnotation(drag.annotation, { position: { rects: drag.rects } })
+      }
+      setResizePreview(null)
+    }
+
+    window.addEventListener("pointermove", handleMove)
+    window.addEventListener("pointerup", handleUp)
   }
 
   /**
    * Navigate to previous page
    */
-  const prevPage = () => setCurrentPage((p) => Math.max(1, p - 1))
+  const prevPage = () => onPageChange(Math.max(1, currentPage - 1))
 
   /**
    * Navigate to next page
    */
-  const nextPage = () => setCurrentPage((p) => Math.min(pageCount, p + 1))
+  const nextPage = () => onPageChange(Math.min(numPages, currentPage + 1))
+
+  /**
+   * Render the marks of an annotation, one box per rect: a filled box for a
+   * highlight, a line for an underline and a faint box for a note
+   * @param type - Type of the annotation
+   * @param color - Color of the annotation
+   * @param rects - Rects of the annotation
+   * @param onSelect - Called when a mark is clicked; omitted for a new note
+   */
+  const renderMarks = (type: AnnotationRecord["type"], color: string, rects: PageRect[], onSelect?: () => void) =>
+    rects.map((rect, i) => (
+      <div
+        key={i}
+        className={onSelect ? "absolute cursor-pointer" : "pointer-events-none absolute"}
+        style={{
+          ...toPercentStyle(rect),
+          backgroundColor: type === "underline" ? "transparent" : color,
+          borderBottom: type === "underline" ? `2px solid ${color}` : "none",
+          opacity: type === "note" ? 0.15 : 0.35,
+          pointerEvents: onSelect ? "auto" : "none",
+        }}
+        onMouseDown={(e) => e.stopPropagation()}
+        onClick={onSelect}
+      />
+    ))
+
+  /**
+   * Render the annotation menu shown for a text selection or a drawn box;
+   * selected text can also be sent to the tutor
+   * @param forText - Whether the menu belongs to selected text
+   */
+  const renderMenu = (forText = false) => (
+    <div className="rounded-md border bg-background p-1 shadow">
+      <div className="flex items-center gap-1">
+        <ColorPalette value={annotationColor} onChange={changeAnnotationColor} className="px-1" />
+        <div className="mx-1 h-5 w-px bg-border" />
+        <Button size="icon" variant="ghost" onClick={() => createAnnotation("highlight")} title="Highlight">
+          <Highlighter className="h-4 w-4" />
+        </Button>
+        <Button size="icon" variant="ghost" onClick={() => createAnnotation("underline")} title="Underline">
+          <Underline className="h-4 w-4" />
+        </Button>
+        <Button size="icon" variant="ghost" onClick={startNote} title="Add note">
+          <StickyNote className="h-4 w-4" />
+        </Button>
+      </div>
+      {forText && onAskTutor && (
+        <div className="mt-1 flex items-center gap-1 border-t pt-1">
+          {SELECTION_ACTIONS.map((action) => (
+            <Button
+              key={action}
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-xs"
+              onClick={() => askTutor(action)}
+            >
+              {action === "ask" && <Sparkles className="h-3 w-3" />}
+              {SELECTION_ACTION_DETAILS[action].label}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+
+  /**
+   * Render the outline of the selected annotation with its resize handles and
+   * the toolbar for editing it, above the annotation or below it at the top of a page
+   * @param annotation - The selected annotation
+   * @param rects - Its rects, resized while a handle is dragged
+   */
+  const renderSelection = (annotation: AnnotationRecord, rects: PageRect[]) => {
+    const box = boundingBox(rects)
+    const below = box.y < 0.08
+
+    return (
+      <>
+        <div className="pointer-events-none absolute rounded-sm border border-dashed border-primary" style={toPercentStyle(box)}>
+          {RESIZE_HANDLES.map((handle) => (
+            <div
+              key={handle}
+              className={`absolute h-3 w-3 touch-none rounded-full border-2 border-primary bg-background ${HANDLE_CLASSES[handle]}`}
+              style={{ pointerEvents: "auto" }}
+              onPointerDown={(e) => startResize(annotation, handle, e)}
+              onMouseDown={(e) => e.stopPropagation()}
+            />
+          ))}
+        </div>
+        <div
+          className={below ? "absolute pt-2" : "absolute -translate-y-full pb-2"}
+          style={{
+            left: `${box.x * 100}%`,
+            top: `${(below ? box.y + box.height : box.y) * 100}%`,
+            pointerEvents: "auto",
+          }}
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-center gap-1 rounded-md border bg-background p-1 shadow">
+            <ColorPalette
+              value={annotation.color}
+              onChange={(color) => color !== annotation.color && editAnnotation(annotation, { color })}
+              className="px-1"
+            />
+            {annotation.type !== "note" && (
+              <>
+                <div className="mx-1 h-5 w-px bg-border" />
+                <Button
+                  size="icon"
+                  variant={annotation.type === "highlight" ? "secondary" : "ghost"}
+                  onClick={() => annotation.type !== "highlight" && editAnnotation(annotation, { type: "highlight" })}
+                  title="Highlight"
+                >
+                  <Highlighter className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant={annotation.type === "underline" ? "secondary" : "ghost"}
+                  onClick={() => annotation.type !== "underline" && editAnnotation(annotation, { type: "underline" })}
+                  title="Underline"
+                >
+                  <Underline className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+            <div className="mx-1 h-5 w-px bg-border" />
+            <Button size="icon" variant="ghost" onClick={() => deleteAnnotations([annotation])} title="Delete annotation">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </>
+    )
+  }
+
+  /**
+   * Render the overlays of a page: annotations, the flashing quote, the
+   * annotation menus and the box being drawn in annotation mode
+   * @param page - The page number
+   */
+  const renderOverlay = (page: number) => (
+    <div
+      className="absolute inset-0 z-10"
+      onMouseDown={(e) => handleMouseDown(page, e)}
+      onMouseMove={handleMouseMove}
+      onMouseUp={handleMouseUp}
+      style={{
+        cursor: annotationMode ? "crosshair" : "default",
+        // Let clicks through to the text layer unless annotating
+        pointerEvents: annotationMode ? "auto" : "none",
+      }}
+    >
+      {/* Existing annotations of the page; notes also get a pin showing the note */}
+      {annotations
+        .filter((a) => a.page_number === page && a.position.rects.length > 0)
+        .map((a) => {
+          const rects = resizePreview?.id === a.id ? resizePreview.rects : a.position.rects
+          return (
+            <div key={a.id} title={a.type === "note" ? undefined : a.text_content || "Annotation"}>
+              {renderMarks(a.type, a.color, rects, () => setSelectedId(a.id))}
+              {a.type === "note" && (
+                <NotePin
+                  content={a.note_content ?? ""}
+                  color={a.color}
+                  style={toPinStyle(rects[0])}
+                  onSave={(content) => updateNote(a, content)}
+                  onDelete={() => deleteAnnotations([a])}
+                />
+              )}
+              {a.id === selectedId && renderSelection(a, rects)}
+            </div>
+          )
+        })}
+
+      {/* New note being written */}
+      {draftNote && draftNote.page_number === page && draftNote.position.rects.length > 0 && (
+        <div>
+          {renderMarks("note", annotationColor, draftNote.position.rects)}
+          <NotePin
+            content=""
+            color={annotationColor}
+            style={toPinStyle(draftNote.position.rects[0])}
+            defaultEditing
+            onSave={saveDraftNote}
+            onCancel={() => setDraftNote(null)}
+          />
+        </div>
+      )}
+
+      {/* Matches of the search; the hit navigated to stands out */}
+      {searchMarks[page]?.map((rects, index) => {
+        const activeHit = search?.hits[search.activeIndex]
+        const isActive = activeHit?.pageNumber === page && activeHit.index === index
+        return rects.map((rect, i) => (
+          <div
+            key={`${index}-${i}`}
+            className={`pointer-events-none absolute rounded-sm ${
+              isActive ? "bg-orange-500/50 ring-2 ring-orange-500" : "bg-yellow-300/50"
+            }`}
+            style={toPercentStyle(rect)}
+          />
+        ))
+      })}
+
+      {/* Outline of the flashing quote, once its lines are found */}
+      {activeFlash?.pageNumber === page &&
+        activeFlash.rects?.map((rect, i) => (
+          <div
+            key={i}
+            className="pointer-events-none absolute animate-pulse rounded-sm bg-amber-300/40 ring-2 ring-amber-400"
+            style={toPercentStyle(rect)}
+          />
+        ))}
+
+      {/* Flashing quote whose lines are not found on the page, e.g. before
+          its text layer renders or if the text differs */}
+      {activeFlash && activeFlash.pageNumber === page && !activeFlash.rects?.length && (
+        <div className="pointer-events-none absolute inset-x-4 top-4 animate-pulse rounded-md border-2 border-amber-400 bg-amber-100/95 p-3 text-sm text-amber-950 shadow-lg">
+          <span className="font-semibold">Page {activeFlash.pageNumber}: </span>
+          &ldquo;{activeFlash.text}&rdquo;
+        </div>
+      )}
+
+      {/* Live selection rectangle */}
+      {selectionBox && selectionPage === page && (
+        <div
+          className="absolute border-2 border-primary/70 bg-primary/10"
+          style={{
+            left: selectionBox.x,
+            top: selectionBox.y,
+            width: selectionBox.width,
+            height: selectionBox.height,
+          }}
+        />
+      )}
+
+      {/* Context menu for annotating the drawn box */}
+      {showMenu && selectionBox && selectionPage === page && (
+        <div
+          className="absolute"
+          style={{ left: selectionBox.x, top: Math.max(0, selectionBox.y - 40), pointerEvents: "auto" }}
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          {renderMenu()}
+        </div>
+      )}
+
+      {/* Context menu for annotating the selected text, above its first line */}
+      {textSelection && textSelection.pageNumber === page && textSelection.rects.length > 0 && (
+        <div
+          className="absolute -translate-y-full pb-1"
+          style={{
+            left: `${textSelection.rects[0].x * 100}%`,
+            top: `${textSelection.rects[0].y * 100}%`,
+            pointerEvents: "auto",
+          }}
+          // Keep the text selected when a button is pressed
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {renderMenu(true)}
+        </div>
+      )}
+    </div>
+  )
 
   return (
     <div className="flex h-full w-full flex-col">
       {/* Toolbar */}
       <div className="flex items-center justify-between border-b p-2">
-        <div className="flex items-center gap-2">
+        <div className="flex min-w-0 items-center gap-2">
           <h3 className="text-sm font-medium truncate" title={pdfName}>
             {pdfName}
           </h3>
         </div>
         <div className="flex items-center gap-2">
+          {/* Color of new annotations */}
+          <ColorPalette value={annotationColor} onChange={changeAnnotationColor} />
+          {/* Undo / redo of annotation changes */}
+          <div className="flex items-center">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={undo}
+              disabled={history.past.length === 0}
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={redo}
+              disabled={history.future.length === 0}
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2 className="h-4 w-4" />
+            </Button>
+          </div>
+          {/* Search toggle */}
+          <Button
+            variant={showSearch ? "secondary" : "ghost"}
+            size="icon"
+            onClick={() => (showSearch ? closeSearch() : setShowSearch(true))}
+            title={showSearch ? "Close search" : "Search in document (Ctrl+F)"}
+          >
+            <Search className="h-4 w-4" />
+          </Button>
+          {/* Annotations panel toggle */}
+          <Button
+            variant={showPanel ? "secondary" : "ghost"}
+            size="icon"
+            onClick={() => setShowPanel((open) => !open)}
+            title={showPanel ? "Hide annotations" : "Show all annotations"}
+          >
+            <PanelRight className="h-4 w-4" />
+          </Button>
           {/* Annotation Mode Toggle */}
           <div className="flex items-center gap-2">
             <span className="text-xs text-muted-foreground">Annotate</span>
             <Switch checked={annotationMode} onCheckedChange={setAnnotationMode} />
           </div>
+          {/* Zoom */}
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setZoomIndex((i) => Math.max(0, i - 1))}
+              disabled={zoomIndex === 0}
+              title="Zoom out"
+            >
+              <ZoomOut className="h-4 w-4" />
+            </Button>
+            <span className="w-10 text-center text-xs text-muted-foreground">{Math.round(zoom * 100)}%</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setZoomIndex((i) => Math.min(ZOOM_LEVELS.length - 1, i + 1))}
+              disabled={zoomIndex === ZOOM_LEVELS.length - 1}
+              title="Zoom in"
+            >
+              <ZoomIn className="h-4 w-4" />
+            </Button>
+          </div>
           {/* Page navigation */}
           <div className="flex items-center gap-2">
             <Button variant="outline" size="icon" onClick={prevPage} disabled={currentPage <= 1}>
               <ChevronLeft className="h-4 w-4" />
             </Button>
             <span className="text-xs text-muted-foreground">
-              Page {currentPage} / {pageCount}
+              Page {currentPage} / {numPages}
             </span>
-            <Button variant="outline" size="icon" onClick={nextPage} disabled={currentPage >= pageCount}>
+            <Button variant="outline" size="icon" onClick={nextPage} disabled={currentPage >= numPages}>
               <ChevronRight className="h-4 w-4" />
             </Button>
           </div>
         </div>
       </div>
 
-      {/* PDF viewport */}
-      <div className="relative flex-1 overflow-auto bg-muted/30">
-        {/* PDF content - using iframe for simplicity; replace with pdf.js for richer features */}
+      {/* Search of the document text */}
+      {showSearch && (
+        <PdfSearchBar
+          pdfId={pdfId}
+          inputRef={searchInputRef}
+          onSearchChange={setSearch}
+          onJump={jumpToHit}
+          onClose={closeSearch}
+        />
+      )}
+
+      {/* PDF viewport - continuous scroll through all pages */}
+      <div className="flex min-h-0 flex-1">
+        {/* Pressing anywhere but an annotation or its toolbar unselects the annotation */}
         <div
-          className="relative mx-auto my-4 w-[90%] max-w-5xl rounded-md bg-background shadow"
-          onMouseDown={handleMouseDown}
-          onMouseMove={handleMouseMove}
-          onMouseUp={handleMouseUp}
-          style={{ cursor: annotationMode ? "crosshair" : "default" }}
+          ref={containerRef}
+          className="relative flex-1 overflow-auto bg-muted/30"
+          onScroll={handleScroll}
+          onMouseDown={() => setSelectedId(null)}
         >
-          <iframe
-            src={`${pdfUrl}#page=${currentPage}`}
-            className="h-[75vh] w-full rounded-md"
-          />
-
-          {/* Render existing annotations for current page */}
-          {annotations.map((a) => (
-            <div
-              key={a.id}
-              className="absolute"
-              style={{
-                left: a.position.x,
-                top: a.position.y,
-                width: a.position.width,
-                height: a.position.height,
-                backgroundColor: a.type === "highlight" ? a.color : "transparent",
-                borderBottom: a.type === "underline" ? `2px solid ${a.color}` : "none",
-                opacity: 0.35,
-                pointerEvents: "auto",
-              }}
-              title={a.text_content || "Annotation"}
-            >
-              {/* Delete button for each annotation */}
-              <button
-                className="absolute -right-2 -top-2 rounded bg-background/80 p-0.5 shadow"
-                onClick={() => deleteAnnotation(a.id)}
-                aria-label="Delete annotation"
-              >
-                <Trash2 className="h-3 w-3" />
-              </button>
-            </div>
-          ))}
-
-          {/* Live selection rectangle */}
-          {selectionBox && (
-            <div
-              className="absolute border-2 border-primary/70 bg-primary/10"
-              style={{
-                left: selectionBox.x,
-                top: selectionBox.y,
-                width: selectionBox.width,
-                height: selectionBox.height,
-              }}
-            />
-          )}
-
-          {/* Context menu for creating annotation */}
-          {showMenu && selectionBox && (
-            <div
-              className="absolute z-10 rounded-md border bg-background p-1 shadow"
-              style={{ left: selectionBox.x, top: Math.max(0, selectionBox.y - 40) }}
-            >
-              <div className="flex items-center gap-1">
-                <Button size="icon" variant="ghost" onClick={() => createAnnotation("highlight", "#fde68a")}
-                  title="Highlight">
-                  <Highlighter className="h-4 w-4" />
-                </Button>
-                <Button size="icon" variant="ghost" onClick={() => createAnnotation("underline", "#60a5fa")}
-                  title="Underline">
-                  <Underline className="h-4 w-4" />
-                </Button>
+          <Document
+            key={pdfUrl}
+            file={pdfUrl}
+            onLoadSuccess={handleLoadSuccess}
+            onLoadError={(error) => console.error("[v0] Error loading PDF:", error)}
+            loading={
+              <div className="flex h-full items-center justify-center py-16">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
               </div>
-            </div>
-          )}
+            }
+            error={<p className="py-16 text-center text-sm text-muted-foreground">Failed to load PDF</p>}
+            className="flex flex-col items-center gap-4 py-4"
+          >
+            {pageWidth > 0 &&
+              pageRatios.map((ratio, i) => {
+                const page = i + 1
+                // Render the pages near the visible ones, keep the others as placeholders
+                const rendered =
+                  page >= visibleRange.first - RENDER_MARGIN && page <= visibleRange.last + RENDER_MARGIN
+
+                return (
+                  <div
+                    key={page}
+                    ref={(element) => {
+                      pageRefs.current[i] = element
+                    }}
+                    data-viewer-page={page}
+                    className="relative shrink-0 overflow-hidden rounded-sm bg-background shadow"
+                    style={{ width: pageWidth, height: Math.round(pageWidth * ratio) }}
+                  >
+                    {rendered && (
+                      <Page
+                        pageNumber={page}
+                        width={pageWidth}
+                        loading={null}
+                        onRenderTextLayerSuccess={() => handleTextLayerRendered(page)}
+                      />
+                    )}
+                    {renderOverlay(page)}
+                  </div>
+                )
+              })}
+          </Document>
         </div>
+
+        {/* All annotations of the PDF */}
+        {showPanel && (
+          <AnnotationsPanel
+            pdfId={pdfId}
+            annotations={annotations}
+            selectedId={selectedId}
+            onJump={jumpToAnnotation}
+            onDelete={deleteAnnotations}
+            onImported={addImportedAnnotations}
+            onClose={() => setShowPanel(false)}
+          />
+        )}
       </div>
     </div>
   )
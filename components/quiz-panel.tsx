@@ -0,0 +1,449 @@
+// This is a client-side component - enables quiz taking interactivity
+"use client"
+
+// Import React type for form event handling
+import type React from "react"
+// Import React hooks for state and side effects
+import { useEffect, useState } from "react"
+// Import Button UI component
+import { Button } from "@/components/ui/button"
+// Import Input component for page numbers and short answers
+import { Input } from "@/components/ui/input"
+// Import Label component for form fields
+import { Label } from "@/components/ui/label"
+// Import icons for the quiz states
+import { BookOpen, Check, ListChecks, Loader2, RotateCcw, X } from "lucide-react"
+// Import Supabase client for loading earlier quizzes
+import { createClient } from "@/lib/supabase/client"
+// Import toast notification system for user feedback
+import { toast } from "sonner"
+// Import the typed client of the quiz endpoints
+import { createQuiz, fetchQuiz, submitQuizAttempt } from "@/lib/api/client"
+// Import shared quiz types
+import {
+  MAX_QUIZ_QUESTIONS,
+  QUIZ_QUESTION_TYPES,
+  type Quiz,
+  type QuizAttempt,
+  type QuizQuestionType,
+} from "@/lib/api/schemas"
+
+// Labels of the question kinds
+const QUESTION_TYPE_LABELS: Record<QuizQuestionType, string> = {
+  "multiple-choice": "Multiple choice",
+  "true-false": "True / false",
+  "short-answer": "Short answer",
+}
+
+/**
+ * An earlier quiz of the document with its best result
+ */
+interface QuizSummary {
+  id: string
+  title: string
+  page_start: number
+  page_end: number
+  created_at: string
+  quiz_attempts: { score: number; total: number }[]
+}
+
+/**
+ * Props for the QuizPanel component
+ * @property pdfId - The PDF the quiz is drawn from
+ * @property pageCount - Number of pages of the PDF
+ * @property currentPage - Page shown in the viewer, used as the default range
+ * @property onPageClick - Called to show the source page of an explanation
+ */
+interface QuizPanelProps {
+  pdfId: string
+  pageCount: number
+  currentPage: number
+  onPageClick?: (pageNumber: number) => void
+}
+
+/**
+ * QuizPanel - Generates quizzes from a page range and grades the answers
+ * Features:
+ * - Multiple-choice, true/false and short-answer questions
+ * - Choice questions graded instantly, short answers graded by the AI tutor
+ * - Per-question explanations linking back to the source page
+ * - Earlier quizzes of the document can be taken again
+ *
+ * @param props - PDF id, page count, current page and the page click handler
+ * @returns JSX element with the quiz panel
+ */
+export default function QuizPanel({ pdfId, pageCount, currentPage, onPageClick }: QuizPanelProps) {
+  // State for the generation form (kept as text so the inputs can be cleared while typing)
+  const [pageStart, setPageStart] = useState(String(currentPage))
+  const [pageEnd, setPageEnd] = useState(String(currentPage))
+  const [questionCount, setQuestionCount] = useState("5")
+  const [types, setTypes] = useState<QuizQuestionType[]>([...QUIZ_QUESTION_TYPES])
+  // State for the quiz being taken and the answers given so far
+  const [quiz, setQuiz] = useState<Quiz | null>(null)
+  const [answers, setAnswers] = useState<Record<string, string>>({})
+  // State for the graded attempt of the current quiz
+  const [attempt, setAttempt] = useState<QuizAttempt | null>(null)
+  // State for earlier quizzes of this PDF, newest first
+  const [history, setHistory] = useState<QuizSummary[]>([])
+  // State to track requests in flight
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [isGrading, setIsGrading] = useState(false)
+  // Initialize Supabase client for database operations
+  const supabase = createClient()
+
+  /**
+   * Load the earlier quizzes of the PDF with their attempts
+   */
+  const loadHistory = async () => {
+    const { data, error } = await supabase
+      .from("quizzes")
+      .select("id, title, page_start, page_end, created_at, quiz_attempts(score, total)")
+      .eq("pdf_id", pdfId)
+      .order("created_at", { ascending: false })
+      .limit(10)
+
+    if (error) {
+      console.error("[v0] Error loading quizzes:", error)
+      return
+    }
+    setHistory(data ?? [])
+  }
+
+  // Start over when another PDF is opened; the current page only seeds the
+  // range at that point so paging through the viewer keeps the form as typed
+  useEffect(() => {
+    setQuiz(null)
+    setAttempt(null)
+    setAnswers({})
+    setPageStart(String(currentPage))
+    setPageEnd(String(currentPage))
+    loadHistory()
+  }, [pdfId])
+
+  /**
+   * Toggle a question kind on or off
+   * @param type - The question kind
+   */
+  const toggleType = (type: QuizQuestionType) => {
+    setTypes((prev) => (prev.includes(type) ? prev.filter((t) => t !== type) : [...prev, type]))
+  }
+
+  /**
+   * Generate a new quiz from the selected pages
+   * @param e - Form submit event
+   */
+  const handleGenerate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsGenerating(true)
+
+    try {
+      const { quiz: newQuiz } = await createQuiz({
+        pdfId,
+        pageStart: Number(pageStart),
+        pageEnd: Number(pageEnd),
+        questionCount: Number(questionCount),
+        types,
+      })
+      setQuiz(newQuiz)
+      setAnswers({})
+      setAttempt(null)
+      loadHistory()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to generate quiz")
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  /**
+   * Open an earlier quiz to take it again
+   * @param quizId - The quiz to open
+   */
+  const handleOpenQuiz = async (quizId: string) => {
+    try {
+      const { quiz: storedQuiz } = await fetchQuiz(quizId)
+      setQuiz(storedQuiz)
+      setAnswers({})
+      setAttempt(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load quiz")
+    }
+  }
+
+  /**
+   * Submit the answers for grading
+   */
+  const handleSubmit = async () => {
+    if (!quiz) return
+    setIsGrading(true)
+
+    try {
+      const { attempt: gradedAttempt } = await submitQuizAttempt(quiz.id, {
+        answers: Object.entries(answers).map(([questionId, answer]) => ({ questionId, answer })),
+      })
+      setAttempt(gradedAttempt)
+      loadHistory()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to grade quiz")
+    } finally {
+      setIsGrading(false)
+    }
+  }
+
+  /**
+   * Take the current quiz again with empty answers
+   */
+  const handleRetake = () => {
+    setAnswers({})
+    setAttempt(null)
+  }
+
+  /**
+   * Leave the current quiz and return to the generation form
+   */
+  const handleClose = () => {
+    setQuiz(null)
+    setAnswers({})
+    setAttempt(null)
+  }
+
+  // Results of the graded attempt by question
+  const resultById = new Map(attempt?.results.map((r) => [r.questionId, r]))
+  // Number of questions answered so far
+  const answeredCount = quiz ? quiz.questions.filter((q) => answers[q.id]?.trim()).length : 0
+
+  return (
+    // Main quiz container with flexbox layout
+    <div className="flex h-full flex-col bg-background">
+      {/* Quiz header with title and the quiz being taken */}
+      <div className="border-b p-4">
+        <div className="flex items-center gap-2">
+          <h2 className="text-sm font-semibold mr-auto">Quiz</h2>
+          {quiz && (
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={handleClose}>
+              New quiz
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground truncate">
+          {quiz ? `${quiz.title} · pages ${quiz.page_start}-${quiz.page_end}` : "Test yourself on a range of pages"}
+        </p>
+      </div>
+
+      {!quiz ? (
+        // Generation form and earlier quizzes
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          <form onSubmit={handleGenerate} className="space-y-4">
+            {/* Page range */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Pages</Label>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setPageStart(String(currentPage))
+                    setPageEnd(String(currentPage))
+                  }}
+                  className="text-xs text-muted-foreground hover:text-foreground"
+                >
+                  Use current page
+                </button>
+              </div>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={1}
+                  max={pageCount}
+                  value={pageStart}
+                  onChange={(e) => setPageStart(e.target.value)}
+                  aria-label="First page"
+                />
+                <span className="text-sm text-muted-foreground">to</span>
+                <Input
+                  type="number"
+                  min={1}
+                  max={pageCount}
+                  value={pageEnd}
+                  onChange={(e) => setPageEnd(e.target.value)}
+                  aria-label="Last page"
+                />
+              </div>
+            </div>
+
+            {/* Number of questions */}
+            <div className="space-y-2">
+              <Label htmlFor="quiz-question-count">Questions</Label>
+              <Input
+                id="quiz-question-count"
+                type="number"
+                min={1}
+                max={MAX_QUIZ_QUESTIONS}
+                value={questionCount}
+                onChange={(e) => setQuestionCount(e.target.value)}
+              />
+            </div>
+
+            {/* Kinds of questions */}
+            <div className="space-y-2">
+              <Label>Question types</Label>
+              <div className="flex flex-wrap gap-2">
+                {QUIZ_QUESTION_TYPES.map((type) => (
+                  <Button
+                    key={type}
+                    type="button"
+                    size="sm"
+                    variant={types.includes(type) ? "default" : "outline"}
+                    onClick={() => toggleType(type)}
+                  >
+                    {QUESTION_TYPE_LABELS[type]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <Button type="submit" className="w-full" disabled={isGenerating || types.length === 0}>
+              {isGenerating ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Generating...
+                </>
+              ) : (
+                <>
+                  <ListChecks className="mr-2 h-4 w-4" />
+                  Generate quiz
+                </>
+              )}
+            </Button>
+          </form>
+
+          {/* Earlier quizzes - clicking one takes it again */}
+          {history.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-xs font-medium text-muted-foreground">Previous quizzes</h3>
+              {history.map((item) => {
+                const best = item.quiz_attempts.reduce<{ score: number; total: number } | null>(
+                  (top, a) => (!top || a.score / a.total > top.score / top.total ? a : top),
+                  null,
+                )
+                return (
+                  <button
+                    key={item.id}
+                    type="button"
+                    onClick={() => handleOpenQuiz(item.id)}
+                    className="w-full rounded-md border px-3 py-2 text-left text-sm transition-colors hover:bg-muted"
+                  >
+                    <p className="truncate font-medium">{item.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Pages {item.page_start}-{item.page_end}
+                      {best ? ` · best ${best.score}/${best.total}` : " · not taken"}
+                    </p>
+                  </button>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      ) : (
+        <>
+          {/* Questions, and after grading the results */}
+          <div className="flex-1 overflow-y-auto p-4 space-y-6">
+            {attempt && (
+              <div className="rounded-lg bg-muted px-4 py-3 text-center">
+                <p className="text-2xl font-bold">
+                  {attempt.score} / {attempt.total}
+                </p>
+                <p className="text-xs text-muted-foreground">questions answered correctly</p>
+              </div>
+            )}
+
+            {quiz.questions.map((question, index) => {
+              const result = resultById.get(question.id)
+              return (
+                <div key={question.id} className="space-y-2">
+                  <div className="flex items-start gap-2">
+                    {/* Correct/incorrect marker once graded */}
+                    {result &&
+                      (result.correct ? (
+                        <Check className="mt-0.5 h-4 w-4 flex-shrink-0 text-green-600" />
+                      ) : (
+                        <X className="mt-0.5 h-4 w-4 flex-shrink-0 text-destructive" />
+                      ))}
+                    <p className="text-sm font-medium">
+                      {index + 1}. {question.prompt}
+                    </p>
+                  </div>
+
+                  {question.type === "short-answer" ? (
+                    <Input
+                      value={answers[question.id] ?? ""}
+                      onChange={(e) => setAnswers((prev) => ({ ...prev, [question.id]: e.target.value }))}
+                      placeholder="Your answer"
+                      disabled={!!attempt || isGrading}
+                    />
+                  ) : (
+                    <div className="space-y-1">
+                      {question.options.map((option) => (
+                        <Button
+                          key={option}
+                          type="button"
+                          variant={answers[question.id] === option ? "default" : "outline"}
+                          className="h-auto w-full justify-start whitespace-normal py-2 text-left"
+                          onClick={() => setAnswers((prev) => ({ ...prev, [question.id]: option }))}
+                          disabled={!!attempt || isGrading}
+                        >
+                          {option}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+
+                  {/* Correct answer, feedback and explanation once graded */}
+                  {result && (
+                    <div className="space-y-1 rounded-md border bg-muted/50 p-3 text-xs">
+                      {!result.correct && (
+                        <p>
+                          <span className="font-medium">Correct answer:</span> {result.correctAnswer}
+                        </p>
+                      )}
+                      {result.feedback && <p className="text-muted-foreground">{result.feedback}</p>}
+                      <p className="text-muted-foreground">{result.explanation}</p>
+                      <button
+                        type="button"
+                        onClick={() => onPageClick?.(result.pageNumber)}
+                        className="inline-flex items-center gap-1 rounded-full border bg-background px-2 py-0.5 text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground"
+                      >
+                        <BookOpen className="h-3 w-3" />
+                        p. {result.pageNumber}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+
+          {/* Submit or retake */}
+          <div className="border-t p-4">
+            {attempt ? (
+              <Button variant="outline" className="w-full" onClick={handleRetake}>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Retake quiz
+              </Button>
+            ) : (
+              <Button className="w-full" onClick={handleSubmit} disabled={isGrading || answeredCount === 0}>
+                {isGrading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Grading...
+                  </>
+                ) : (
+                  `Submit answers (${answeredCount}/${quiz.questions.length})`
+                )}
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
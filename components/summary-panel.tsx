@@ -0,0 +1,317 @@
+// This is a client-side component - enables summary generation interactivity
+"use client"
+
+// Import React type for form event handling
+import type React from "react"
+// Import React hooks for state and side effects
+import { useEffect, useState } from "react"
+// Import Button UI component
+import { Button } from "@/components/ui/button"
+// Import Input component for page numbers
+import { Input } from "@/components/ui/input"
+// Import Label component for form fields
+import { Label } from "@/components/ui/label"
+// Import icons for the summary states
+import { BookOpen, FileText, Loader2, RotateCcw } from "lucide-react"
+// Import Supabase client for loading cached summaries
+import { createClient } from "@/lib/supabase/client"
+// Import toast notification system for user feedback
+import { toast } from "sonner"
+// Import MarkdownContent for rendering the summary
+import MarkdownContent from "@/components/markdown-content"
+// Import the typed client of the summary endpoint
+import { summarize } from "@/lib/api/client"
+// Import shared summary types
+import {
+  SUMMARY_LENGTHS,
+  SUMMARY_SCOPES,
+  type SummarizeRequest,
+  type Summary,
+  type SummaryLength,
+  type SummaryScope,
+} from "@/lib/api/schemas"
+
+// Labels of the summary scopes
+const SCOPE_LABELS: Record<SummaryScope, string> = {
+  page: "Page",
+  range: "Pages",
+  document: "Document",
+}
+
+// Labels of the summary lengths
+const LENGTH_LABELS: Record<SummaryLength, string> = {
+  short: "Short",
+  medium: "Medium",
+  long: "Long",
+}
+
+/**
+ * Describes the pages a summary covers
+ * @param summary - The summary
+ * @returns Label such as "Page 3", "Pages 2-5" or "Whole document"
+ */
+function describePages(summary: Summary) {
+  if (summary.scope === "document") return "Whole document"
+  if (summary.page_start === summary.page_end) return `Page ${summary.page_start}`
+  return `Pages ${summary.page_start}-${summary.page_end}`
+}
+
+/**
+ * Props for the SummaryPanel component
+ * @property pdfId - The PDF being summarized
+ * @property pageCount - Number of pages of the PDF
+ * @property currentPage - Page shown in the viewer, summarized by the "Page" scope
+ * @property onPageClick - Called to show the first page of a summary
+ */
+interface SummaryPanelProps {
+  pdfId: string
+  pageCount: number
+  currentPage: number
+  onPageClick?: (pageNumber: number) => void
+}
+
+/**
+ * SummaryPanel - Page, page-range and whole-document summaries
+ * Features:
+ * - Short, medium and long summaries
+ * - Summaries are cached on the server and only regenerated when the text changes
+ * - Earlier summaries of the document can be reopened
+ *
+ * @param props - PDF id, page count, current page and the page click handler
+ * @returns JSX element with the summary panel
+ */
+export default function SummaryPanel({ pdfId, pageCount, currentPage, onPageClick }: SummaryPanelProps) {
+  // State for the summary options (page numbers kept as text while typing)
+  const [scope, setScope] = useState<SummaryScope>("page")
+  const [length, setLength] = useState<SummaryLength>("medium")
+  const [pageStart, setPageStart] = useState("1")
+  const [pageEnd, setPageEnd] = useState(String(pageCount))
+  // State for the summary shown and whether it came from the cache
+  const [summary, setSummary] = useState<Summary | null>(null)
+  const [cached, setCached] = useState(false)
+  // State for the cached summaries of this PDF, newest first
+  const [saved, setSaved] = useState<Summary[]>([])
+  // State to track the request in flight
+  const [isLoading, setIsLoading] = useState(false)
+  // Initialize Supabase client for database operations
+  const supabase = createClient()
+
+  /**
+   * Load the cached summaries of the PDF
+   */
+  const loadSaved = async () => {
+    const { data, error } = await supabase
+      .from("summaries")
+      .select("id, scope, page_start, page_end, length, summary, model_id, created_at")
+      .eq("pdf_id", pdfId)
+      .order("created_at", { ascending: false })
+      .limit(20)
+
+    if (error) {
+      console.error("[v0] Error loading summaries:", error)
+      return
+    }
+    setSaved(data ?? [])
+  }
+
+  // Start over when another PDF is opened
+  useEffect(() => {
+    setSummary(null)
+    setPageStart("1")
+    setPageEnd(String(pageCount))
+    loadSaved()
+  }, [pdfId])
+
+  /**
+   * Request a summary, from the cache unless refresh is set
+   * @param request - Summary options without the PDF id
+   */
+  const requestSummary = async (request: Omit<SummarizeRequest, "pdfId">) => {
+    setIsLoading(true)
+
+    try {
+      const response = await summarize({ pdfId, ...request })
+      setSummary(response.summary)
+      setCached(response.cached)
+      if (!response.cached) loadSaved()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to summarize")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  /**
+   * Handle the summary form submission
+   * @param e - Form submit event
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    requestSummary({
+      scope,
+      pageStart: scope === "page" ? currentPage : scope === "range" ? Number(pageStart) : undefined,
+      pageEnd: scope === "range" ? Number(pageEnd) : undefined,
+      length,
+    })
+  }
+
+  /**
+   * Regenerate the summary shown, bypassing the cache
+   */
+  const handleRegenerate = () => {
+    if (!summary) return
+    requestSummary({
+      scope: summary.scope,
+      pageStart: summary.scope === "document" ? undefined : summary.page_start,
+      pageEnd: summary.scope === "range" ? summary.page_end : undefined,
+      length: summary.length,
+      refresh: true,
+    })
+  }
+
+  return (
+    // Main summary container with flexbox layout
+    <div className="flex h-full flex-col bg-background">
+      {/* Summary header */}
+      <div className="border-b p-4">
+        <h2 className="text-sm font-semibold">Summary</h2>
+        <p className="text-xs text-muted-foreground">Summarize a page, a range or the whole document</p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* What to summarize */}
+          <div className="space-y-2">
+            <Label>Summarize</Label>
+            <div className="flex flex-wrap gap-2">
+              {SUMMARY_SCOPES.map((option) => (
+                <Button
+                  key={option}
+                  type="button"
+                  size="sm"
+                  variant={scope === option ? "default" : "outline"}
+                  onClick={() => setScope(option)}
+                >
+                  {SCOPE_LABELS[option]}
+                </Button>
+              ))}
+            </div>
+            {scope === "page" && (
+              <p className="text-xs text-muted-foreground">The page shown in the viewer (page {currentPage})</p>
+            )}
+            {scope === "range" && (
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={1}
+                  max={pageCount}
+                  value={pageStart}
+                  onChange={(e) => setPageStart(e.target.value)}
+                  aria-label="First page"
+                />
+                <span className="text-sm text-muted-foreground">to</span>
+                <Input
+                  type="number"
+                  min={1}
+                  max={pageCount}
+                  value={pageEnd}
+                  onChange={(e) => setPageEnd(e.target.value)}
+                  aria-label="Last page"
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Summary length */}
+          <div className="space-y-2">
+            <Label>Length</Label>
+            <div className="flex flex-wrap gap-2">
+              {SUMMARY_LENGTHS.map((option) => (
+                <Button
+                  key={option}
+                  type="button"
+                  size="sm"
+                  variant={length === option ? "default" : "outline"}
+                  onClick={() => setLength(option)}
+                >
+                  {LENGTH_LABELS[option]}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <Button type="submit" className="w-full" disabled={isLoading}>
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Summarizing...
+              </>
+            ) : (
+              <>
+                <FileText className="mr-2 h-4 w-4" />
+                Summarize
+              </>
+            )}
+          </Button>
+        </form>
+
+        {/* The summary shown */}
+        {summary && (
+          <div className="rounded-lg border p-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => onPageClick?.(summary.page_start)}
+                className="inline-flex items-center gap-1 rounded-full border bg-background px-2 py-0.5 text-xs text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground"
+              >
+                <BookOpen className="h-3 w-3" />
+                {describePages(summary)}
+              </button>
+              <span className="mr-auto text-xs text-muted-foreground">
+                {LENGTH_LABELS[summary.length]}
+                {cached ? " · cached" : ""}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={handleRegenerate}
+                disabled={isLoading}
+                title="Generate a new summary"
+              >
+                <RotateCcw className="h-3 w-3" />
+                Regenerate
+              </Button>
+            </div>
+            <MarkdownContent content={summary.summary} />
+          </div>
+        )}
+
+        {/* Cached summaries - clicking one shows it */}
+        {saved.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-xs font-medium text-muted-foreground">Saved summaries</h3>
+            {saved.map((item) => (
+              <button
+                key={item.id}
+                type="button"
+                onClick={() => {
+                  setSummary(item)
+                  setCached(true)
+                }}
+                className={`w-full rounded-md border px-3 py-2 text-left text-sm transition-colors hover:bg-muted ${
+                  summary?.id === item.id ? "bg-muted" : ""
+                }`}
+              >
+                <p className="font-medium">{describePages(item)}</p>
+                <p className="truncate text-xs text-muted-foreground">
+                  {LENGTH_LABELS[item.length]} · {item.summary}
+                </p>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
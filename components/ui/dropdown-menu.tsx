@@ -0,0 +1,212 @@
+// Dropdown menu component system from Radix UI
+// Client-side component for menus opened from a trigger button
+// Provides composable menu structure with items, labels, separators and groups
+
+'use client'
+import * as React from 'react'
+import * as DropdownMenuPrimitive from '@radix-ui/react-dropdown-menu'
+import { CheckIcon } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+/**
+ * Root DropdownMenu component - manages menu open state
+ * @param {React.ComponentProps<typeof DropdownMenuPrimitive.Root>} props - Radix UI DropdownMenu.Root props
+ * @returns {React.ReactElement} Dropdown menu root wrapper
+ */
+function DropdownMenu({
+  ...props
+}: React.ComponentProps<typeof DropdownMenuPrimitive.Root>) {
+  return <DropdownMenuPrimitive.Root data-slot="dropdown-menu" {...props} />
+}
+
+/**
+ * Dropdown menu trigger component - element that opens the menu
+ * @param {React.ComponentProps<typeof DropdownMenuPrimitive.Trigger>} props - Radix UI DropdownMenu.Trigger props
+ * @returns {React.ReactElement} Dropdown menu trigger element
+ */
+function DropdownMenuTrigger({
+  ...props
+}: React.ComponentProps<typeof DropdownMenuPrimitive.Trigger>) {
+  return (
+    <DropdownMenuPrimitive.Trigger
+      data-slot="dropdown-menu-trigger"
+      {...props}
+    />
+  )
+}
+
+/**
+ * Dropdown menu content component - floating panel holding the menu items
+ * Rendered in a portal so it is not clipped by scroll containers
+ * @param {React.ComponentProps<typeof DropdownMenuPrimitive.Content>} props - Radix UI DropdownMenu.Content props
+ * @returns {React.ReactElement} Styled dropdown menu content
+ */
+function DropdownMenuContent({
+  className,
+  sideOffset = 4,
+  ...props
+}: React.ComponentProps<typeof DropdownMenuPrimitive.Content>) {
+  return (
+    <DropdownMenuPrimitive.Portal>
+      <DropdownMenuPrimitive.Content
+        data-slot="dropdown-menu-content"
+        sideOffset={sideOffset}
+        className={cn(
+          'bg-popover text-popover-foreground data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0 data-[state=closed]:zoom-out-95 data-[state=open]:zoom-in-95 z-50 max-h-(--radix-dropdown-menu-content-available-height) min-w-[8rem] origin-(--radix-dropdown-menu-content-transform-origin) overflow-x-hidden overflow-y-auto rounded-md border p-1 shadow-md',
+          className,
+        )}
+        {...props}
+      />
+    </DropdownMenuPrimitive.Portal>
+  )
+}
+
+/**
+ * Dropdown menu group component - groups related items
+ * @param {React.ComponentProps<typeof DropdownMenuPrimitive.Group>} props - Radix UI DropdownMenu.Group props
+ * @returns {React.ReactElement} Dropdown menu group
+ */
+function DropdownMenuGroup({
+  ...props
+}: React.ComponentProps<typeof DropdownMenuPrimitive.Group>) {
+  return (
+    <DropdownMenuPrimitive.Group data-slot="dropdown-menu-group" {...props} />
+  )
+}
+
+/**
+ * Dropdown menu item component - a selectable action
+ * @param {React.ComponentProps<typeof DropdownMenuPrimitive.Item> & {inset?: boolean; variant?: 'default' | 'destructive'}} props
+ * @param {boolean} [props.inset] - Indent the item to align with items that have icons
+ * @param {'default' | 'destructive'} [props.variant='default'] - Destructive items are shown in red
+ * @returns {React.ReactElement} Styled dropdown menu item
+ */
+function DropdownMenuItem({
+  className,
+  inset,
+  variant = 'default',
+  ...props
+}: React.ComponentProps<typeof DropdownMenuPrimitive.Item> & {
+  inset?: boolean
+  variant?: 'default' | 'destructive'
+}) {
+  return (
+    <DropdownMenuPrimitive.Item
+      data-slot="dropdown-menu-item"
+      data-inset={inset}
+      data-variant={variant}
+      className={cn(
+        "focus:bg-accent focus:text-accent-foreground data-[variant=destructive]:text-destructive data-[variant=destructive]:focus:bg-destructive/10 dark:data-[variant=destructive]:focus:bg-destructive/20 data-[variant=destructive]:focus:text-destructive data-[variant=destructive]:*:[svg]:!text-destructive [&_svg:not([class*='text-'])]:text-muted-foreground relative flex cursor-default items-center gap-2 rounded-sm px-2 py-1.5 text-sm outline-hidden select-none data-[disabled]:pointer-events-none data-[disabled]:opacity-50 data-[inset]:pl-8 [&_svg]:pointer-events-none [&_svg]:shrink-0 [&_svg:not([class*='size-'])]:size-4",
+        className,
+      )}
+      {...props}
+    />
+  )
+}
+
+/**
+ * Dropdown menu checkbox item component - an item with a checked state
+ * @param {React.ComponentProps<typeof DropdownMenuPrimitive.CheckboxItem>} props - Radix UI DropdownMenu.CheckboxItem props
+ * @returns {React.ReactElement} Styled checkbox item with check indicator
+ */
+function DropdownMenuCheckboxItem({
+  className,
+  children,
+  checked,
+  ...props
+}: React.ComponentProps<typeof DropdownMenuPrimitive.CheckboxItem>) {
+  return (
+    <DropdownMenuPrimitive.CheckboxItem
+      data-slot="dropdown-menu-checkbox-item"
+      className={cn(
+        "focus:bg-accent focus:text-accent-foreground relative flex cursor-default items-center gap-2 rounded-sm py-1.5 pr-2 pl-8 text-sm outline-hidden select-none data-[disabled]:pointer-events-none data-[disabled]:opacity-50 [&_svg]:pointer-events-none [&_svg]:shrink-0 [&_svg:not([class*='size-'])]:size-4",
+        className,
+      )}
+      checked={checked}
+      {...props}
+    >
+      <span className="pointer-events-none absolute left-2 flex size-3.5 items-center justify-center">
+        <DropdownMenuPrimitive.ItemIndicator>
+          <CheckIcon className="size-4" />
+        </DropdownMenuPrimitive.ItemIndicator>
+      </span>
+      {children}
+    </DropdownMenuPrimitive.CheckboxItem>
+  )
+}
+
+/**
+ * Dropdown menu label component - non-interactive heading for a group of items
+ * @param {React.ComponentProps<typeof DropdownMenuPrimitive.Label> & {inset?: boolean}} props
+ * @returns {React.ReactElement} Styled dropdown menu label
+ */
+function DropdownMenuLabel({
+  className,
+  inset,
+  ...props
+}: React.ComponentProps<typeof DropdownMenuPrimitive.Label> & {
+  inset?: boolean
+}) {
+  return (
+    <DropdownMenuPrimitive.Label
+      data-slot="dropdown-menu-label"
+      data-inset={inset}
+      className={cn(
+        'px-2 py-1.5 text-sm font-medium data-[inset]:pl-8',
+        className,
+      )}
+      {...props}
+    />
+  )
+}
+
+/**
+ * Dropdown menu separator component - horizontal divider between groups
+ * @param {React.ComponentProps<typeof DropdownMenuPrimitive.Separator>} props - Radix UI DropdownMenu.Separator props
+ * @returns {React.ReactElement} Styled separator
+ */
+function DropdownMenuSeparator({
+  className,
+  ...props
+}: React.ComponentProps<typeof DropdownMenuPrimitive.Separator>) {
+  return (
+    <DropdownMenuPrimitive.Separator
+      data-slot="dropdown-menu-separator"
+      className={cn('bg-border -mx-1 my-1 h-px', className)}
+      {...props}
+    />
+  )
+}
+
+/**
+ * Dropdown menu shortcut component - right-aligned hint such as a key combo
+ * @param {React.ComponentProps<'span'>} props - Standard span HTML attributes
+ * @returns {React.ReactElement} Styled shortcut hint
+ */
+function DropdownMenuShortcut({
+  className,
+  ...props
+}: React.ComponentProps<'span'>) {
+  return (
+    <span
+      data-slot="dropdown-menu-shortcut"
+      className={cn(
+        'text-muted-foreground ml-auto text-xs tracking-widest',
+        className,
+      )}
+      {...props}
+    />
+  )
+}
+
+export {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuGroup,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuShortcut,
+  DropdownMenuTrigger,
+}
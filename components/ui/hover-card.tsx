@@ -0,0 +1,61 @@
+// HoverCard component system from Radix UI
+// Client-side component for previews shown while hovering a trigger
+// Provides composable hover card structure with trigger and content components
+
+'use client'
+import * as React from 'react'
+import * as HoverCardPrimitive from '@radix-ui/react-hover-card'
+import { cn } from '@/lib/utils'
+
+/**
+ * Root HoverCard component - opens while its trigger is hovered
+ * @param {React.ComponentProps<typeof HoverCardPrimitive.Root>} props - Radix UI HoverCard.Root props
+ * @returns {React.ReactElement} Hover card root wrapper
+ */
+function HoverCard({
+  ...props
+}: React.ComponentProps<typeof HoverCardPrimitive.Root>) {
+  return <HoverCardPrimitive.Root data-slot="hover-card" {...props} />
+}
+
+/**
+ * Hover card trigger component - element that shows the card when hovered
+ * @param {React.ComponentProps<typeof HoverCardPrimitive.Trigger>} props - Radix UI HoverCard.Trigger props
+ * @returns {React.ReactElement} Hover card trigger
+ */
+function HoverCardTrigger({
+  ...props
+}: React.ComponentProps<typeof HoverCardPrimitive.Trigger>) {
+  return <HoverCardPrimitive.Trigger data-slot="hover-card-trigger" {...props} />
+}
+
+/**
+ * Hover card content component - the floating card, rendered in a portal
+ * @param {React.ComponentProps<typeof HoverCardPrimitive.Content>} props - Radix UI HoverCard.Content props
+ * @param {string} [props.align='center'] - Alignment relative to the trigger
+ * @param {number} [props.sideOffset=4] - Distance from the trigger in pixels
+ * @returns {React.ReactElement} Styled hover card
+ */
+function HoverCardContent({
+  className,
+  align = 'center',
+  sideOffset = 4,
+  ...props
+}: React.ComponentProps<typeof HoverCardPrimitive.Content>) {
+  return (
+    <HoverCardPrimitive.Portal>
+      <HoverCardPrimitive.Content
+        data-slot="hover-card-content"
+        align={align}
+        sideOffset={sideOffset}
+        className={cn(
+          'bg-popover text-popover-foreground data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0 data-[state=closed]:zoom-out-95 data-[state=open]:zoom-in-95 data-[side=bottom]:slide-in-from-top-2 data-[side=left]:slide-in-from-right-2 data-[side=right]:slide-in-from-left-2 data-[side=top]:slide-in-from-bottom-2 z-50 w-64 origin-(--radix-hover-card-content-transform-origin) rounded-md border p-4 shadow-md outline-hidden',
+          className,
+        )}
+        {...props}
+      />
+    </HoverCardPrimitive.Portal>
+  )
+}
+
+export { HoverCard, HoverCardTrigger, HoverCardContent }
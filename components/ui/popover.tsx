@@ -0,0 +1,72 @@
+// Popover component system from Radix UI
+// Client-side component for small panels anchored to a trigger, e.g. inline editors
+// Provides composable popover structure with trigger, anchor and content components
+
+'use client'
+import * as React from 'react'
+import * as PopoverPrimitive from '@radix-ui/react-popover'
+import { cn } from '@/lib/utils'
+
+/**
+ * Root Popover component - manages the open state
+ * @param {React.ComponentProps<typeof PopoverPrimitive.Root>} props - Radix UI Popover.Root props
+ * @returns {React.ReactElement} Popover root wrapper
+ */
+function Popover({
+  ...props
+}: React.ComponentProps<typeof PopoverPrimitive.Root>) {
+  return <PopoverPrimitive.Root data-slot="popover" {...props} />
+}
+
+/**
+ * Popover trigger component - element that opens the popover
+ * @param {React.ComponentProps<typeof PopoverPrimitive.Trigger>} props - Radix UI Popover.Trigger props
+ * @returns {React.ReactElement} Popover trigger
+ */
+function PopoverTrigger({
+  ...props
+}: React.ComponentProps<typeof PopoverPrimitive.Trigger>) {
+  return <PopoverPrimitive.Trigger data-slot="popover-trigger" {...props} />
+}
+
+/**
+ * Popover anchor component - positions the popover without being a trigger
+ * @param {React.ComponentProps<typeof PopoverPrimitive.Anchor>} props - Radix UI Popover.Anchor props
+ * @returns {React.ReactElement} Popover anchor
+ */
+function PopoverAnchor({
+  ...props
+}: React.ComponentProps<typeof PopoverPrimitive.Anchor>) {
+  return <PopoverPrimitive.Anchor data-slot="popover-anchor" {...props} />
+}
+
+/**
+ * Popover content component - the floating panel, rendered in a portal
+ * @param {React.ComponentProps<typeof PopoverPrimitive.Content>} props - Radix UI Popover.Content props
+ * @param {string} [props.align='center'] - Alignment relative to the trigger
+ * @param {number} [props.sideOffset=4] - Distance from the trigger in pixels
+ * @returns {React.ReactElement} Styled popover panel
+ */
+function PopoverContent({
+  className,
+  align = 'center',
+  sideOffset = 4,
+  ...props
+}: React.ComponentProps<typeof PopoverPrimitive.Content>) {
+  return (
+    <PopoverPrimitive.Portal>
+      <PopoverPrimitive.Content
+        data-slot="popover-content"
+        align={align}
+        sideOffset={sideOffset}
+        className={cn(
+          'bg-popover text-popover-foreground data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0 data-[state=closed]:zoom-out-95 data-[state=open]:zoom-in-95 data-[side=bottom]:slide-in-from-top-2 data-[side=left]:slide-in-from-right-2 data-[side=right]:slide-in-from-left-2 data-[side=top]:slide-in-from-bottom-2 z-50 w-72 origin-(--radix-popover-content-transform-origin) rounded-md border p-4 shadow-md outline-hidden',
+          className,
+        )}
+        {...props}
+      />
+    </PopoverPrimitive.Portal>
+  )
+}
+
+export { Popover, PopoverTrigger, PopoverAnchor, PopoverContent }
@@ -0,0 +1,88 @@
+// Tabs component system from Radix UI
+// Client-side component for switching between panels that share one area
+// Provides composable tab structure with list, trigger and content components
+
+'use client'
+import * as React from 'react'
+import * as TabsPrimitive from '@radix-ui/react-tabs'
+import { cn } from '@/lib/utils'
+
+/**
+ * Root Tabs component - manages the active tab
+ * @param {React.ComponentProps<typeof TabsPrimitive.Root>} props - Radix UI Tabs.Root props
+ * @returns {React.ReactElement} Tabs root wrapper
+ */
+function Tabs({
+  className,
+  ...props
+}: React.ComponentProps<typeof TabsPrimitive.Root>) {
+  return (
+    <TabsPrimitive.Root
+      data-slot="tabs"
+      className={cn('flex flex-col gap-2', className)}
+      {...props}
+    />
+  )
+}
+
+/**
+ * Tabs list component - row of tab triggers
+ * @param {React.ComponentProps<typeof TabsPrimitive.List>} props - Radix UI Tabs.List props
+ * @returns {React.ReactElement} Styled tab list
+ */
+function TabsList({
+  className,
+  ...props
+}: React.ComponentProps<typeof TabsPrimitive.List>) {
+  return (
+    <TabsPrimitive.List
+      data-slot="tabs-list"
+      className={cn(
+        'bg-muted text-muted-foreground inline-flex h-9 w-fit items-center justify-center rounded-lg p-[3px]',
+        className,
+      )}
+      {...props}
+    />
+  )
+}
+
+/**
+ * Tabs trigger component - button that activates a tab
+ * @param {React.ComponentProps<typeof TabsPrimitive.Trigger>} props - Radix UI Tabs.Trigger props
+ * @returns {React.ReactElement} Styled tab trigger
+ */
+function TabsTrigger({
+  className,
+  ...props
+}: React.ComponentProps<typeof TabsPrimitive.Trigger>) {
+  return (
+    <TabsPrimitive.Trigger
+      data-slot="tabs-trigger"
+      className={cn(
+        "data-[state=active]:bg-background dark:data-[state=active]:text-foreground focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:outline-ring dark:data-[state=active]:border-input dark:data-[state=active]:bg-input/30 text-foreground dark:text-muted-foreground inline-flex h-[calc(100%-1px)] flex-1 items-center justify-center gap-1.5 rounded-md border border-transparent px-2 py-1 text-sm font-medium whitespace-nowrap transition-[color,box-shadow] focus-visible:ring-[3px] focus-visible:outline-1 disabled:pointer-events-none disabled:opacity-50 data-[state=active]:shadow-sm [&_svg]:pointer-events-none [&_svg]:shrink-0 [&_svg:not([class*='size-'])]:size-4",
+        className,
+      )}
+      {...props}
+    />
+  )
+}
+
+/**
+ * Tabs content component - panel shown while its tab is active
+ * @param {React.ComponentProps<typeof TabsPrimitive.Content>} props - Radix UI Tabs.Content props
+ * @returns {React.ReactElement} Tab panel
+ */
+function TabsContent({
+  className,
+  ...props
+}: React.ComponentProps<typeof TabsPrimitive.Content>) {
+  return (
+    <TabsPrimitive.Content
+      data-slot="tabs-content"
+      className={cn('flex-1 outline-none', className)}
+      {...props}
+    />
+  )
+}
+
+export { Tabs, TabsList, TabsTrigger, TabsContent }
@@ -0,0 +1,28 @@
+// Textarea component for multi-line text input
+// Provides a styled textarea matching the Input component
+// Includes focus states, disabled states, validation states, and dark mode support
+
+import * as React from 'react'
+import { cn } from '@/lib/utils'
+
+/**
+ * Textarea component - multi-line form input that grows with its content
+ * @param {React.ComponentProps<'textarea'>} props - Standard HTML textarea attributes
+ * @returns {React.ReactElement} Styled textarea element
+ */
+function Textarea({ className, ...props }: React.ComponentProps<'textarea'>) {
+  return (
+    <textarea
+      data-slot="textarea"
+      className={cn(
+        'border-input placeholder:text-muted-foreground dark:bg-input/30 flex field-sizing-content min-h-16 w-full rounded-md border bg-transparent px-3 py-2 text-base shadow-xs transition-[color,box-shadow] outline-none disabled:cursor-not-allowed disabled:opacity-50 md:text-sm',
+        'focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]',
+        'aria-invalid:ring-destructive/20 dark:aria-invalid:ring-destructive/40 aria-invalid:border-destructive',
+        className,
+      )}
+      {...props}
+    />
+  )
+}
+
+export { Textarea }
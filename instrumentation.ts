@@ -0,0 +1,16 @@
+// Server startup checks
+// Next.js calls register() once when a server instance starts, so configuration
+// errors surface in the server log before the first request
+
+/**
+ * Validates the configuration the API routes depend on
+ * Only runs in the Node.js runtime, where the AI helpers are used
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return
+
+  // Stored embeddings have a fixed length; a model producing other vectors
+  // would only fail when a PDF is first indexed
+  const { assertEmbedderDimensions } = await import("@/lib/ai/embeddings")
+  assertEmbedderDimensions()
+}
@@ -0,0 +1,144 @@
+// Pluggable text embedders for the retrieval index
+// The OpenAI embedder is used in production; the local embedder is fully
+// deterministic and needs no network, so the app can run offline and in tests
+
+import { embedMany } from "ai"
+import { openai } from "@ai-sdk/openai"
+
+// Dimension of every stored embedding (matches the pdf_chunks.embedding column)
+export const EMBEDDING_DIMENSIONS = 1536
+
+// Vector length of the OpenAI embedding models
+const OPENAI_EMBEDDING_DIMENSIONS: Record<string, number> = {
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  "text-embedding-ada-002": 1536,
+}
+
+/**
+ * Converts text into embedding vectors
+ * @property id - Stable identifier stored with every vector it produced
+ * @property dimensions - Length of every returned vector
+ * @property embed - Embeds a batch of texts, returning one vector per text in order
+ */
+export interface Embedder {
+  id: string
+  dimensions: number
+  embed: (values: string[]) => Promise<number[][]>
+}
+
+/**
+ * Creates an embedder backed by the OpenAI embeddings API
+ * @param modelId - OpenAI embedding model
+ * @returns {Embedder} The OpenAI embedder
+ * @throws {Error} If the model is not a known OpenAI embedding model
+ */
+export function createOpenAIEmbedder(modelId = "text-embedding-3-small"): Embedder {
+  const dimensions = OPENAI_EMBEDDING_DIMENSIONS[modelId]
+  if (!dimensions) throw new Error(`Unknown EMBEDDINGS_MODEL: ${modelId}`)
+
+  return {
+    id: `openai:${modelId}`,
+    dimensions,
+    async embed(values) {
+      if (values.length === 0) return []
+      const { embeddings } = await embedMany({
+        model: openai.textEmbeddingModel(modelId),
+        values,
+      })
+      return embeddings
+    },
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ * @param value - The string to hash
+ * @returns Unsigned 32-bit hash
+ */
+function fnv1a(value: string) {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Splits text into lowercase word tokens
+ * @param text - The text to tokenize
+ * @returns Word tokens without punctuation
+ */
+export function tokenize(text: string) {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+}
+
+/**
+ * Creates a deterministic, offline embedder
+ * Uses signed feature hashing over words and word bigrams, so texts sharing
+ * vocabulary end up close together; the same input always gives the same vector
+ * @param dimensions - Length of the produced vectors
+ * @returns {Embedder} The local embedder
+ */
+export function createLocalEmbedder(dimensions = EMBEDDING_DIMENSIONS): Embedder {
+  return {
+    id: `local:hash-${dimensions}`,
+    dimensions,
+    async embed(values) {
+      return values.map((value) => {
+        const vector = new Array<number>(dimensions).fill(0)
+        const tokens = tokenize(value)
+        const features = [
+          ...tokens,
+          ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`),
+        ]
+
+        for (const feature of features) {
+          const hash = fnv1a(feature)
+          // Use the highest bit as the sign so collisions tend to cancel out
+          vector[hash % dimensions] += hash >>> 31 ? 1 : -1
+        }
+
+        // L2-normalize so cosine distance only depends on direction
+        const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0))
+        return norm === 0 ? vector : vector.map((x) => x / norm)
+      })
+    },
+  }
+}
+
+/**
+ * Returns the embedder configured by the environment
+ * EMBEDDINGS_PROVIDER selects "openai" or "local"; when unset, OpenAI is used
+ * if OPENAI_API_KEY is present and the local embedder otherwise
+ * @returns {Embedder} The configured embedder
+ */
+export function getEmbedder(): Embedder {
+  const provider = process.env.EMBEDDINGS_PROVIDER || (process.env.OPENAI_API_KEY ? "openai" : "local")
+
+  switch (provider) {
+    case "openai":
+      return createOpenAIEmbedder(process.env.EMBEDDINGS_MODEL || undefined)
+    case "local":
+      return createLocalEmbedder()
+    default:
+      throw new Error(`Unknown EMBEDDINGS_PROVIDER: ${provider}`)
+  }
+}
+
+/**
+ * Checks that the configured embedder fits the pdf_chunks.embedding column
+ * Run at server startup (instrumentation.ts) so a misconfigured EMBEDDINGS_MODEL
+ * fails right away instead of on the first insert into pdf_chunks
+ * @param embedder - Embedder to check (defaults to the configured one)
+ * @throws {Error} If the embedder produces vectors of another length
+ */
+export function assertEmbedderDimensions(embedder: Embedder = getEmbedder()) {
+  if (embedder.dimensions !== EMBEDDING_DIMENSIONS) {
+    throw new Error(
+      `Embedder ${embedder.id} produces ${embedder.dimensions}-dimensional vectors, ` +
+        `but pdf_chunks.embedding stores ${EMBEDDING_DIMENSIONS}`,
+    )
+  }
+}
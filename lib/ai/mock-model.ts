@@ -0,0 +1,145 @@
+// Deterministic mock language model
+// Lets the whole app run offline and in tests: text requests get a canned
+// answer derived from the prompt, structured-output requests get a value built
+// from the requested JSON schema
+
+import type {
+  JSONSchema7,
+  JSONSchema7Definition,
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2StreamPart,
+} from "@ai-sdk/provider"
+
+/**
+ * Builds a deterministic value that satisfies a JSON schema
+ * Covers the subset of JSON schema produced from the zod schemas in this app
+ * @param schema - JSON schema (or boolean schema)
+ * @param key - Name of the property being generated, used in sample strings
+ * @returns A value of the requested shape
+ */
+function sampleFromSchema(schema: JSONSchema7Definition | undefined, key = "value"): unknown {
+  if (schema === undefined || typeof schema === "boolean") return null
+
+  if (schema.const !== undefined) return schema.const
+  if (schema.enum && schema.enum.length > 0) return schema.enum[0]
+  if (schema.anyOf && schema.anyOf.length > 0) return sampleFromSchema(schema.anyOf[0], key)
+  if (schema.oneOf && schema.oneOf.length > 0) return sampleFromSchema(schema.oneOf[0], key)
+
+  const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== "null") : schema.type
+
+  switch (type) {
+    case "object": {
+      const result: Record<string, unknown> = {}
+      for (const [name, property] of Object.entries(schema.properties ?? {})) {
+        result[name] = sampleFromSchema(property, name)
+      }
+      return result
+    }
+    case "array": {
+      const items = Array.isArray(schema.items) ? schema.items[0] : schema.items
+      const count = Math.max(schema.minItems ?? 1, 1)
+      return Array.from({ length: count }, (_, i) => sampleFromSchema(items, `${key} ${i + 1}`))
+    }
+    case "integer":
+    case "number":
+      return schema.minimum ?? 1
+    case "boolean":
+      return true
+    case "null":
+      return null
+    default:
+      return `Mock ${key}`
+  }
+}
+
+/**
+ * Returns the text of the last user message of a prompt
+ * @param options - Call options passed to the model
+ * @returns The question, or an empty string
+ */
+function lastUserText(options: LanguageModelV2CallOptions) {
+  const message = [...options.prompt].reverse().find((m) => m.role === "user")
+  if (!message || message.role !== "user") return ""
+  return message.content
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join(" ")
+    .trim()
+}
+
+/**
+ * Builds the mock response text for a call
+ * @param options - Call options passed to the model
+ * @returns JSON for structured-output calls, a canned tutor answer otherwise
+ */
+function mockResponse(options: LanguageModelV2CallOptions) {
+  if (options.responseFormat?.type === "json") {
+    return JSON.stringify(sampleFromSchema(options.responseFormat.schema as JSONSchema7 | undefined))
+  }
+
+  const question = lastUserText(options)
+  // Cite the first passage when the system prompt provides numbered passages
+  const hasPassages = options.prompt.some((m) => m.role === "system" && m.content.includes("[1]"))
+  return `This is a mock answer to "${question}".${hasPassages ? " The document covers this topic [1]." : ""}`
+}
+
+/**
+ * Rough token count used for mock usage statistics
+ * @param text - The text to count
+ * @returns Number of whitespace-separated words
+ */
+function countTokens(text: string) {
+  return text.split(/\s+/).filter(Boolean).length
+}
+
+/**
+ * Creates a deterministic mock language model
+ * @param modelId - Model name reported in metadata
+ * @returns {LanguageModelV2} The mock model
+ */
+export function createMockModel(modelId = "tutor"): LanguageModelV2 {
+  /**
+   * Usage statistics of a call
+   */
+  const usage = (options: LanguageModelV2CallOptions, text: string) => {
+    const inputTokens = countTokens(JSON.stringify(options.prompt))
+    const outputTokens = countTokens(text)
+    return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens }
+  }
+
+  return {
+    specificationVersion: "v2",
+    provider: "mock",
+    modelId,
+    supportedUrls: {},
+
+    async doGenerate(options) {
+      const text = mockResponse(options)
+      return {
+        content: [{ type: "text", text }],
+        finishReason: "stop",
+        usage: usage(options, text),
+        warnings: [],
+      }
+    },
+
+    async doStream(options) {
+      const text = mockResponse(options)
+      // Stream word by word (keeping the separating whitespace)
+      const words = text.match(/\S+\s*/g) ?? []
+
+      const stream = new ReadableStream<LanguageModelV2StreamPart>({
+        start(controller) {
+          controller.enqueue({ type: "stream-start", warnings: [] })
+          controller.enqueue({ type: "text-start", id: "0" })
+          for (const word of words) controller.enqueue({ type: "text-delta", id: "0", delta: word })
+          controller.enqueue({ type: "text-end", id: "0" })
+          controller.enqueue({ type: "finish", finishReason: "stop", usage: usage(options, text) })
+          controller.close()
+        },
+      })
+
+      return { stream }
+    },
+  }
+}
@@ -0,0 +1,144 @@
+// LLM provider registry
+// Maps model ids of the form "provider:model" to AI SDK language models.
+// Which models may be used is configured by environment variables:
+//
+// - LLM_ALLOWED_MODELS: comma-separated allowlist, e.g.
+//   "openai:gpt-4o-mini,anthropic:claude-3-5-haiku-latest,local:llama3.1,mock:tutor"
+// - LLM_DEFAULT_MODEL: model used when a request does not pick one
+//   (defaults to the first allowed model)
+// - OPENAI_COMPATIBLE_BASE_URL / OPENAI_COMPATIBLE_API_KEY: endpoint of the
+//   "local" provider, any OpenAI-compatible server (llama.cpp, Ollama, vLLM...)
+// - LLM_TEMPERATURE / LLM_MAX_OUTPUT_TOKENS: generation settings
+//
+// The "mock" provider is deterministic and needs no network or API key.
+
+import type { LanguageModel } from "ai"
+import { openai } from "@ai-sdk/openai"
+import { anthropic } from "@ai-sdk/anthropic"
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible"
+import { createMockModel } from "@/lib/ai/mock-model"
+
+// Providers known to the registry
+export const PROVIDERS = ["openai", "anthropic", "local", "mock"] as const
+export type ProviderName = (typeof PROVIDERS)[number]
+
+// Allowlist used when LLM_ALLOWED_MODELS is not set
+const DEFAULT_ALLOWED_MODELS = ["openai:gpt-4o-mini"]
+
+/**
+ * A model that clients may select
+ * @property id - Registry id, e.g. "openai:gpt-4o-mini"
+ * @property provider - Provider part of the id
+ * @property model - Provider-specific model name
+ */
+export interface ModelOption {
+  id: string
+  provider: ProviderName
+  model: string
+}
+
+/**
+ * Thrown when a requested model is unknown or not on the allowlist
+ */
+export class ModelNotAllowedError extends Error {
+  constructor(modelId: string) {
+    super(`Model "${modelId}" is not allowed`)
+    this.name = "ModelNotAllowedError"
+  }
+}
+
+/**
+ * Splits a registry id into provider and model name
+ * @param id - Registry id, e.g. "anthropic:claude-3-5-haiku-latest"
+ * @returns {ModelOption | null} The parsed id, or null if malformed or the provider is unknown
+ */
+export function parseModelId(id: string): ModelOption | null {
+  const separator = id.indexOf(":")
+  if (separator <= 0 || separator === id.length - 1) return null
+
+  const provider = id.slice(0, separator) as ProviderName
+  if (!PROVIDERS.includes(provider)) return null
+
+  return { id, provider, model: id.slice(separator + 1) }
+}
+
+/**
+ * Returns the models clients may select, in configured order
+ * @returns {ModelOption[]} The allowed models
+ */
+export function getAllowedModels(): ModelOption[] {
+  const configured = process.env.LLM_ALLOWED_MODELS?.split(",").map((id) => id.trim()).filter(Boolean)
+  const ids = configured && configured.length > 0 ? configured : DEFAULT_ALLOWED_MODELS
+
+  return ids.map((id) => {
+    const option = parseModelId(id)
+    if (!option) throw new Error(`Invalid model id in LLM_ALLOWED_MODELS: ${id}`)
+    return option
+  })
+}
+
+/**
+ * Returns the model used when a request does not pick one
+ * @returns Registry id of the default model
+ */
+export function getDefaultModelId() {
+  const allowed = getAllowedModels()
+  const configured = process.env.LLM_DEFAULT_MODEL
+  if (configured && allowed.some((m) => m.id === configured)) return configured
+  return allowed[0].id
+}
+
+/**
+ * Validates a requested model against the allowlist
+ * @param requested - Registry id picked by the client, if any
+ * @returns Registry id of the model to use
+ * @throws {ModelNotAllowedError} If the requested model is not allowed
+ */
+export function resolveModelId(requested?: string | null) {
+  if (!requested) return getDefaultModelId()
+  if (!getAllowedModels().some((m) => m.id === requested)) {
+    throw new ModelNotAllowedError(requested)
+  }
+  return requested
+}
+
+/**
+ * Creates the AI SDK model for a registry id
+ * @param id - Registry id of an allowed model
+ * @returns {LanguageModel} The language model
+ */
+export function getLanguageModel(id: string): LanguageModel {
+  const option = parseModelId(id)
+  if (!option) throw new ModelNotAllowedError(id)
+
+  switch (option.provider) {
+    case "openai":
+      return openai(option.model)
+    case "anthropic":
+      return anthropic(option.model)
+    case "local": {
+      const baseURL = process.env.OPENAI_COMPATIBLE_BASE_URL
+      if (!baseURL) throw new Error("OPENAI_COMPATIBLE_BASE_URL is not set")
+      return createOpenAICompatible({
+        name: "local",
+        baseURL,
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+      })(option.model)
+    }
+    case "mock":
+      return createMockModel(option.model)
+  }
+}
+
+/**
+ * Generation settings shared by all tutor calls
+ * @returns Temperature and maximum answer length
+ */
+export function getGenerationSettings() {
+  return {
+    // 0.7 gives creative but coherent responses (not too random)
+    temperature: Number(process.env.LLM_TEMPERATURE ?? 0.7),
+    // Limit response length to prevent overly long answers
+    maxOutputTokens: Number(process.env.LLM_MAX_OUTPUT_TOKENS ?? 1000),
+  }
+}
@@ -0,0 +1,213 @@
+// Retrieval-augmented generation helpers
+// Splits PDF pages into passages, stores them with embeddings in pdf_chunks and
+// retrieves the passages most relevant to a question with hybrid search
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { getEmbedder, tokenize, type Embedder } from "@/lib/ai/embeddings"
+import { loadPdfPages } from "@/lib/pdf/extract"
+
+// Target passage length in characters
+const CHUNK_SIZE = 1000
+// Characters of the previous passage repeated at the start of the next one
+const CHUNK_OVERLAP = 200
+// Number of passages embedded per request to the embedder
+const EMBED_BATCH_SIZE = 64
+
+/**
+ * A passage of a PDF page as stored in pdf_chunks
+ * @property pageNumber - Page the passage was taken from (1-based)
+ * @property chunkIndex - Position of the passage within the whole document
+ * @property content - Passage text
+ */
+export interface PdfChunk {
+  pageNumber: number
+  chunkIndex: number
+  content: string
+}
+
+/**
+ * A passage returned by retrieval, ranked by relevance
+ * @property id - pdf_chunks row id
+ * @property score - Fused keyword/vector relevance score (higher is better)
+ */
+export interface RetrievedPassage extends PdfChunk {
+  id: string
+  pdfId: string
+  score: number
+}
+
+/**
+ * A row returned by the match_pdf_chunks function
+ */
+interface MatchedChunkRow {
+  id: string
+  pdf_id: string
+  page_number: number
+  chunk_index: number
+  content: string
+  score: number
+}
+
+/**
+ * Splits the text of one page into overlapping passages
+ * Passages end at sentence boundaries where possible and never cross pages,
+ * so every passage can be attributed to a single page
+ * @param text - Page text
+ * @returns Passage texts in reading order
+ */
+export function chunkPageText(text: string) {
+  const sentences = text
+    .replace(/\s+/g, " ")
+    .trim()
+    .split(/(?<=[.!?])\s+/)
+    .filter(Boolean)
+
+  const chunks: string[] = []
+  let current = ""
+
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length + 1 > CHUNK_SIZE) {
+      chunks.push(current)
+      // Start the next passage with the tail of the previous one for context
+      const tail = current.slice(-CHUNK_OVERLAP)
+      current = tail.slice(tail.indexOf(" ") + 1)
+    }
+    current = current ? `${current} ${sentence}` : sentence
+
+    // Hard-split sentences longer than a whole passage
+    while (current.length > CHUNK_SIZE) {
+      chunks.push(current.slice(0, CHUNK_SIZE))
+      current = current.slice(CHUNK_SIZE - CHUNK_OVERLAP)
+    }
+  }
+
+  if (current) chunks.push(current)
+  return chunks
+}
+
+/**
+ * Splits all pages of a PDF into passages
+ * @param pages - Text of each page (index 0 is page 1)
+ * @returns {PdfChunk[]} Passages numbered across the whole document
+ */
+export function chunkPages(pages: string[]): PdfChunk[] {
+  const chunks: PdfChunk[] = []
+  pages.forEach((text, index) => {
+    for (const content of chunkPageText(text)) {
+      chunks.push({ pageNumber: index + 1, chunkIndex: chunks.length, content })
+    }
+  })
+  return chunks
+}
+
+/**
+ * Builds the retrieval index of a PDF, replacing any existing passages
+ * @param supabase - Authenticated Supabase client
+ * @param params - Owner, PDF id and the text of each page
+ * @param embedder - Embedder to use (defaults to the configured one)
+ * @returns Number of stored passages
+ */
+export async function indexPdfChunks(
+  supabase: SupabaseClient,
+  { userId, pdfId, pages }: { userId: string; pdfId: string; pages: string[] },
+  embedder: Embedder = getEmbedder(),
+) {
+  const chunks = chunkPages(pages)
+
+  const { error: deleteError } = await supabase.from("pdf_chunks").delete().eq("pdf_id", pdfId)
+  if (deleteError) throw deleteError
+
+  for (let start = 0; start < chunks.length; start += EMBED_BATCH_SIZE) {
+    const batch = chunks.slice(start, start + EMBED_BATCH_SIZE)
+    const embeddings = await embedder.embed(batch.map((chunk) => chunk.content))
+
+    const { error } = await supabase.from("pdf_chunks").insert(
+      batch.map((chunk, i) => ({
+        user_id: userId,
+        pdf_id: pdfId,
+        page_number: chunk.pageNumber,
+        chunk_index: chunk.chunkIndex,
+        content: chunk.content,
+        embedding_model: embedder.id,
+        embedding: JSON.stringify(embeddings[i]),
+      })),
+    )
+    if (error) throw error
+  }
+
+  return chunks.length
+}
+
+/**
+ * Makes sure PDFs have passages embedded by the given embedder
+ * Indexes documents uploaded before the index existed, or re-indexes after
+ * the embedder changed. One query finds the PDFs that are indexed already -
+ * every index has a first passage - and only the others are indexed
+ * @param supabase - Authenticated Supabase client
+ * @param params - Owner and PDF ids
+ * @param embedder - Embedder to use (defaults to the configured one)
+ */
+export async function ensurePdfsIndexed(
+  supabase: SupabaseClient,
+  { userId, pdfIds }: { userId: string; pdfIds: string[] },
+  embedder: Embedder = getEmbedder(),
+) {
+  if (pdfIds.length === 0) return
+
+  const { data, error } = await supabase
+    .from("pdf_chunks")
+    .select("pdf_id")
+    .in("pdf_id", pdfIds)
+    .eq("embedding_model", embedder.id)
+    .eq("chunk_index", 0)
+  if (error) throw error
+
+  const indexed = new Set((data ?? []).map((row) => row.pdf_id as string))
+  for (const pdfId of pdfIds.filter((id) => !indexed.has(id))) {
+    const pages = await loadPdfPages(supabase, pdfId)
+    await indexPdfChunks(supabase, { userId, pdfId, pages }, embedder)
+  }
+}
+
+/**
+ * Turns a natural-language question into an OR keyword query
+ * websearch_to_tsquery would otherwise require every word to match
+ * @param query - The student's question
+ * @returns Keyword query for websearch_to_tsquery
+ */
+function toKeywordQuery(query: string) {
+  return Array.from(new Set(tokenize(query))).join(" or ")
+}
+
+/**
+ * Retrieves the passages of one or more PDFs most relevant to a question
+ * @param supabase - Authenticated Supabase client
+ * @param params - PDF ids, the question and the number of passages to return
+ * @param embedder - Embedder to use (defaults to the configured one)
+ * @returns {Promise<RetrievedPassage[]>} Passages of all the PDFs ordered by relevance
+ */
+export async function retrievePassages(
+  supabase: SupabaseClient,
+  { pdfIds, query, limit = 6 }: { pdfIds: string[]; query: string; limit?: number },
+  embedder: Embedder = getEmbedder(),
+): Promise<RetrievedPassage[]> {
+  const [queryEmbedding] = await embedder.embed([query])
+
+  const { data, error } = await supabase.rpc("match_pdf_chunks", {
+    query_text: toKeywordQuery(query),
+    query_embedding: JSON.stringify(queryEmbedding),
+    target_pdf_ids: pdfIds,
+    target_embedding_model: embedder.id,
+    match_count: limit,
+  })
+  if (error) throw error
+
+  return ((data ?? []) as MatchedChunkRow[]).map((row) => ({
+    id: row.id,
+    pdfId: row.pdf_id,
+    pageNumber: row.page_number,
+    chunkIndex: row.chunk_index,
+    content: row.content,
+    score: row.score,
+  }))
+}
@@ -0,0 +1,220 @@
+// Annotation export formats
+// Builds the files offered by /api/annotations/export from the stored
+// annotations of a PDF and the text of its pages: a Markdown study sheet, a
+// lossless JSON file that can be imported into another PDF, and a CSV file.
+// The page text supplies the sentence around each annotated passage
+
+import {
+  ANNOTATIONS_FILE_VERSION,
+  type AnnotationExportFormat,
+  type AnnotationRecord,
+  type AnnotationsFile,
+} from "@/lib/api/schemas"
+import { compareReadingOrder } from "@/lib/annotations/geometry"
+import { colorName } from "@/lib/annotations/palette"
+
+// Columns of an annotation as exported and imported
+export const ANNOTATION_COLUMNS =
+  "id, pdf_id, page_number, type, color, text_content, note_content, position, text_start, text_end, created_at, updated_at"
+
+// Longest context quoted around an annotated passage (in characters)
+const MAX_CONTEXT_LENGTH = 400
+
+// Label of each annotation type
+const TYPE_LABELS: Record<AnnotationRecord["type"], string> = {
+  highlight: "Highlight",
+  underline: "Underline",
+  note: "Note",
+}
+
+// File extension and content type of each format
+export const EXPORT_FILE_TYPES: Record<AnnotationExportFormat, { extension: string; contentType: string }> = {
+  markdown: { extension: "md", contentType: "text/markdown; charset=utf-8" },
+  json: { extension: "json", contentType: "application/json; charset=utf-8" },
+  csv: { extension: "csv", contentType: "text/csv; charset=utf-8" },
+}
+
+/**
+ * The document the annotations belong to
+ */
+export interface ExportedPdf {
+  id: string
+  name: string
+  page_count: number
+}
+
+/**
+ * Everything an export is built from
+ * @property pdf - The annotated document
+ * @property annotations - Its annotations, in any order
+ * @property pages - Text of each page, index 0 is page 1
+ * @property exportedAt - Time of the export
+ */
+export interface AnnotationExportInput {
+  pdf: ExportedPdf
+  annotations: AnnotationRecord[]
+  pages: string[]
+  exportedAt?: Date
+}
+
+/**
+ * Name of a file downloaded for a PDF, e.g. "lecture-3-annotations.md"
+ * @param pdfName - Display name of the PDF
+ * @param suffix - Appended to the PDF name without its extension
+ * @returns The file name
+ */
+export function downloadFileName(pdfName: string, suffix: string): string {
+  const base = pdfName.replace(/\.pdf$/i, "").replace(/[\\/:*?"<>|\s]+/g, "-").replace(/^-+|-+$/g, "") || "document"
+  return `${base}-${suffix}`
+}
+
+/**
+ * Content-Disposition header offering a file as a download
+ * The plain filename is kept ASCII for old clients, filename* carries the full name
+ * @param fileName - Name of the file
+ * @returns The header value
+ */
+export function attachmentDisposition(fileName: string): string {
+  return `attachment; filename="${fileName.replace(/[^\x20-\x7e]|"/g, "_")}"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+}
+
+/**
+ * Finds the sentence(s) of the page text containing an annotated passage
+ * Whitespace is ignored when matching, since the page text is extracted
+ * separately from the text layer the passage was selected in
+ * @param pageText - Text of the page
+ * @param passage - The annotated text
+ * @returns The surrounding sentence, or null if the passage is not found or
+ * already is the whole sentence
+ */
+export function findContext(pageText: string, passage: string | null): string | null {
+  if (!passage) return null
+  const text = pageText.replace(/\s+/g, " ")
+  const needle = passage.replace(/\s+/g, " ").trim()
+  const index = text.toLowerCase().indexOf(needle.toLowerCase())
+  if (!needle || index === -1) return null
+
+  // Widen to the sentence boundaries around the passage
+  const before = text.slice(0, index)
+  const start = Math.max(before.search(/[^.!?]*$/), index - MAX_CONTEXT_LENGTH)
+  const afterEnd = text.slice(index + needle.length).search(/[.!?](\s|$)/)
+  const end =
+    afterEnd === -1
+      ? Math.min(text.length, index + needle.length + MAX_CONTEXT_LENGTH)
+      : Math.min(index + needle.length + afterEnd + 1, index + needle.length + MAX_CONTEXT_LENGTH)
+
+  const context = text.slice(start, end).trim()
+  return context.length > needle.length ? context : null
+}
+
+/**
+ * Builds the lossless JSON export
+ * @param input - The document and its annotations
+ * @returns The export file, annotations in reading order
+ */
+export function toAnnotationsFile({ pdf, annotations, exportedAt = new Date() }: AnnotationExportInput): AnnotationsFile {
+  return {
+    version: ANNOTATIONS_FILE_VERSION,
+    exported_at: exportedAt.toISOString(),
+    pdf: { id: pdf.id, name: pdf.name, page_count: pdf.page_count },
+    annotations: [...annotations].sort(compareReadingOrder),
+  }
+}
+
+/**
+ * Indents every line of a block so it stays inside a Markdown list item
+ * @param text - The block
+ * @returns The indented block
+ */
+function indent(text: string) {
+  return text
+    .split("\n")
+    .map((line) => (line ? `  ${line}` : line))
+    .join("\n")
+}
+
+/**
+ * Builds the Markdown study sheet: one section per page with the annotated
+ * text quoted, its context and the note below it
+ * @param input - The document, its annotations and the page text
+ * @returns The Markdown document
+ */
+export function toMarkdown({ pdf, annotations, pages, exportedAt = new Date() }: AnnotationExportInput): string {
+  const sorted = [...annotations].sort(compareReadingOrder)
+  const lines = [
+    `# ${pdf.name} – Annotations`,
+    "",
+    `${sorted.length} annotation${sorted.length === 1 ? "" : "s"} · exported ${exportedAt.toISOString().slice(0, 10)}`,
+  ]
+
+  let page = 0
+  for (const annotation of sorted) {
+    if (annotation.page_number !== page) {
+      page = annotation.page_number
+      if (lines[lines.length - 1] !== "") lines.push("")
+      lines.push(`## Page ${page}`, "")
+    }
+
+    lines.push(`- **${TYPE_LABELS[annotation.type]}** · ${colorName(annotation.color)}`)
+    if (annotation.text_content) {
+      lines.push("", indent(annotation.text_content.split("\n").map((line) => `> ${line}`).join("\n")))
+      const context = findContext(pages[page - 1] ?? "", annotation.text_content)
+      if (context) lines.push("", indent(`*Context:* ${context}`))
+    }
+    if (annotation.note_content) lines.push("", indent(annotation.note_content))
+    lines.push("")
+  }
+
+  return `${lines.join("\n").trimEnd()}\n`
+}
+
+/**
+ * Quotes a CSV cell; cells that a spreadsheet would run as a formula are
+ * prefixed with an apostrophe
+ * @param value - The cell value
+ * @returns The escaped cell
+ */
+function csvCell(value: string | number | null) {
+  let text = value === null ? "" : String(value)
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Builds the CSV export, one row per annotation in reading order
+ * Starts with a byte order mark so spreadsheets read it as UTF-8
+ * @param input - The document, its annotations and the page text
+ * @returns The CSV document
+ */
+export function toCsv({ annotations, pages }: AnnotationExportInput): string {
+  const header = ["page", "type", "color", "text", "note", "context", "created_at", "updated_at", "id"]
+  const rows = [...annotations].sort(compareReadingOrder).map((a) => [
+    a.page_number,
+    a.type,
+    colorName(a.color),
+    a.text_content,
+    a.note_content,
+    findContext(pages[a.page_number - 1] ?? "", a.text_content),
+    a.created_at,
+    a.updated_at,
+    a.id,
+  ])
+  return `\uFEFF${[header, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n")}\r\n`
+}
+
+/**
+ * Builds an export in the requested format
+ * @param format - The file format
+ * @param input - The document, its annotations and the page text
+ * @returns The file contents
+ */
+export function buildAnnotationExport(format: AnnotationExportFormat, input: AnnotationExportInput): string {
+  switch (format) {
+    case "markdown":
+      return toMarkdown(input)
+    case "json":
+      return `${JSON.stringify(toAnnotationsFile(input), null, 2)}\n`
+    case "csv":
+      return toCsv(input)
+  }
+}
@@ -0,0 +1,81 @@
+// Geometry of annotation rects in normalized page coordinates (0-1)
+// Used to outline a selected annotation and to resize it by dragging the
+// corners of its outline; all lines of a text annotation are scaled together.
+// Also orders annotations the way a page is read, for lists and exports
+
+import type { AnnotationRecord, PageRect } from "@/lib/api/schemas"
+
+// Smallest width or height an annotation can be resized to
+const MIN_SIZE = 0.01
+
+// Corner of an annotation outline being dragged (north-west, north-east, ...)
+export type ResizeHandle = "nw" | "ne" | "sw" | "se"
+
+// All corners, in the order their handles are rendered
+export const RESIZE_HANDLES: ResizeHandle[] = ["nw", "ne", "sw", "se"]
+
+/**
+ * Computes the smallest rect containing all rects of an annotation
+ * @param rects - The rects, at least one
+ * @returns The bounding rect
+ */
+export function boundingBox(rects: PageRect[]): PageRect {
+  const left = Math.min(...rects.map((r) => r.x))
+  const top = Math.min(...rects.map((r) => r.y))
+  const right = Math.max(...rects.map((r) => r.x + r.width))
+  const bottom = Math.max(...rects.map((r) => r.y + r.height))
+  return { x: left, y: top, width: right - left, height: bottom - top }
+}
+
+/**
+ * Moves one corner of a box, keeping the opposite corner in place
+ * The box stays on the page and never gets smaller than MIN_SIZE
+ * @param box - The box before dragging
+ * @param handle - The corner being dragged
+ * @param dx - Horizontal distance dragged, as a fraction of the page width
+ * @param dy - Vertical distance dragged, as a fraction of the page height
+ * @returns The resized box
+ */
+export function resizeBox(box: PageRect, handle: ResizeHandle, dx: number, dy: number): PageRect {
+  let left = box.x
+  let top = box.y
+  let right = box.x + box.width
+  let bottom = box.y + box.height
+
+  if (handle.includes("w")) left = Math.min(Math.max(left + dx, 0), right - MIN_SIZE)
+  if (handle.includes("e")) right = Math.max(Math.min(right + dx, 1), left + MIN_SIZE)
+  if (handle.includes("n")) top = Math.min(Math.max(top + dy, 0), bottom - MIN_SIZE)
+  if (handle.includes("s")) bottom = Math.max(Math.min(bottom + dy, 1), top + MIN_SIZE)
+
+  return { x: left, y: top, width: right - left, height: bottom - top }
+}
+
+/**
+ * Scales rects from one bounding box into another
+ * @param rects - Rects inside the original box
+ * @param from - The original bounding box
+ * @param to - The new bounding box
+ * @returns The rects at the same relative place in the new box
+ */
+export function fitRects(rects: PageRect[], from: PageRect, to: PageRect): PageRect[] {
+  const scaleX = from.width > 0 ? to.width / from.width : 1
+  const scaleY = from.height > 0 ? to.height / from.height : 1
+  return rects.map((rect) => ({
+    x: to.x + (rect.x - from.x) * scaleX,
+    y: to.y + (rect.y - from.y) * scaleY,
+    width: rect.width * scaleX,
+    height: rect.height * scaleY,
+  }))
+}
+
+/**
+ * Orders annotations by page, then top to bottom and left to right
+ * @param a - An annotation
+ * @param b - Another annotation
+ * @returns Negative if a comes first, positive if b does (for Array.sort)
+ */
+export function compareReadingOrder(a: AnnotationRecord, b: AnnotationRecord): number {
+  const ra = a.position.rects[0] ?? { x: 0, y: 0 }
+  const rb = b.position.rects[0] ?? { x: 0, y: 0 }
+  return a.page_number - b.page_number || ra.y - rb.y || ra.x - rb.x
+}
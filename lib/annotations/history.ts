@@ -0,0 +1,76 @@
+// Undo/redo history of annotation changes
+// Every create, edit and delete is recorded as the annotation before and after
+// the change. Undoing applies the change in reverse, so a created annotation is
+// deleted again and a deleted one is re-inserted with its original id, which
+// keeps later entries pointing at the right row. Changes made together, like
+// a bulk delete, form one entry and are undone together. This module is pure;
+// the viewer applies the changes to Supabase
+
+import type { AnnotationRecord } from "@/lib/api/schemas"
+
+// Most changes kept for undoing
+const MAX_HISTORY = 100
+
+/**
+ * A change to one annotation
+ * @property before - The annotation before the change, null if it was created
+ * @property after - The annotation after the change, null if it was deleted
+ */
+export interface AnnotationChange {
+  before: AnnotationRecord | null
+  after: AnnotationRecord | null
+}
+
+/**
+ * Entries that can be undone (past) and redone (future), most recent last
+ * Every entry holds the changes made by one user action
+ */
+export interface AnnotationHistory {
+  past: AnnotationChange[][]
+  future: AnnotationChange[][]
+}
+
+// History of a freshly opened PDF
+export const EMPTY_HISTORY: AnnotationHistory = { past: [], future: [] }
+
+/**
+ * Records the changes of a user action; a new entry cannot be followed by a redo
+ * @param history - The history so far
+ * @param changes - The changes that were applied
+ * @returns The updated history
+ */
+export function recordChanges(history: AnnotationHistory, changes: AnnotationChange[]): AnnotationHistory {
+  if (changes.length === 0) return history
+  return { past: [...history.past, changes].slice(-MAX_HISTORY), future: [] }
+}
+
+/**
+ * The changes that revert a user action, last change first
+ * @param changes - The changes to revert
+ * @returns The same changes with before and after swapped, in reverse order
+ */
+export function invertChanges(changes: AnnotationChange[]): AnnotationChange[] {
+  return changes.map((change) => ({ before: change.after, after: change.before })).reverse()
+}
+
+/**
+ * Moves the latest entry to the redo list once it has been undone
+ * @param history - The history so far
+ * @returns The updated history
+ */
+export function undoChange(history: AnnotationHistory): AnnotationHistory {
+  const entry = history.past[history.past.length - 1]
+  if (!entry) return history
+  return { past: history.past.slice(0, -1), future: [...history.future, entry] }
+}
+
+/**
+ * Moves the latest undone entry back to the undo list once it has been redone
+ * @param history - The history so far
+ * @returns The updated history
+ */
+export function redoChange(history: AnnotationHistory): AnnotationHistory {
+  const entry = history.future[history.future.length - 1]
+  if (!entry) return history
+  return { past: [...history.past, entry], future: history.future.slice(0, -1) }
+}
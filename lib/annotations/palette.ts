@@ -0,0 +1,43 @@
+// Colors offered for highlights, underlines and notes
+// The palette is fixed so annotations stay readable over the page text and
+// can be used to sort information (e.g. definitions in yellow, questions in red)
+
+/**
+ * A color of the annotation palette
+ * @property name - Label shown in tooltips
+ * @property value - CSS color stored with the annotation
+ */
+export interface AnnotationColor {
+  name: string
+  value: string
+}
+
+// The five palette colors, in the order they are shown
+export const ANNOTATION_COLORS: AnnotationColor[] = [
+  { name: "Yellow", value: "#fde047" },
+  { name: "Red", value: "#f87171" },
+  { name: "Teal", value: "#2dd4bf" },
+  { name: "Mint Green", value: "#86efac" },
+  { name: "Lavender", value: "#c4b5fd" },
+]
+
+// Color used until the user picks another one (matches the profiles column default)
+export const DEFAULT_ANNOTATION_COLOR = ANNOTATION_COLORS[0].value
+
+/**
+ * Checks a stored color against the palette, e.g. a user's saved default
+ * @param color - The color to check
+ * @returns The color if it is in the palette, otherwise the default color
+ */
+export function toPaletteColor(color: string | null | undefined): string {
+  return ANNOTATION_COLORS.some((c) => c.value === color) ? (color as string) : DEFAULT_ANNOTATION_COLOR
+}
+
+/**
+ * Name of a color for exports and tooltips
+ * @param color - A stored annotation color
+ * @returns The palette name, or the color itself if it is not in the palette
+ */
+export function colorName(color: string): string {
+  return ANNOTATION_COLORS.find((c) => c.value === color)?.name ?? color
+}
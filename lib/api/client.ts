@@ -0,0 +1,357 @@
+// Typed client for the API routes
+// Requests are validated against the shared schemas before they are sent and
+// responses are validated before they are returned, so components only ever
+// see data that matches the contract in lib/api/schemas.ts
+
+import type { z } from "zod"
+import {
+  annotatedPdfQuerySchema,
+  annotationsExportQuerySchema,
+  annotationsImportRequestSchema,
+  annotationsImportResponseSchema,
+  chatRequestSchema,
+  errorResponseSchema,
+  extractTextFormSchema,
+  extractTextResponseSchema,
+  flashcardReviewRequestSchema,
+  flashcardReviewResponseSchema,
+  flashcardsRequestSchema,
+  flashcardsResponseSchema,
+  librarySearchQuerySchema,
+  librarySearchResponseSchema,
+  modelsResponseSchema,
+  pdfDeleteResponseSchema,
+  quizAttemptRequestSchema,
+  quizAttemptResponseSchema,
+  quizRequestSchema,
+  quizResponseSchema,
+  summarizeRequestSchema,
+  summarizeResponseSchema,
+  type AnnotatedPdfQuery,
+  type AnnotationsExportQuery,
+  type AnnotationsImportRequest,
+  type AnnotationsImportResponse,
+  type ChatRequest,
+  type ChatStreamEvent,
+  type ExtractTextForm,
+  type ExtractTextResponse,
+  type FlashcardReviewRequest,
+  type FlashcardReviewResponse,
+  type FlashcardsRequest,
+  type FlashcardsResponse,
+  type LibrarySearchQuery,
+  type LibrarySearchResponse,
+  type ModelsResponse,
+  type PdfDeleteResponse,
+  type QuizAttemptRequest,
+  type QuizAttemptResponse,
+  type QuizRequest,
+  type QuizResponse,
+  type SummarizeRequest,
+  type SummarizeResponse,
+} from "@/lib/api/schemas"
+import { readChatStream } from "@/lib/chat/stream"
+
+/**
+ * Thrown when a request is rejected, either locally or by the server
+ * @property status - HTTP status of the response (400 for local validation)
+ * @property fieldErrors - Problems per request field, for 400 responses
+ */
+export class ApiError extends Error {
+  status: number
+  fieldErrors?: Record<string, string[]>
+
+  constructor(message: string, status: number, fieldErrors?: Record<string, string[]>) {
+    // Append the field problems so toasts show what was wrong
+    const details = Object.entries(fieldErrors ?? {})
+      .map(([field, errors]) => `${field}: ${errors.join(", ")}`)
+      .join("; ")
+    super(details ? `${message} (${details})` : message)
+    this.name = "ApiError"
+    this.status = status
+    this.fieldErrors = fieldErrors
+  }
+}
+
+/**
+ * Validates a request before it is sent
+ * @param schema - Schema of the request
+ * @param value - The request
+ * @returns The validated request
+ * @throws {ApiError} With status 400 and the errors per field if invalid
+ */
+function validateRequest<T extends z.ZodTypeAny>(schema: T, value: unknown): z.infer<T> {
+  const result = schema.safeParse(value)
+  if (!result.success) {
+    throw new ApiError("Invalid request", 400, result.error.flatten().fieldErrors as Record<string, string[]>)
+  }
+  return result.data
+}
+
+/**
+ * Turns an unsuccessful response into an ApiError
+ * @param response - The failed response
+ * @param fallback - Message used when the body has no error message
+ * @returns {Promise<ApiError>} The error to throw
+ */
+async function toApiError(response: Response, fallback: string) {
+  const body = errorResponseSchema.safeParse(await response.json().catch(() => null))
+  if (!body.success) return new ApiError(fallback, response.status)
+  return new ApiError(body.data.error, response.status, body.data.fieldErrors)
+}
+
+/**
+ * Sends a JSON request and validates the JSON response
+ * @param url - Route to call
+ * @param init - Method and body of the request; keepalive lets it finish after the page is closed
+ * @param schema - Schema of the successful response
+ * @param fallback - Error message used when the failed response has none
+ * @returns The validated response body
+ * @throws {ApiError} If the request fails
+ */
+async function requestJson<T extends z.ZodTypeAny>(
+  url: string,
+  { method, body, keepalive }: { method: "GET" | "POST" | "DELETE"; body?: unknown; keepalive?: boolean },
+  schema: T,
+  fallback: string,
+): Promise<z.infer<T>> {
+  const response = await fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    keepalive,
+  })
+  if (!response.ok) throw await toApiError(response, fallback)
+  return schema.parse(await response.json())
+}
+
+/**
+ * Loads the models the tutor may use (GET /api/models)
+ * @returns {Promise<ModelsResponse>} The allowed models and the default model id
+ * @throws {ApiError} If the request fails
+ */
+export async function fetchModels(): Promise<ModelsResponse> {
+  return requestJson("/api/models", { method: "GET" }, modelsResponseSchema, "Failed to load models")
+}
+
+/**
+ * Parses an uploaded PDF and creates its record, or replaces the file of an
+ * existing one (POST /api/extract-text)
+ * @param form - The PDF, its display name, its storage URL and the document it replaces
+ * @returns {Promise<ExtractTextResponse>} The stored PDF record and its page count
+ * @throws {ApiError} If the form is invalid or extraction fails
+ */
+export async function extractText(form: ExtractTextForm): Promise<ExtractTextResponse> {
+  const { file, name, url, pdfId } = validateRequest(extractTextFormSchema, form)
+
+  const formData = new FormData()
+  formData.append("file", file)
+  if (name) formData.append("name", name)
+  formData.append("url", url)
+  if (pdfId) formData.append("pdfId", pdfId)
+
+  const response = await fetch("/api/extract-text", { method: "POST", body: formData })
+  if (!response.ok) throw await toApiError(response, "Failed to extract text from PDF")
+  return extractTextResponseSchema.parse(await response.json())
+}
+
+/**
+ * Sends a chat message and streams the answer (POST /api/chat)
+ * @param request - PDF, thread, message and model
+ * @param options - Abort signal used to stop the answer
+ * @returns {AsyncGenerator<ChatStreamEvent>} The events of the response stream
+ * @throws {ApiError} If the request is invalid or rejected before streaming starts
+ */
+export async function* streamChat(
+  request: ChatRequest,
+  { signal }: { signal?: AbortSignal } = {},
+): AsyncGenerator<ChatStreamEvent> {
+  const body = validateRequest(chatRequestSchema, request)
+
+  const response = await fetch("/api/chat", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+    signal,
+  })
+  if (!response.ok) throw await toApiError(response, "Failed to get AI response")
+
+  yield* readChatStream(response)
+}
+
+/**
+ * Generates a quiz from a page range (POST /api/quiz)
+ * @param request - PDF, page range, number and kinds of questions, and model
+ * @returns {Promise<QuizResponse>} The quiz without its answers
+ * @throws {ApiError} If the request is invalid or generation fails
+ */
+export async function createQuiz(request: QuizRequest): Promise<QuizResponse> {
+  const body = validateRequest(quizRequestSchema, request)
+  return requestJson("/api/quiz", { method: "POST", body }, quizResponseSchema, "Failed to generate quiz")
+}
+
+/**
+ * Loads a stored quiz to take it again (GET /api/quiz/[quizId])
+ * @param quizId - Quiz to load
+ * @returns {Promise<QuizResponse>} The quiz without its answers
+ * @throws {ApiError} If the quiz cannot be loaded
+ */
+export async function fetchQuiz(quizId: string): Promise<QuizResponse> {
+  return requestJson(`/api/quiz/${quizId}`, { method: "GET" }, quizResponseSchema, "Failed to load quiz")
+}
+
+/**
+ * Submits answers to a quiz for grading (POST /api/quiz/[quizId]/attempts)
+ * @param quizId - Quiz being answered
+ * @param request - The answers and the model grading short answers
+ * @returns {Promise<QuizAttemptResponse>} The graded attempt
+ * @throws {ApiError} If the request is invalid or grading fails
+ */
+export async function submitQuizAttempt(quizId: string, request: QuizAttemptRequest): Promise<QuizAttemptResponse> {
+  const body = validateRequest(quizAttemptRequestSchema, request)
+  return requestJson(
+    `/api/quiz/${quizId}/attempts`,
+    { method: "POST", body },
+    quizAttemptResponseSchema,
+    "Failed to grade quiz",
+  )
+}
+
+/**
+ * Generates flashcards and adds them to the deck of a PDF (POST /api/flashcards)
+ * @param request - PDF, source, optional page range, number of cards and model
+ * @returns {Promise<FlashcardsResponse>} The deck and the newly added cards
+ * @throws {ApiError} If the request is invalid or generation fails
+ */
+export async function createFlashcards(request: FlashcardsRequest): Promise<FlashcardsResponse> {
+  const body = validateRequest(flashcardsRequestSchema, request)
+  return requestJson(
+    "/api/flashcards",
+    { method: "POST", body },
+    flashcardsResponseSchema,
+    "Failed to generate flashcards",
+  )
+}
+
+/**
+ * Grades a flashcard review (POST /api/flashcards/[cardId]/review)
+ * @param cardId - The reviewed card
+ * @param request - How well the card was recalled
+ * @returns {Promise<FlashcardReviewResponse>} The rescheduled card
+ * @throws {ApiError} If the request is invalid or the review cannot be saved
+ */
+export async function reviewFlashcard(
+  cardId: string,
+  request: FlashcardReviewRequest,
+): Promise<FlashcardReviewResponse> {
+  const body = validateRequest(flashcardReviewRequestSchema, request)
+  return requestJson(
+    `/api/flashcards/${cardId}/review`,
+    { method: "POST", body },
+    flashcardReviewResponseSchema,
+    "Failed to save review",
+  )
+}
+
+/**
+ * Summarizes a page, a page range or the whole document (POST /api/summarize)
+ * @param request - PDF, scope, page range, length and model; refresh skips the cache
+ * @returns {Promise<SummarizeResponse>} The summary and whether it came from the cache
+ * @throws {ApiError} If the request is invalid or summarizing fails
+ */
+export async function summarize(request: SummarizeRequest): Promise<SummarizeResponse> {
+  const body = validateRequest(summarizeRequestSchema, request)
+  return requestJson("/api/summarize", { method: "POST", body }, summarizeResponseSchema, "Failed to summarize")
+}
+
+/**
+ * Reads a file sent as a download
+ * @param response - The successful response
+ * @param fallbackName - Name used when the response does not suggest one
+ * @returns {Promise<{ blob: Blob; fileName: string }>} The file and its suggested name
+ */
+async function readDownload(response: Response, fallbackName: string) {
+  // The name is sent in the Content-Disposition header
+  const disposition = response.headers.get("Content-Disposition") ?? ""
+  const match = disposition.match(/filename\*=UTF-8''([^;]+)/)
+  const fileName = match ? decodeURIComponent(match[1]) : fallbackName
+  return { blob: await response.blob(), fileName }
+}
+
+/**
+ * Exports the annotations of a PDF as a file (GET /api/annotations/export)
+ * @param query - PDF and file format
+ * @returns {Promise<{ blob: Blob; fileName: string }>} The file and its suggested name
+ * @throws {ApiError} If the request is invalid or the export fails
+ */
+export async function exportAnnotations(query: AnnotationsExportQuery): Promise<{ blob: Blob; fileName: string }> {
+  const { pdfId, format } = validateRequest(annotationsExportQuerySchema, query)
+
+  const response = await fetch(`/api/annotations/export?${new URLSearchParams({ pdfId, format })}`)
+  if (!response.ok) throw await toApiError(response, "Failed to export annotations")
+  return readDownload(response, `annotations.${format === "markdown" ? "md" : format}`)
+}
+
+/**
+ * Downloads a copy of a PDF with its annotations written in (GET /api/annotations/pdf)
+ * @param query - PDF and whether annotations are kept editable or burned in
+ * @returns {Promise<{ blob: Blob; fileName: string }>} The annotated PDF and its suggested name
+ * @throws {ApiError} If the request is invalid or the PDF cannot be written
+ */
+export async function downloadAnnotatedPdf(query: AnnotatedPdfQuery): Promise<{ blob: Blob; fileName: string }> {
+  const { pdfId, style } = validateRequest(annotatedPdfQuerySchema, query)
+
+  const response = await fetch(`/api/annotations/pdf?${new URLSearchParams({ pdfId, style })}`)
+  if (!response.ok) throw await toApiError(response, "Failed to create annotated PDF")
+  return readDownload(response, "annotated.pdf")
+}
+
+/**
+ * Adds the annotations of a JSON export to a PDF (POST /api/annotations/import)
+ * @param request - Target PDF and the exported file
+ * @returns {Promise<AnnotationsImportResponse>} The added annotations and how many were skipped
+ * @throws {ApiError} If the file is invalid or the import fails
+ */
+export async function importAnnotations(request: AnnotationsImportRequest): Promise<AnnotationsImportResponse> {
+  const body = validateRequest(annotationsImportRequestSchema, request)
+  return requestJson(
+    "/api/annotations/import",
+    { method: "POST", body },
+    annotationsImportResponseSchema,
+    "Failed to import annotations",
+  )
+}
+
+/**
+ * Searches all of the user's documents, annotations and chat messages (GET /api/search)
+ * @param query - The search text
+ * @returns {Promise<LibrarySearchResponse>} The matches grouped by document, best first
+ * @throws {ApiError} If the query is invalid or the search fails
+ */
+export async function searchLibrary(query: LibrarySearchQuery): Promise<LibrarySearchResponse> {
+  const { q } = validateRequest(librarySearchQuerySchema, query)
+  return requestJson(
+    `/api/search?${new URLSearchParams({ q })}`,
+    { method: "GET" },
+    librarySearchResponseSchema,
+    "Failed to search the library",
+  )
+}
+
+/**
+ * Deletes a document with its file, annotations, chats and study material (DELETE /api/pdfs/[pdfId])
+ * @param pdfId - Document to delete
+ * @param options - keepalive lets the request finish while the page is being closed
+ * @returns {Promise<PdfDeleteResponse>} The id of the deleted document
+ * @throws {ApiError} If the document cannot be deleted
+ */
+export async function deletePdf(pdfId: string, { keepalive = false } = {}): Promise<PdfDeleteResponse> {
+  return requestJson(
+    `/api/pdfs/${pdfId}`,
+    { method: "DELETE", keepalive },
+    pdfDeleteResponseSchema,
+    "Failed to delete document",
+  )
+}
@@ -0,0 +1,734 @@
+// Shared API contract between the API routes and the browser
+// Every request and response body is described by a zod schema here; routes
+// validate what they receive and the typed client in lib/api/client.ts
+// validates what it gets back, so both sides cannot drift apart
+
+import { z } from "zod"
+
+// Longest chat message accepted by /api/chat (in characters)
+export const MAX_MESSAGE_LENGTH = 4000
+// Longest selected passage and surrounding paragraph quoted in a chat message (in characters)
+export const MAX_SELECTION_LENGTH = 2000
+export const MAX_SELECTION_CONTEXT_LENGTH = 4000
+// Most documents one chat thread may draw on
+export const MAX_CHAT_DOCUMENTS = 20
+// Largest PDF accepted by /api/extract-text (in bytes)
+export const MAX_PDF_SIZE = 50 * 1024 * 1024
+
+// ============================================
+// Shared records
+// ============================================
+
+/**
+ * A stored PDF document (pdf_files row)
+ * - folder: course folder the document is in, null if none
+ */
+export const pdfFileSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  url: z.string(),
+  text_content: z.string(),
+  page_count: z.number().int(),
+  folder: z.string().nullable(),
+  created_at: z.string(),
+})
+export type PdfFileRecord = z.infer<typeof pdfFileSchema>
+
+/**
+ * A page source cited by a tutor answer
+ * - index: number of the marker in the answer text, e.g. 2 for [2]
+ * - pdfId: document the cited passage comes from; missing on citations stored
+ *   before threads could span several documents, which cite the thread's PDF
+ * - pageNumber: page of the PDF the cited passage comes from
+ * - snippet: sentence quoted verbatim from the cited passage
+ */
+export const citationSchema = z.object({
+  index: z.number().int().positive(),
+  pdfId: z.string().uuid().optional(),
+  pageNumber: z.number().int().positive(),
+  snippet: z.string(),
+})
+export type Citation = z.infer<typeof citationSchema>
+
+/**
+ * Tutoring modes - how the tutor teaches in a thread
+ * The system prompt of each mode is built on the server (lib/ai/prompts.ts)
+ */
+export const TUTOR_MODES = ["explain-simply", "socratic", "exam-prep", "step-by-step", "document-only"] as const
+export const tutorModeSchema = z.enum(TUTOR_MODES)
+export type TutorMode = z.infer<typeof tutorModeSchema>
+// Mode of new threads unless the student picks another one
+export const DEFAULT_TUTOR_MODE: TutorMode = "explain-simply"
+
+/**
+ * A chat thread (conversations row) as returned to the client
+ * - pdf_id: the thread's own PDF, which its messages belong to
+ * - pdf_ids: documents the tutor draws on, including the thread's own PDF
+ */
+export const conversationSchema = z.object({
+  id: z.string().uuid(),
+  pdf_id: z.string().uuid(),
+  title: z.string(),
+  mode: tutorModeSchema,
+  pdf_ids: z.array(z.string().uuid()),
+  archived_at: z.string().nullable(),
+  updated_at: z.string(),
+})
+export type ConversationRecord = z.infer<typeof conversationSchema>
+
+/**
+ * A rectangle on a PDF page in normalized coordinates: fractions (0-1) of the
+ * page width and height measured from the top-left corner, so it lands on the
+ * same spot at any zoom or screen size
+ */
+export const pageRectSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+})
+export type PageRect = z.infer<typeof pageRectSchema>
+
+/**
+ * A passage selected in the PDF that a question is about
+ * - pageNumber: page the selection starts on
+ * - text: the selected text
+ * - context: the paragraph around the selection, null if the selection is the
+ *   whole paragraph
+ * - rects: boxes of the selected lines, used to show the passage again
+ */
+export const chatSelectionSchema = z.object({
+  pageNumber: z.number().int().positive(),
+  text: z.string().trim().min(1, "Selection cannot be empty").max(MAX_SELECTION_LENGTH),
+  context: z.string().max(MAX_SELECTION_CONTEXT_LENGTH).nullable(),
+  rects: z.array(pageRectSchema),
+})
+export type ChatSelection = z.infer<typeof chatSelectionSchema>
+
+/**
+ * A stored chat message (messages row) as returned to the client
+ * Generation metadata is only set on assistant messages; selection is only
+ * set on questions asked about a passage of the PDF
+ * - viewed_pdf_id: PDF open when the message was sent, which a selection was
+ *   made in; null if that PDF has been deleted since
+ */
+export const messageSchema = z.object({
+  id: z.string().uuid(),
+  conversation_id: z.string().uuid(),
+  viewed_pdf_id: z.string().uuid().nullable(),
+  role: z.enum(["user", "assistant"]),
+  content: z.string(),
+  citations: z.array(citationSchema),
+  selection: chatSelectionSchema.nullable(),
+  model_id: z.string().nullable(),
+  prompt_tokens: z.number().int().nullable(),
+  completion_tokens: z.number().int().nullable(),
+  latency_ms: z.number().int().nullable(),
+  finish_reason: z.string().nullable(),
+  created_at: z.string(),
+})
+export type MessageRecord = z.infer<typeof messageSchema>
+
+/**
+ * Where an annotation is on its page: one rect per selected line of text,
+ * or a single rect for a box drawn in annotation mode
+ */
+export const annotationPositionSchema = z.object({
+  rects: z.array(pageRectSchema),
+})
+export type AnnotationPosition = z.infer<typeof annotationPositionSchema>
+
+// Kinds of annotations
+export const ANNOTATION_TYPES = ["highlight", "underline", "note"] as const
+
+/**
+ * A stored annotation (annotations row)
+ * - text_content: the annotated text, null for a drawn box
+ * - text_start / text_end: character offsets of that text in the extracted
+ *   text of its page (pdf_pages.text_content), null for a drawn box or text
+ *   that could not be found there
+ */
+export const annotationSchema = z.object({
+  id: z.string().uuid(),
+  pdf_id: z.string().uuid(),
+  page_number: z.number().int(),
+  type: z.enum(ANNOTATION_TYPES),
+  color: z.string(),
+  text_content: z.string().nullable(),
+  note_content: z.string().nullable(),
+  position: annotationPositionSchema,
+  text_start: z.number().int().nullable(),
+  text_end: z.number().int().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+})
+export type AnnotationRecord = z.infer<typeof annotationSchema>
+
+/**
+ * A model the client may select ("provider:model" registry id)
+ */
+export const modelOptionSchema = z.object({
+  id: z.string(),
+  provider: z.string(),
+  model: z.string(),
+})
+export type ModelOption = z.infer<typeof modelOptionSchema>
+
+/**
+ * Body of every error response
+ * fieldErrors is set on 400 responses and lists the problems per field
+ */
+export const errorResponseSchema = z.object({
+  error: z.string(),
+  fieldErrors: z.record(z.array(z.string())).optional(),
+})
+export type ErrorResponse = z.infer<typeof errorResponseSchema>
+
+// ============================================
+// POST /api/chat
+// ============================================
+
+/**
+ * Request body of /api/chat
+ * - conversationId: thread to continue, or null to start a new thread
+ * - model: registry id from /api/models; the server default is used if omitted
+ * - mode: tutoring mode, saved on the thread; the thread keeps its mode if omitted
+ * - pdfIds: documents the tutor draws on, saved on the thread; pdfId is always
+ *   one of them, and the thread keeps its documents if omitted
+ * - selection: passage of the PDF the message asks about, quoted to the tutor
+ *   and stored with the message
+ */
+export const chatRequestSchema = z.object({
+  pdfId: z.string().uuid(),
+  conversationId: z.string().uuid().nullable().optional(),
+  message: z.string().trim().min(1, "Message cannot be empty").max(MAX_MESSAGE_LENGTH),
+  model: z.string().nullable().optional(),
+  mode: tutorModeSchema.optional(),
+  pdfIds: z.array(z.string().uuid()).max(MAX_CHAT_DOCUMENTS, `Pick at most ${MAX_CHAT_DOCUMENTS} documents`).optional(),
+  selection: chatSelectionSchema.nullable().optional(),
+})
+export type ChatRequest = z.infer<typeof chatRequestSchema>
+
+/**
+ * A single event of the streamed /api/chat response (one JSON object per line)
+ * - user-message: the stored question and the thread it belongs to (always first)
+ * - delta: a chunk of assistant text to append
+ * - citations: the sources cited by the completed answer
+ * - assistant-message: the stored answer with its generation metadata
+ * - finish: last event of a completed response; carries the model's finish reason
+ * - error: generation failed; carries a user-facing message. If no
+ *   assistant-message was sent before it, the question was not stored either
+ */
+export const chatStreamEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("user-message"), conversation: conversationSchema, message: messageSchema }),
+  z.object({ type: z.literal("delta"), text: z.string() }),
+  z.object({ type: z.literal("citations"), citations: z.array(citationSchema) }),
+  z.object({ type: z.literal("assistant-message"), message: messageSchema }),
+  z.object({ type: z.literal("finish"), finishReason: z.string() }),
+  z.object({ type: z.literal("error"), error: z.string() }),
+])
+export type ChatStreamEvent = z.infer<typeof chatStreamEventSchema>
+
+// ============================================
+// POST /api/extract-text
+// ============================================
+
+/**
+ * Multipart form fields of /api/extract-text
+ * - file: the PDF file
+ * - name: display name of the document (defaults to the file name, or the
+ *   current name when a file is replaced)
+ * - url: public URL of the file in the user's folder of the 'pdfs' storage bucket
+ * - pdfId: document whose file is replaced, keeping its id and everything
+ *   attached to it; a new document is created if omitted
+ */
+export const extractTextFormSchema = z.object({
+  file: z
+    .instanceof(File, { message: "A PDF file is required" })
+    .refine((file) => file.type === "application/pdf", "File must be a PDF")
+    .refine((file) => file.size <= MAX_PDF_SIZE, "PDF is too large"),
+  name: z.string().trim().min(1).optional(),
+  url: z.string().url("The storage URL of the PDF is required"),
+  pdfId: z.string().uuid().optional(),
+})
+export type ExtractTextForm = z.infer<typeof extractTextFormSchema>
+
+/**
+ * Response body of /api/extract-text
+ */
+export const extractTextResponseSchema = z.object({
+  pdf: pdfFileSchema,
+  pageCount: z.number().int(),
+})
+export type ExtractTextResponse = z.infer<typeof extractTextResponseSchema>
+
+// ============================================
+// GET /api/models
+// ============================================
+
+/**
+ * Response body of /api/models
+ */
+export const modelsResponseSchema = z.object({
+  models: z.array(modelOptionSchema),
+  defaultModel: z.string(),
+})
+export type ModelsResponse = z.infer<typeof modelsResponseSchema>
+
+// ============================================
+// Quizzes (/api/quiz)
+// ============================================
+
+// Most questions generated for one quiz
+export const MAX_QUIZ_QUESTIONS = 20
+
+/**
+ * Kinds of quiz questions
+ */
+export const QUIZ_QUESTION_TYPES = ["multiple-choice", "true-false", "short-answer"] as const
+export const quizQuestionTypeSchema = z.enum(QUIZ_QUESTION_TYPES)
+export type QuizQuestionType = z.infer<typeof quizQuestionTypeSchema>
+
+/**
+ * Request body of POST /api/quiz
+ * - pageStart / pageEnd: inclusive page range the questions are drawn from
+ * - types: kinds of questions to mix (all kinds if omitted)
+ */
+export const quizRequestSchema = z
+  .object({
+    pdfId: z.string().uuid(),
+    pageStart: z.number().int().positive(),
+    pageEnd: z.number().int().positive(),
+    questionCount: z.number().int().min(1).max(MAX_QUIZ_QUESTIONS).default(5),
+    types: z.array(quizQuestionTypeSchema).min(1, "Pick at least one question type").optional(),
+    model: z.string().nullable().optional(),
+  })
+  .refine((request) => request.pageEnd >= request.pageStart, {
+    message: "The last page must not be before the first page",
+    path: ["pageEnd"],
+  })
+export type QuizRequest = z.input<typeof quizRequestSchema>
+
+/**
+ * A quiz question as shown while taking the quiz (without its answer)
+ * - options: choices of multiple-choice and true/false questions, empty for short answers
+ */
+export const quizQuestionSchema = z.object({
+  id: z.string(),
+  type: quizQuestionTypeSchema,
+  prompt: z.string(),
+  options: z.array(z.string()),
+})
+export type QuizQuestion = z.infer<typeof quizQuestionSchema>
+
+/**
+ * A generated quiz (quizzes row) as returned to the client
+ */
+export const quizSchema = z.object({
+  id: z.string().uuid(),
+  title: z.string(),
+  page_start: z.number().int(),
+  page_end: z.number().int(),
+  questions: z.array(quizQuestionSchema),
+  created_at: z.string(),
+})
+export type Quiz = z.infer<typeof quizSchema>
+
+/**
+ * Response body of POST /api/quiz and GET /api/quiz/[quizId]
+ */
+export const quizResponseSchema = z.object({
+  quiz: quizSchema,
+})
+export type QuizResponse = z.infer<typeof quizResponseSchema>
+
+/**
+ * Request body of POST /api/quiz/[quizId]/attempts
+ * Unanswered questions may be left out; they are graded as incorrect
+ */
+export const quizAttemptRequestSchema = z.object({
+  answers: z.array(
+    z.object({
+      questionId: z.string(),
+      answer: z.string().max(MAX_MESSAGE_LENGTH),
+    }),
+  ),
+  model: z.string().nullable().optional(),
+})
+export type QuizAttemptRequest = z.infer<typeof quizAttemptRequestSchema>
+
+/**
+ * The graded answer to one question
+ * - explanation / pageNumber: why the correct answer is right and where the
+ *   document says so
+ * - feedback: grader comment on a short answer, null for other kinds
+ */
+export const quizQuestionResultSchema = z.object({
+  questionId: z.string(),
+  answer: z.string(),
+  correct: z.boolean(),
+  correctAnswer: z.string(),
+  explanation: z.string(),
+  pageNumber: z.number().int().positive(),
+  feedback: z.string().nullable(),
+})
+export type QuizQuestionResult = z.infer<typeof quizQuestionResultSchema>
+
+/**
+ * A graded attempt (quiz_attempts row) as returned to the client
+ */
+export const quizAttemptSchema = z.object({
+  id: z.string().uuid(),
+  quiz_id: z.string().uuid(),
+  results: z.array(quizQuestionResultSchema),
+  score: z.number().int(),
+  total: z.number().int(),
+  created_at: z.string(),
+})
+export type QuizAttempt = z.infer<typeof quizAttemptSchema>
+
+/**
+ * Response body of POST /api/quiz/[quizId]/attempts
+ */
+export const quizAttemptResponseSchema = z.object({
+  attempt: quizAttemptSchema,
+})
+export type QuizAttemptResponse = z.infer<typeof quizAttemptResponseSchema>
+
+// ============================================
+// Flashcards (/api/flashcards)
+// ============================================
+
+// Most cards generated by one request
+export const MAX_FLASHCARDS_PER_REQUEST = 30
+
+/**
+ * What flashcards are generated from
+ * - document: the whole document
+ * - pages: a page range
+ * - annotations: the highlights and notes of the document
+ */
+export const FLASHCARD_SOURCES = ["document", "pages", "annotations"] as const
+export const flashcardSourceSchema = z.enum(FLASHCARD_SOURCES)
+export type FlashcardSource = z.infer<typeof flashcardSourceSchema>
+
+/**
+ * How well a card was recalled during review
+ */
+export const REVIEW_GRADES = ["again", "hard", "good", "easy"] as const
+export const reviewGradeSchema = z.enum(REVIEW_GRADES)
+export type ReviewGrade = z.infer<typeof reviewGradeSchema>
+
+/**
+ * The flashcard deck of a PDF (flashcard_decks row)
+ */
+export const flashcardDeckSchema = z.object({
+  id: z.string().uuid(),
+  pdf_id: z.string().uuid(),
+  title: z.string(),
+  created_at: z.string(),
+})
+export type FlashcardDeck = z.infer<typeof flashcardDeckSchema>
+
+/**
+ * A flashcard with its SM-2 scheduling state (flashcards row)
+ * - source: "document", "pages" or "annotation" (the single annotation it was made from)
+ */
+export const flashcardSchema = z.object({
+  id: z.string().uuid(),
+  deck_id: z.string().uuid(),
+  front: z.string(),
+  back: z.string(),
+  page_number: z.number().int().nullable(),
+  source: z.enum(["document", "pages", "annotation"]),
+  annotation_id: z.string().uuid().nullable(),
+  ease_factor: z.number(),
+  interval_days: z.number().int(),
+  repetitions: z.number().int(),
+  due_at: z.string(),
+  last_reviewed_at: z.string().nullable(),
+  created_at: z.string(),
+})
+export type Flashcard = z.infer<typeof flashcardSchema>
+
+/**
+ * Request body of POST /api/flashcards
+ * - pageStart / pageEnd: inclusive page range, required for the "pages" source
+ *   and optional for "annotations" (limits which annotations are used)
+ */
+export const flashcardsRequestSchema = z
+  .object({
+    pdfId: z.string().uuid(),
+    source: flashcardSourceSchema,
+    pageStart: z.number().int().positive().optional(),
+    pageEnd: z.number().int().positive().optional(),
+    cardCount: z.number().int().min(1).max(MAX_FLASHCARDS_PER_REQUEST).default(10),
+    model: z.string().nullable().optional(),
+  })
+  .refine((request) => request.source !== "pages" || (request.pageStart && request.pageEnd), {
+    message: "A page range is required",
+    path: ["pageStart"],
+  })
+  .refine((request) => !request.pageStart || !request.pageEnd || request.pageEnd >= request.pageStart, {
+    message: "The last page must not be before the first page",
+    path: ["pageEnd"],
+  })
+export type FlashcardsRequest = z.input<typeof flashcardsRequestSchema>
+
+/**
+ * Response body of POST /api/flashcards
+ * cards holds only the newly generated cards
+ */
+export const flashcardsResponseSchema = z.object({
+  deck: flashcardDeckSchema,
+  cards: z.array(flashcardSchema),
+})
+export type FlashcardsResponse = z.infer<typeof flashcardsResponseSchema>
+
+/**
+ * Request body of POST /api/flashcards/[cardId]/review
+ */
+export const flashcardReviewRequestSchema = z.object({
+  grade: reviewGradeSchema,
+})
+export type FlashcardReviewRequest = z.infer<typeof flashcardReviewRequestSchema>
+
+/**
+ * Response body of POST /api/flashcards/[cardId]/review
+ */
+export const flashcardReviewResponseSchema = z.object({
+  card: flashcardSchema,
+})
+export type FlashcardReviewResponse = z.infer<typeof flashcardReviewResponseSchema>
+
+// ============================================
+// Summaries (/api/summarize)
+// ============================================
+
+/**
+ * What a summary covers
+ * - page: a single page
+ * - range: an inclusive page range
+ * - document: the whole document
+ */
+export const SUMMARY_SCOPES = ["page", "range", "document"] as const
+export const summaryScopeSchema = z.enum(SUMMARY_SCOPES)
+export type SummaryScope = z.infer<typeof summaryScopeSchema>
+
+/**
+ * How long a summary is
+ */
+export const SUMMARY_LENGTHS = ["short", "medium", "long"] as const
+export const summaryLengthSchema = z.enum(SUMMARY_LENGTHS)
+export type SummaryLength = z.infer<typeof summaryLengthSchema>
+
+/**
+ * Request body of POST /api/summarize
+ * - pageStart: the page for the "page" scope, the first page for "range"
+ * - pageEnd: the last page for "range"
+ * - refresh: regenerate even if a cached summary exists
+ */
+export const summarizeRequestSchema = z
+  .object({
+    pdfId: z.string().uuid(),
+    scope: summaryScopeSchema,
+    pageStart: z.number().int().positive().optional(),
+    pageEnd: z.number().int().positive().optional(),
+    length: summaryLengthSchema.default("medium"),
+    refresh: z.boolean().default(false),
+    model: z.string().nullable().optional(),
+  })
+  .refine((request) => request.scope === "document" || request.pageStart, {
+    message: "A page is required",
+    path: ["pageStart"],
+  })
+  .refine((request) => request.scope !== "range" || request.pageEnd, {
+    message: "The last page is required",
+    path: ["pageEnd"],
+  })
+  .refine((request) => !request.pageStart || !request.pageEnd || request.pageEnd >= request.pageStart, {
+    message: "The last page must not be before the first page",
+    path: ["pageEnd"],
+  })
+export type SummarizeRequest = z.input<typeof summarizeRequestSchema>
+
+/**
+ * A cached summary (summaries row) as returned to the client
+ */
+export const summarySchema = z.object({
+  id: z.string().uuid(),
+  scope: summaryScopeSchema,
+  page_start: z.number().int(),
+  page_end: z.number().int(),
+  length: summaryLengthSchema,
+  summary: z.string(),
+  model_id: z.string().nullable(),
+  created_at: z.string(),
+})
+export type Summary = z.infer<typeof summarySchema>
+
+/**
+ * Response body of POST /api/summarize
+ * - cached: whether the summary came from the cache
+ */
+export const summarizeResponseSchema = z.object({
+  summary: summarySchema,
+  cached: z.boolean(),
+})
+export type SummarizeResponse = z.infer<typeof summarizeResponseSchema>
+
+// ============================================
+// Annotation exports (/api/annotations/export, /api/annotations/import)
+// ============================================
+
+/**
+ * Formats annotations are exported in
+ * - markdown: study sheet grouped by page with the annotated text and notes
+ * - json: lossless file that can be imported into another PDF
+ * - csv: one row per annotation, for spreadsheets
+ */
+export const ANNOTATION_EXPORT_FORMATS = ["markdown", "json", "csv"] as const
+export const annotationExportFormatSchema = z.enum(ANNOTATION_EXPORT_FORMATS)
+export type AnnotationExportFormat = z.infer<typeof annotationExportFormatSchema>
+
+/**
+ * Query parameters of GET /api/annotations/export
+ */
+export const annotationsExportQuerySchema = z.object({
+  pdfId: z.string().uuid(),
+  format: annotationExportFormatSchema,
+})
+export type AnnotationsExportQuery = z.infer<typeof annotationsExportQuerySchema>
+
+// Version of the JSON export file, bumped when its shape changes
+export const ANNOTATIONS_FILE_VERSION = 1
+
+/**
+ * JSON export of the annotations of a PDF
+ * - pdf: the document the annotations were made on
+ * - annotations: the stored annotations, unchanged
+ */
+export const annotationsFileSchema = z.object({
+  version: z.literal(ANNOTATIONS_FILE_VERSION),
+  exported_at: z.string(),
+  pdf: z.object({
+    id: z.string().uuid(),
+    name: z.string(),
+    page_count: z.number().int(),
+  }),
+  annotations: z.array(annotationSchema),
+})
+export type AnnotationsFile = z.infer<typeof annotationsFileSchema>
+
+/**
+ * Request body of POST /api/annotations/import
+ * - pdfId: PDF the annotations are added to
+ * - file: a JSON export, possibly of another PDF
+ */
+export const annotationsImportRequestSchema = z.object({
+  pdfId: z.string().uuid(),
+  file: annotationsFileSchema,
+})
+export type AnnotationsImportRequest = z.infer<typeof annotationsImportRequestSchema>
+
+/**
+ * Response body of POST /api/annotations/import
+ * - annotations: the added annotations, with new ids
+ * - skipped: annotations left out because their page is past the end of the PDF
+ */
+export const annotationsImportResponseSchema = z.object({
+  annotations: z.array(annotationSchema),
+  skipped: z.number().int(),
+})
+export type AnnotationsImportResponse = z.infer<typeof annotationsImportResponseSchema>
+
+/**
+ * How annotations are written into a downloaded copy of a PDF
+ * - annotations: real PDF highlight, underline and note annotations
+ * - burned: marks drawn into the pages, notes listed on added pages
+ */
+export const ANNOTATED_PDF_STYLES = ["annotations", "burned"] as const
+export const annotatedPdfStyleSchema = z.enum(ANNOTATED_PDF_STYLES)
+export type AnnotatedPdfStyle = z.infer<typeof annotatedPdfStyleSchema>
+
+/**
+ * Query parameters of GET /api/annotations/pdf
+ */
+export const annotatedPdfQuerySchema = z.object({
+  pdfId: z.string().uuid(),
+  style: annotatedPdfStyleSchema.default("annotations"),
+})
+export type AnnotatedPdfQuery = z.input<typeof annotatedPdfQuerySchema>
+
+// ============================================
+// GET /api/search
+// ============================================
+
+// Shortest and longest library search query (in characters)
+export const MIN_SEARCH_QUERY_LENGTH = 2
+export const MAX_SEARCH_QUERY_LENGTH = 200
+// Characters around the matched words of a search snippet
+export const SNIPPET_MATCH_START = "\uE000"
+export const SNIPPET_MATCH_END = "\uE001"
+
+/**
+ * Query parameters of GET /api/search
+ * - q: web-style query: words, "quoted phrases", or, -excluded words
+ */
+export const librarySearchQuerySchema = z.object({
+  q: z
+    .string()
+    .trim()
+    .min(MIN_SEARCH_QUERY_LENGTH, `Enter at least ${MIN_SEARCH_QUERY_LENGTH} characters`)
+    .max(MAX_SEARCH_QUERY_LENGTH),
+})
+export type LibrarySearchQuery = z.infer<typeof librarySearchQuerySchema>
+
+// Where a library search match was found
+export const SEARCH_RESULT_KINDS = ["page", "annotation", "message"] as const
+
+/**
+ * A match of a library search
+ * - kind: document text, an annotation or a chat message
+ * - id: the matched page, annotation or message
+ * - pageNumber: page the match opens on, null for a message without a page
+ * - snippet: text around the match; matched words are wrapped in
+ *   SNIPPET_MATCH_START and SNIPPET_MATCH_END
+ * - rank: relevance, higher is better
+ */
+export const librarySearchResultSchema = z.object({
+  kind: z.enum(SEARCH_RESULT_KINDS),
+  id: z.string().uuid(),
+  pageNumber: z.number().int().nullable(),
+  snippet: z.string(),
+  rank: z.number(),
+})
+export type LibrarySearchResult = z.infer<typeof librarySearchResultSchema>
+
+/**
+ * Response body of GET /api/search
+ * Matches grouped by document, the group with the best match first and the
+ * matches of a group by rank
+ */
+export const librarySearchResponseSchema = z.object({
+  groups: z.array(
+    z.object({
+      pdf: z.object({ id: z.string().uuid(), name: z.string(), page_count: z.number().int() }),
+      results: z.array(librarySearchResultSchema),
+    }),
+  ),
+})
+export type LibrarySearchResponse = z.infer<typeof librarySearchResponseSchema>
+
+// ============================================
+// DELETE /api/pdfs/[pdfId]
+// ============================================
+
+/**
+ * Response body of DELETE /api/pdfs/[pdfId]
+ * - id: the deleted document
+ */
+export const pdfDeleteResponseSchema = z.object({
+  id: z.string().uuid(),
+})
+export type PdfDeleteResponse = z.infer<typeof pdfDeleteResponseSchema>
@@ -0,0 +1,71 @@
+// Server-side request validation for the API routes
+// Invalid requests are answered with 400 and the problems per field, in the
+// ErrorResponse shape of the shared contract
+
+import type { z } from "zod"
+import type { ErrorResponse } from "@/lib/api/schemas"
+
+/**
+ * Builds the 400 response for a failed validation
+ * @param error - The validation error
+ * @returns {Response} JSON response listing the errors per field
+ */
+export function validationErrorResponse(error: z.ZodError) {
+  const { formErrors, fieldErrors } = error.flatten()
+  const body: ErrorResponse = {
+    // Errors not tied to a field mean the body itself was malformed
+    error: formErrors.length > 0 ? "Invalid request body" : "Invalid request",
+    fieldErrors: fieldErrors as Record<string, string[]>,
+  }
+  return Response.json(body, { status: 400 })
+}
+
+/**
+ * Parses and validates a JSON request body
+ * @param req - The incoming request
+ * @param schema - Schema of the expected body
+ * @returns The validated body, or the 400 response to send instead
+ */
+export async function parseJsonBody<T extends z.ZodTypeAny>(
+  req: Request,
+  schema: T,
+): Promise<{ data: z.infer<T>; response?: never } | { data?: never; response: Response }> {
+  // A malformed body is validated as null so it gets the same 400 answer
+  const body = await req.json().catch(() => null)
+  const result = schema.safeParse(body)
+  if (!result.success) return { response: validationErrorResponse(result.error) }
+  return { data: result.data }
+}
+
+/**
+ * Parses and validates a multipart form body
+ * Repeated fields keep their last value
+ * @param req - The incoming request
+ * @param schema - Schema of the expected fields
+ * @returns The validated fields, or the 400 response to send instead
+ */
+export async function parseFormBody<T extends z.ZodTypeAny>(
+  req: Request,
+  schema: T,
+): Promise<{ data: z.infer<T>; response?: never } | { data?: never; response: Response }> {
+  const formData = await req.formData().catch(() => null)
+  const result = schema.safeParse(formData ? Object.fromEntries(formData) : {})
+  if (!result.success) return { response: validationErrorResponse(result.error) }
+  return { data: result.data }
+}
+
+/**
+ * Parses and validates the query parameters of a request
+ * Repeated parameters keep their last value
+ * @param req - The incoming request
+ * @param schema - Schema of the expected parameters
+ * @returns The validated parameters, or the 400 response to send instead
+ */
+export function parseSearchParams<T extends z.ZodTypeAny>(
+  req: Request,
+  schema: T,
+): { data: z.infer<T>; response?: never } | { data?: never; response: Response } {
+  const result = schema.safeParse(Object.fromEntries(new URL(req.url).searchParams))
+  if (!result.success) return { response: validationErrorResponse(result.error) }
+  return { data: result.data }
+}
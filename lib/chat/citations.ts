@@ -0,0 +1,96 @@
+// Page citations for tutor answers
+// The tutor cites retrieved passages with numbered markers like [2]; this module
+// turns those markers into structured citations with the document, a page
+// number and a snippet quoted verbatim from the document
+
+import type { Citation } from "@/lib/api/schemas"
+
+// The Citation type is part of the shared API contract
+export type { Citation }
+
+// Longest snippet kept for a citation (in characters)
+const MAX_SNIPPET_LENGTH = 240
+
+// Matches citation markers such as [1] or [2, 3]
+const CITATION_MARKER = /\[(\d+(?:\s*,\s*\d+)*)\]/g
+
+/**
+ * Splits text into sentences
+ * @param text - The text to split
+ * @returns Non-empty sentences
+ */
+function splitSentences(text: string) {
+  return text
+    .replace(/\s+/g, " ")
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Lowercase words of a text longer than two characters
+ * @param text - The text to split
+ * @returns Set of words
+ */
+function wordSet(text: string) {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? [])
+}
+
+/**
+ * Picks the sentence of a passage that best supports a claim
+ * @param passage - Text of the cited passage
+ * @param claim - Sentence(s) of the answer that cite the passage
+ * @returns The passage sentence sharing the most words with the claim
+ */
+function bestSnippet(passage: string, claim: string) {
+  const claimWords = wordSet(claim)
+  let best = ""
+  let bestScore = -1
+
+  for (const sentence of splitSentences(passage)) {
+    let score = 0
+    for (const word of wordSet(sentence)) if (claimWords.has(word)) score++
+    if (score > bestScore) {
+      best = sentence
+      bestScore = score
+    }
+  }
+
+  return best.length > MAX_SNIPPET_LENGTH ? `${best.slice(0, MAX_SNIPPET_LENGTH - 1)}…` : best
+}
+
+/**
+ * Builds the citations of a tutor answer
+ * @param answer - Complete answer text containing [n] markers
+ * @param passages - Passages given to the model; passage n is passages[n - 1]
+ * @returns {Citation[]} One citation per distinct valid marker, ordered by number
+ */
+export function buildCitations(
+  answer: string,
+  passages: { pdfId: string; pageNumber: number; content: string }[],
+) {
+  // Collect the answer sentences that cite each passage
+  const claims = new Map<number, string[]>()
+
+  for (const sentence of splitSentences(answer)) {
+    for (const match of sentence.matchAll(CITATION_MARKER)) {
+      for (const value of match[1].split(",")) {
+        const index = Number(value.trim())
+        if (index < 1 || index > passages.length) continue
+        claims.set(index, [...(claims.get(index) ?? []), sentence])
+      }
+    }
+  }
+
+  return Array.from(claims.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([index, sentences]): Citation => {
+      const passage = passages[index - 1]
+      return {
+        index,
+        pdfId: passage.pdfId,
+        pageNumber: passage.pageNumber,
+        snippet: bestSnippet(passage.content, sentences.join(" ")),
+      }
+    })
+}
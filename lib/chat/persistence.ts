@@ -0,0 +1,190 @@
+// Server-side persistence of chat threads and messages
+// /api/chat owns all writes to conversations and messages so history is stored
+// in order even if the browser tab is closed mid-answer
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import {
+  DEFAULT_TUTOR_MODE,
+  type ChatSelection,
+  type Citation,
+  type ConversationRecord,
+  type MessageRecord,
+  type TutorMode,
+} from "@/lib/api/schemas"
+import { withSelection } from "@/lib/chat/selection"
+
+// Record types are part of the shared API contract
+export type { ConversationRecord, MessageRecord }
+
+// Number of earlier messages of a thread sent to the model as history
+const HISTORY_LIMIT = 20
+
+// Columns of conversations returned to the client
+const CONVERSATION_COLUMNS = "id, pdf_id, title, mode, pdf_ids, archived_at, updated_at"
+// Columns of messages returned to the client
+const MESSAGE_COLUMNS =
+  "id, conversation_id, viewed_pdf_id, role, content, citations, selection, model_id, prompt_tokens, completion_tokens, latency_ms, finish_reason, created_at"
+
+/**
+ * Fields written when storing a message
+ * @property pdfId - The thread's own PDF, so the message is deleted with the thread
+ * @property viewedPdfId - PDF open when the message was sent
+ */
+interface NewMessage {
+  userId: string
+  pdfId: string
+  viewedPdfId: string
+  conversationId: string
+  role: "user" | "assistant"
+  content: string
+  citations?: Citation[]
+  selection?: ChatSelection | null
+  modelId?: string
+  promptTokens?: number
+  completionTokens?: number
+  latencyMs?: number
+  finishReason?: string
+}
+
+/**
+ * Loads a thread drawing on a PDF
+ * @param supabase - Authenticated Supabase client
+ * @param params - Thread and PDF ids
+ * @returns {Promise<ConversationRecord | null>} The thread, or null if it does not
+ * exist or does not include the PDF
+ */
+export async function getConversation(
+  supabase: SupabaseClient,
+  { conversationId, pdfId }: { conversationId: string; pdfId: string },
+): Promise<ConversationRecord | null> {
+  const { data, error } = await supabase
+    .from("conversations")
+    .select(CONVERSATION_COLUMNS)
+    .eq("id", conversationId)
+    .contains("pdf_ids", [pdfId])
+    .maybeSingle()
+  if (error) throw error
+  return data
+}
+
+/**
+ * Creates a thread titled after its first message
+ * @param supabase - Authenticated Supabase client
+ * @param params - Owner, PDF id, the first message, the tutoring mode
+ * (DEFAULT_TUTOR_MODE if omitted) and the documents it draws on (only the PDF if omitted)
+ * @returns {Promise<ConversationRecord>} The new thread
+ */
+export async function createConversation(
+  supabase: SupabaseClient,
+  {
+    userId,
+    pdfId,
+    firstMessage,
+    mode = DEFAULT_TUTOR_MODE,
+    pdfIds = [pdfId],
+  }: { userId: string; pdfId: string; firstMessage: string; mode?: TutorMode; pdfIds?: string[] },
+): Promise<ConversationRecord> {
+  const { data, error } = await supabase
+    .from("conversations")
+    .insert({
+      user_id: userId,
+      pdf_id: pdfId,
+      pdf_ids: pdfIds,
+      title: firstMessage.trim().slice(0, 60),
+      mode,
+    })
+    .select(CONVERSATION_COLUMNS)
+    .single()
+  if (error) throw error
+  return data
+}
+
+/**
+ * Changes the tutoring mode and/or the documents of a thread
+ * @param supabase - Authenticated Supabase client
+ * @param params - Thread id, and the new mode and documents (unchanged if omitted)
+ * @returns {Promise<ConversationRecord>} The updated thread
+ */
+export async function updateConversation(
+  supabase: SupabaseClient,
+  { conversationId, mode, pdfIds }: { conversationId: string; mode?: TutorMode; pdfIds?: string[] },
+): Promise<ConversationRecord> {
+  const { data, error } = await supabase
+    .from("conversations")
+    .update({ mode, pdf_ids: pdfIds })
+    .eq("id", conversationId)
+    .select(CONVERSATION_COLUMNS)
+    .single()
+  if (error) throw error
+  return data
+}
+
+/**
+ * Deletes a thread together with its messages
+ * @param supabase - Authenticated Supabase client
+ * @param conversationId - Thread to delete
+ */
+export async function deleteConversation(supabase: SupabaseClient, conversationId: string) {
+  const { error } = await supabase.from("conversations").delete().eq("id", conversationId)
+  if (error) throw error
+}
+
+/**
+ * Loads the latest messages of a thread as model history
+ * Questions about a selected passage are sent with the passage quoted
+ * @param supabase - Authenticated Supabase client
+ * @param conversationId - Thread to load
+ * @returns Messages in chronological order
+ */
+export async function loadHistory(supabase: SupabaseClient, conversationId: string) {
+  const { data, error } = await supabase
+    .from("messages")
+    .select("role, content, selection")
+    .eq("conversation_id", conversationId)
+    .order("created_at", { ascending: false })
+    .limit(HISTORY_LIMIT)
+  if (error) throw error
+  return ((data ?? []) as { role: "user" | "assistant"; content: string; selection: ChatSelection | null }[])
+    .reverse()
+    .map(({ role, content, selection }) => ({ role, content: withSelection(content, selection) }))
+}
+
+/**
+ * Stores a message
+ * @param supabase - Authenticated Supabase client
+ * @param message - Message content and, for assistant messages, generation metadata
+ * @returns {Promise<MessageRecord>} The stored row
+ */
+export async function insertMessage(supabase: SupabaseClient, message: NewMessage): Promise<MessageRecord> {
+  const { data, error } = await supabase
+    .from("messages")
+    .insert({
+      user_id: message.userId,
+      pdf_id: message.pdfId,
+      viewed_pdf_id: message.viewedPdfId,
+      conversation_id: message.conversationId,
+      role: message.role,
+      content: message.content,
+      citations: message.citations ?? [],
+      selection: message.selection ?? null,
+      model_id: message.modelId,
+      prompt_tokens: message.promptTokens,
+      completion_tokens: message.completionTokens,
+      latency_ms: message.latencyMs,
+      finish_reason: message.finishReason,
+    })
+    .select(MESSAGE_COLUMNS)
+    .single()
+  if (error) throw error
+  return data
+}
+
+/**
+ * Deletes a message
+ * @param supabase - Authenticated Supabase client
+ * @param messageId - Message to delete
+ */
+export async function deleteMessage(supabase: SupabaseClient, messageId: string) {
+  const { error } = await supabase.from("messages").delete().eq("id", messageId)
+  if (error) throw error
+}
@@ -0,0 +1,118 @@
+// Questions about a passage selected in the PDF
+// The viewer offers these actions for selected text together with the
+// paragraph around it; /api/chat quotes the passage to the tutor so the answer
+// is about exactly that passage, and stores it with the question
+
+import { MAX_SELECTION_CONTEXT_LENGTH, type ChatSelection } from "@/lib/api/schemas"
+
+// The ChatSelection type is part of the shared API contract
+export type { ChatSelection }
+
+// Actions offered for selected text
+export const SELECTION_ACTIONS = ["ask", "explain", "define", "simplify"] as const
+export type SelectionAction = (typeof SELECTION_ACTIONS)[number]
+
+// Label and question of each action; "ask" leaves the question to the student
+export const SELECTION_ACTION_DETAILS: Record<SelectionAction, { label: string; question: string | null }> = {
+  ask: { label: "Ask AI", question: null },
+  explain: { label: "Explain", question: "Explain this passage." },
+  define: { label: "Define", question: "Define the key terms in this passage." },
+  simplify: { label: "Simplify", question: "Rewrite this passage in simpler words." },
+}
+
+/**
+ * A line of text on a rendered page
+ * - text: the text of the line
+ * - top / bottom: vertical extent of the line (in pixels)
+ * - selected: whether part of the line is selected
+ */
+export interface TextLine {
+  text: string
+  top: number
+  bottom: number
+  selected: boolean
+}
+
+/**
+ * Finds the paragraph around the selected lines of a page
+ * A paragraph ends where the gap to the next line is clearly wider than the
+ * usual line spacing of the page, or where the text jumps up to another column
+ * @param lines - Lines of the page in reading order
+ * @param selectedText - The selected text
+ * @returns The paragraph, or null if nothing is selected or the selection
+ * already is the whole paragraph
+ */
+export function findParagraph(lines: TextLine[], selectedText: string): string | null {
+  const first = lines.findIndex((line) => line.selected)
+  if (first === -1) return null
+  let last = first
+  lines.forEach((line, i) => line.selected && (last = i))
+
+  // Usual spacing between the lines of the page; the lower quartile, since
+  // short pages may have nearly as many paragraph gaps as line gaps
+  const gaps = lines
+    .slice(1)
+    .map((line, i) => line.top - lines[i].bottom)
+    .filter((gap) => gap >= 0)
+    .sort((a, b) => a - b)
+  const spacing = gaps[Math.floor(gaps.length / 4)] ?? 0
+
+  /**
+   * Whether a paragraph ends before a line
+   * @param i - Index of the line
+   */
+  const breaksBefore = (i: number) => {
+    const height = Math.max(lines[i - 1].bottom - lines[i - 1].top, lines[i].bottom - lines[i].top)
+    const gap = lines[i].top - lines[i - 1].bottom
+    return gap < -height || gap > spacing + height / 2
+  }
+
+  let start = first
+  while (start > 0 && !breaksBefore(start)) start--
+  let end = last
+  while (end < lines.length - 1 && !breaksBefore(end + 1)) end++
+
+  const paragraph = lines
+    .slice(start, end + 1)
+    .map((line) => line.text)
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim()
+  if (paragraph.toLowerCase() === selectedText.toLowerCase()) return null
+  if (paragraph.length <= MAX_SELECTION_CONTEXT_LENGTH) return paragraph
+
+  // Keep the part of a very long paragraph centered on the selection
+  const middle = Math.max(0, paragraph.indexOf(selectedText)) + selectedText.length / 2
+  const from = Math.round(
+    Math.min(Math.max(middle - MAX_SELECTION_CONTEXT_LENGTH / 2, 0), paragraph.length - MAX_SELECTION_CONTEXT_LENGTH),
+  )
+  return paragraph.slice(from, from + MAX_SELECTION_CONTEXT_LENGTH)
+}
+
+/**
+ * Quotes text as a Markdown block quote
+ * @param text - The text to quote
+ * @returns The quoted text
+ */
+function quote(text: string) {
+  return text
+    .split("\n")
+    .map((line) => `> ${line}`)
+    .join("\n")
+}
+
+/**
+ * Builds the message the tutor receives for a question, quoting the passage
+ * it is about
+ * @param message - The question as typed
+ * @param selection - The selected passage, if any
+ * @returns The message with the quoted passage, or the question as is
+ */
+export function withSelection(message: string, selection: ChatSelection | null | undefined): string {
+  if (!selection) return message
+
+  const parts = [`I selected this passage on page ${selection.pageNumber}:`, quote(selection.text)]
+  if (selection.context) parts.push("It is part of this paragraph:", quote(selection.context))
+  parts.push(`Answer about exactly this passage. ${message}`)
+  return parts.join("\n\n")
+}
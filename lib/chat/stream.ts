@@ -0,0 +1,153 @@
+// Chat streaming protocol shared by /api/chat and ChatInterface
+// The route answers with newline-delimited JSON (one event per line) so the
+// browser can render tokens as they arrive and still receive structured data
+
+import { chatStreamEventSchema, type ChatStreamEvent } from "@/lib/api/schemas"
+
+// Event types are part of the shared API contract (lib/api/schemas.ts)
+export type { ChatStreamEvent }
+
+/**
+ * Writer handed to the route while the response is streaming
+ */
+export interface ChatStreamWriter {
+  write: (event: ChatStreamEvent) => void
+}
+
+/**
+ * Minimal shape of the AI SDK stream parts consumed by forwardTextStream
+ */
+type TextStreamPart =
+  | { type: "text-delta"; text: string }
+  | { type: "finish"; finishReason: string; totalUsage: { inputTokens?: number; outputTokens?: number } }
+  | { type: "error"; error: unknown }
+  | { type: string }
+
+/**
+ * Creates a streaming NDJSON response
+ * Errors thrown by execute are reported to the client as an error event
+ * @param execute - Callback producing the events of the response
+ * @returns {Response} Response whose body streams the events
+ */
+export function createChatStreamResponse(execute: (writer: ChatStreamWriter) => Promise<void>) {
+  const encoder = new TextEncoder()
+  // Set once the client stops reading (e.g. the Stop button aborted the fetch)
+  let cancelled = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const writer: ChatStreamWriter = {
+        write: (event) => {
+          if (!cancelled) controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"))
+        },
+      }
+
+      try {
+        await execute(writer)
+      } catch (error) {
+        console.error("[v0] Chat stream error:", error)
+        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred"
+        writer.write({ type: "error", error: `Failed to get AI response: ${errorMessage}` })
+      } finally {
+        if (!cancelled) controller.close()
+      }
+    },
+    cancel() {
+      cancelled = true
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+    },
+  })
+}
+
+/**
+ * Result of forwarding a text stream
+ * @property text - Everything generated, possibly partial
+ * @property finishReason - Model finish reason, "aborted" or "error"
+ * @property usage - Token counts, when the model finished normally
+ * @property error - The generation error, if any
+ */
+export interface ForwardedText {
+  text: string
+  finishReason: string
+  usage?: { inputTokens?: number; outputTokens?: number }
+  error?: unknown
+}
+
+/**
+ * Forwards the text of an AI SDK stream to the client as delta events
+ * Generation errors are returned rather than thrown so the partial text can
+ * still be stored; the caller sends the finish or error event
+ * @param fullStream - The fullStream of a streamText result
+ * @param writer - Writer of the chat response
+ * @returns {Promise<ForwardedText>} The generated text and how generation ended
+ */
+export async function forwardTextStream(
+  fullStream: AsyncIterable<TextStreamPart>,
+  writer: ChatStreamWriter,
+): Promise<ForwardedText> {
+  const result: ForwardedText = { text: "", finishReason: "unknown" }
+
+  try {
+    for await (const part of fullStream) {
+      if (part.type === "text-delta" && "text" in part) {
+        result.text += part.text
+        writer.write({ type: "delta", text: part.text })
+      } else if (part.type === "error" && "error" in part) {
+        result.error = part.error
+        result.finishReason = "error"
+        break
+      } else if (part.type === "finish" && "finishReason" in part) {
+        result.finishReason = part.finishReason
+        result.usage = part.totalUsage
+      } else if (part.type === "abort") {
+        result.finishReason = "aborted"
+      }
+    }
+  } catch (error) {
+    result.error = error
+    result.finishReason = "error"
+  }
+
+  return result
+}
+
+/**
+ * Reads the events of a chat response stream
+ * Every event is validated against the shared schema
+ * @param response - Response returned by /api/chat
+ * @returns {AsyncGenerator<ChatStreamEvent>} The events in the order they were sent
+ */
+export async function* readChatStream(response: Response): AsyncGenerator<ChatStreamEvent> {
+  if (!response.body) return
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split("\n")
+      // The last element is an incomplete line (or empty) - keep it for later
+      buffer = lines.pop() ?? ""
+
+      for (const line of lines) {
+        if (line.trim()) yield chatStreamEventSchema.parse(JSON.parse(line))
+      }
+    }
+
+    buffer += decoder.decode()
+    if (buffer.trim()) yield chatStreamEventSchema.parse(JSON.parse(buffer))
+  } finally {
+    reader.releaseLock()
+  }
+}
@@ -0,0 +1,177 @@
+// Flashcard generation
+// Cards are generated as structured output from the whole document, a page
+// range or the student's annotations, then checked before they are stored
+
+import { generateObject } from "ai"
+import { z } from "zod"
+import { getGenerationSettings, getLanguageModel } from "@/lib/ai/providers"
+import { formatPageRange } from "@/lib/pdf/extract"
+import type { FlashcardSource } from "@/lib/api/schemas"
+
+// Most characters of source text sent to the model
+const MAX_CONTEXT_LENGTH = 24000
+// Characters of page text used for an annotation without captured text
+const ANNOTATION_PAGE_EXCERPT_LENGTH = 600
+// Longest structured response allowed for a batch of cards (in tokens)
+const FLASHCARDS_MAX_OUTPUT_TOKENS = 4000
+
+/**
+ * An annotation used as flashcard source
+ */
+export interface AnnotationSource {
+  id: string
+  page_number: number
+  type: string
+  text_content: string | null
+  note_content: string | null
+}
+
+/**
+ * A generated card ready to be stored
+ * @property pageNumber - Page the card is based on, if known
+ * @property annotationId - Annotation the card is based on, for the "annotations" source
+ */
+export interface GeneratedFlashcard {
+  front: string
+  back: string
+  pageNumber: number | null
+  source: "document" | "pages" | "annotation"
+  annotationId: string | null
+}
+
+/**
+ * Thrown when the selected source has nothing to make cards from
+ */
+export class FlashcardGenerationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "FlashcardGenerationError"
+  }
+}
+
+// Shape of the structured output requested from the model
+const generatedCardsSchema = z.object({
+  cards: z.array(
+    z.object({
+      front: z.string().describe("Question or term on the front of the card"),
+      back: z.string().describe("Concise answer or definition on the back of the card"),
+      pageNumber: z.number().int().describe("Page the card is based on"),
+      annotation: z
+        .number()
+        .int()
+        .describe("Number of the annotation the card is based on, or 0 when cards are made from pages"),
+    }),
+  ),
+})
+
+/**
+ * Formats annotations as numbered prompt context
+ * Annotations without captured text are represented by an excerpt of their page
+ * @param annotations - The annotations to list
+ * @param pages - Text of every page, index 0 is page 1
+ * @returns The numbered annotations
+ */
+function formatAnnotations(annotations: AnnotationSource[], pages: string[]) {
+  return annotations
+    .map((annotation, i) => {
+      const text =
+        annotation.text_content?.trim() ||
+        (pages[annotation.page_number - 1] ?? "").trim().slice(0, ANNOTATION_PAGE_EXCERPT_LENGTH)
+      const note = annotation.note_content?.trim()
+      return `[${i + 1}] (Page ${annotation.page_number}, ${annotation.type}) ${text}${note ? `\nStudent note: ${note}` : ""}`
+    })
+    .join("\n\n")
+    .slice(0, MAX_CONTEXT_LENGTH)
+}
+
+/**
+ * Generates flashcards
+ * @param params - Source kind, text of every page, page range, annotations
+ * (for the "annotations" source), number of cards and the model's registry id
+ * @returns {Promise<GeneratedFlashcard[]>} The cards
+ * @throws {FlashcardGenerationError} If the source has no text or no usable card was generated
+ */
+export async function generateFlashcards({
+  source,
+  pages,
+  pageStart,
+  pageEnd,
+  annotations = [],
+  cardCount,
+  modelId,
+}: {
+  source: FlashcardSource
+  pages: string[]
+  pageStart?: number
+  pageEnd?: number
+  annotations?: AnnotationSource[]
+  cardCount: number
+  modelId: string
+}): Promise<GeneratedFlashcard[]> {
+  const fromAnnotations = source === "annotations"
+  const context = fromAnnotations
+    ? formatAnnotations(annotations, pages)
+    : formatPageRange(pages, {
+        pageStart: source === "pages" ? pageStart : undefined,
+        pageEnd: source === "pages" ? pageEnd : undefined,
+        maxLength: MAX_CONTEXT_LENGTH,
+      })
+
+  if (!context) {
+    throw new FlashcardGenerationError(
+      fromAnnotations
+        ? "There are no annotations to make flashcards from"
+        : "The selected pages contain no text to make flashcards from",
+    )
+  }
+
+  const { object } = await generateObject({
+    model: getLanguageModel(modelId),
+    schema: generatedCardsSchema,
+    system: `You are an AI tutor writing flashcards that help a student memorize a document.
+Write up to ${cardCount} flashcards. Each card tests one fact, term or idea; the front asks, the back answers in at most two sentences.
+${
+  fromAnnotations
+    ? "Base every card on one of the student's numbered annotations below and give its number. Use the student's notes to decide what matters to them."
+    : "Cover the most important ideas of the pages below and give the page each card is based on."
+}
+
+${fromAnnotations ? "Annotations" : "Pages"}:
+${context}`,
+    prompt: "Write the flashcards.",
+    ...getGenerationSettings(),
+    maxOutputTokens: FLASHCARDS_MAX_OUTPUT_TOKENS,
+  })
+
+  const firstPage = source === "pages" && pageStart ? pageStart : 1
+  const lastPage = source === "pages" && pageEnd ? pageEnd : Math.max(pages.length, 1)
+
+  return object.cards
+    .map((card): GeneratedFlashcard | null => {
+      const front = card.front.trim()
+      const back = card.back.trim()
+      if (!front || !back) return null
+
+      if (fromAnnotations) {
+        const annotation = annotations[card.annotation - 1]
+        return {
+          front,
+          back,
+          pageNumber: annotation?.page_number ?? null,
+          source: "annotation",
+          annotationId: annotation?.id ?? null,
+        }
+      }
+
+      return {
+        front,
+        back,
+        // Cited pages outside the source are moved to its nearest end
+        pageNumber: Math.min(Math.max(card.pageNumber, firstPage), lastPage),
+        source: source === "pages" ? "pages" : "document",
+        annotationId: null,
+      }
+    })
+    .filter((card) => card !== null)
+    .slice(0, cardCount)
+}
@@ -0,0 +1,79 @@
+// Server-side persistence of flashcard decks and cards
+// Every PDF has at most one deck; it is created with its first cards
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { Flashcard, FlashcardDeck } from "@/lib/api/schemas"
+import type { GeneratedFlashcard } from "@/lib/flashcards/generate"
+
+// Columns of flashcard_decks returned to the client
+export const DECK_COLUMNS = "id, pdf_id, title, created_at"
+// Columns of flashcards returned to the client
+export const FLASHCARD_COLUMNS =
+  "id, deck_id, front, back, page_number, source, annotation_id, ease_factor, interval_days, repetitions, due_at, last_reviewed_at, created_at"
+
+/**
+ * Loads the deck of a PDF, creating it if needed
+ * @param supabase - Authenticated Supabase client
+ * @param params - Owner, PDF id and the title of a new deck
+ * @returns {Promise<FlashcardDeck>} The deck
+ */
+export async function getOrCreateDeck(
+  supabase: SupabaseClient,
+  { userId, pdfId, title }: { userId: string; pdfId: string; title: string },
+): Promise<FlashcardDeck> {
+  const { data: existing, error } = await supabase
+    .from("flashcard_decks")
+    .select(DECK_COLUMNS)
+    .eq("pdf_id", pdfId)
+    .maybeSingle()
+  if (error) throw error
+  if (existing) return existing
+
+  const { data, error: insertError } = await supabase
+    .from("flashcard_decks")
+    .insert({ user_id: userId, pdf_id: pdfId, title })
+    .select(DECK_COLUMNS)
+    .single()
+  if (insertError) throw insertError
+  return data
+}
+
+/**
+ * Adds generated cards to a deck, skipping cards whose front is already in it
+ * New cards are due immediately
+ * @param supabase - Authenticated Supabase client
+ * @param params - Owner, deck, PDF and the generated cards
+ * @returns {Promise<Flashcard[]>} The stored cards
+ */
+export async function insertFlashcards(
+  supabase: SupabaseClient,
+  { userId, deck, cards }: { userId: string; deck: FlashcardDeck; cards: GeneratedFlashcard[] },
+): Promise<Flashcard[]> {
+  const { data: existing, error } = await supabase.from("flashcards").select("front").eq("deck_id", deck.id)
+  if (error) throw error
+
+  const seen = new Set((existing ?? []).map((card) => card.front.toLowerCase()))
+  const rows = cards
+    .filter((card) => {
+      const key = card.front.toLowerCase()
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+    .map((card) => ({
+      user_id: userId,
+      deck_id: deck.id,
+      pdf_id: deck.pdf_id,
+      front: card.front,
+      back: card.back,
+      page_number: card.pageNumber,
+      source: card.source,
+      annotation_id: card.annotationId,
+    }))
+
+  if (rows.length === 0) return []
+
+  const { data, error: insertError } = await supabase.from("flashcards").insert(rows).select(FLASHCARD_COLUMNS)
+  if (insertError) throw insertError
+  return data
+}
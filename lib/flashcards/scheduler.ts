@@ -0,0 +1,92 @@
+// SM-2 spaced-repetition scheduler
+// After every review a card's ease factor and interval are updated from how
+// well it was recalled, so easy cards come back rarely and hard ones often.
+// This module is pure so the review buttons can preview the next interval
+
+import type { ReviewGrade } from "@/lib/api/schemas"
+
+// Lowest ease factor a card can reach (SM-2)
+const MIN_EASE_FACTOR = 1.3
+// Extra interval growth for cards graded "easy"
+const EASY_BONUS = 1.3
+// Interval growth for mature cards graded "hard" (instead of the ease factor)
+const HARD_MULTIPLIER = 1.2
+// Delay before a forgotten card is shown again (in minutes)
+const RELEARN_DELAY_MINUTES = 10
+
+// SM-2 recall quality (0-5) of each grade
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 0,
+  hard: 3,
+  good: 4,
+  easy: 5,
+}
+
+/**
+ * Scheduling state of a card
+ * @property easeFactor - Multiplier applied to the interval after each successful review
+ * @property intervalDays - Days between the last review and the next one
+ * @property repetitions - Successful reviews in a row
+ */
+export interface ReviewState {
+  easeFactor: number
+  intervalDays: number
+  repetitions: number
+}
+
+/**
+ * Computes the scheduling state after a review
+ * @param state - State before the review
+ * @param grade - How well the card was recalled
+ * @param now - Time of the review
+ * @returns The new state and when the card is due again
+ */
+export function scheduleReview(
+  state: ReviewState,
+  grade: ReviewGrade,
+  now = new Date(),
+): ReviewState & { dueAt: Date } {
+  const quality = GRADE_QUALITY[grade]
+
+  // A forgotten card starts over and comes back in the same session
+  if (quality < 3) {
+    return {
+      easeFactor: Math.max(MIN_EASE_FACTOR, state.easeFactor - 0.2),
+      intervalDays: 0,
+      repetitions: 0,
+      dueAt: new Date(now.getTime() + RELEARN_DELAY_MINUTES * 60 * 1000),
+    }
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)),
+  )
+  const repetitions = state.repetitions + 1
+
+  const growth = grade === "hard" ? HARD_MULTIPLIER : easeFactor
+  let intervalDays =
+    repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(Math.max(state.intervalDays, 1) * growth)
+  if (grade === "easy") intervalDays = Math.round(intervalDays * EASY_BONUS)
+
+  return {
+    easeFactor,
+    intervalDays,
+    repetitions,
+    dueAt: new Date(now.getTime() + intervalDays * 24 * 60 * 60 * 1000),
+  }
+}
+
+/**
+ * Describes when a card would be due again, for the review buttons
+ * @param state - State before the review
+ * @param grade - The grade to preview
+ * @returns Short label such as "10m", "1d" or "2mo"
+ */
+export function formatNextInterval(state: ReviewState, grade: ReviewGrade) {
+  const { intervalDays } = scheduleReview(state, grade)
+  if (intervalDays === 0) return `${RELEARN_DELAY_MINUTES}m`
+  if (intervalDays < 30) return `${intervalDays}d`
+  if (intervalDays < 365) return `${Math.round(intervalDays / 30)}mo`
+  return `${Math.round(intervalDays / 365)}y`
+}
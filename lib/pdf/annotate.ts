@@ -0,0 +1,414 @@
+// Writes annotations into a copy of a PDF with pdf-lib
+// Annotations are stored in normalized coordinates of the page as the viewer
+// shows it (crop box, rotation applied, origin top-left), so every point is
+// mapped back to PDF user space before it is written. Two styles:
+// - annotations: real PDF highlight, underline and sticky note (Text)
+//   annotations that any PDF reader lists, edits and shows on hover
+// - burned: the marks are drawn into the page content and the notes are
+//   numbered on the page and listed on pages added at the end
+
+import {
+  BlendMode,
+  closePath,
+  fill,
+  lineTo,
+  moveTo,
+  PDFDocument,
+  PDFHexString,
+  PDFString,
+  popGraphicsState,
+  pushGraphicsState,
+  rgb,
+  setFillingRgbColor,
+  setGraphicsState,
+  setLineWidth,
+  setStrokingRgbColor,
+  StandardFonts,
+  stroke,
+  type PDFFont,
+  type PDFPage,
+  type PDFRef,
+} from "pdf-lib"
+import type { AnnotatedPdfStyle, AnnotationRecord, PageRect } from "@/lib/api/schemas"
+import { compareReadingOrder } from "@/lib/annotations/geometry"
+
+// Opacity of highlights, multiplied onto the page so the text stays readable
+const HIGHLIGHT_OPACITY = 0.4
+// Thickness of underlines (in points)
+const UNDERLINE_WIDTH = 1.5
+// Size of a sticky note icon (in points)
+const NOTE_ICON_SIZE = 20
+// Color used when a stored color cannot be read (the palette's yellow)
+const FALLBACK_COLOR = { r: 0.992, g: 0.878, b: 0.278 }
+
+/**
+ * A point in PDF user space
+ */
+interface Point {
+  x: number
+  y: number
+}
+
+/**
+ * Corners of a rect in PDF user space, named as the page is shown
+ */
+interface Quad {
+  topLeft: Point
+  topRight: Point
+  bottomLeft: Point
+  bottomRight: Point
+}
+
+/**
+ * Reads a "#rrggbb" or "#rgb" color
+ * @param color - A stored annotation color
+ * @returns The color with channels from 0 to 1
+ */
+function parseColor(color: string) {
+  const hex = color.trim().replace(/^#/, "")
+  const full = hex.length === 3 ? hex.replace(/./g, "$&$&") : hex
+  if (!/^[0-9a-f]{6}$/i.test(full)) return FALLBACK_COLOR
+  const value = parseInt(full, 16)
+  return { r: ((value >> 16) & 255) / 255, g: ((value >> 8) & 255) / 255, b: (value & 255) / 255 }
+}
+
+/**
+ * Maps a point in normalized coordinates of the shown page to PDF user space
+ * The page is shown as pdf.js renders it: its crop box, rotated clockwise by
+ * the page rotation, with the origin at the top-left corner
+ * @param page - The page
+ * @param u - Distance from the left edge, as a fraction of the shown width
+ * @param v - Distance from the top edge, as a fraction of the shown height
+ * @returns The point in PDF user space
+ */
+function toPdfPoint(page: PDFPage, u: number, v: number): Point {
+  const box = page.getCropBox()
+  const left = box.x
+  const right = box.x + box.width
+  const bottom = box.y
+  const top = box.y + box.height
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360
+
+  switch (rotation) {
+    case 90:
+      return { x: left + v * box.width, y: bottom + u * box.height }
+    case 180:
+      return { x: right - u * box.width, y: bottom + v * box.height }
+    case 270:
+      return { x: right - v * box.width, y: top - u * box.height }
+    default:
+      return { x: left + u * box.width, y: top - v * box.height }
+  }
+}
+
+/**
+ * Maps a normalized rect to its corners in PDF user space
+ * @param page - The page
+ * @param rect - The rect
+ * @returns The corners of the rect
+ */
+function toQuad(page: PDFPage, rect: PageRect): Quad {
+  return {
+    topLeft: toPdfPoint(page, rect.x, rect.y),
+    topRight: toPdfPoint(page, rect.x + rect.width, rect.y),
+    bottomLeft: toPdfPoint(page, rect.x, rect.y + rect.height),
+    bottomRight: toPdfPoint(page, rect.x + rect.width, rect.y + rect.height),
+  }
+}
+
+/**
+ * Smallest box containing a set of points, as a PDF rectangle array
+ * @param points - The points
+ * @param margin - Space added around the box (in points)
+ * @returns [left, bottom, right, top]
+ */
+function boundsOf(points: Point[], margin = 0) {
+  const xs = points.map((p) => p.x)
+  const ys = points.map((p) => p.y)
+  return [Math.min(...xs) - margin, Math.min(...ys) - margin, Math.max(...xs) + margin, Math.max(...ys) + margin]
+}
+
+/**
+ * Lists the corners of every quad in the order of the QuadPoints entry of a
+ * text markup annotation (top-left, top-right, bottom-left, bottom-right)
+ * @param quads - The quads
+ * @returns The flat list of coordinates
+ */
+function toQuadPoints(quads: Quad[]) {
+  return quads.flatMap((q) => [q.topLeft, q.topRight, q.bottomLeft, q.bottomRight].flatMap((p) => [p.x, p.y]))
+}
+
+/**
+ * Adds a highlight or underline annotation with its appearance, so readers
+ * that do not draw markup annotations themselves still show it
+ * @param doc - The document
+ * @param page - The page
+ * @param annotation - The stored annotation
+ * @returns Reference to the added annotation
+ */
+function addMarkupAnnotation(doc: PDFDocument, page: PDFPage, annotation: AnnotationRecord): PDFRef {
+  const quads = annotation.position.rects.map((rect) => toQuad(page, rect))
+  const { r, g, b } = parseColor(annotation.color)
+  const isHighlight = annotation.type === "highlight"
+  const rect = boundsOf(
+    quads.flatMap((q) => [q.topLeft, q.topRight, q.bottomLeft, q.bottomRight]),
+    UNDERLINE_WIDTH,
+  )
+
+  // Appearance: filled quads for a highlight, a line under every quad for an underline
+  const operators = isHighlight
+    ? [
+        pushGraphicsState(),
+        setGraphicsState("GS0"),
+        setFillingRgbColor(r, g, b),
+        ...quads.flatMap((q) => [
+          moveTo(q.topLeft.x, q.topLeft.y),
+          lineTo(q.topRight.x, q.topRight.y),
+          lineTo(q.bottomRight.x, q.bottomRight.y),
+          lineTo(q.bottomLeft.x, q.bottomLeft.y),
+          closePath(),
+        ]),
+        fill(),
+        popGraphicsState(),
+      ]
+    : [
+        pushGraphicsState(),
+        setStrokingRgbColor(r, g, b),
+        setLineWidth(UNDERLINE_WIDTH),
+        ...quads.flatMap((q) => [moveTo(q.bottomLeft.x, q.bottomLeft.y), lineTo(q.bottomRight.x, q.bottomRight.y)]),
+        stroke(),
+        popGraphicsState(),
+      ]
+  const appearance = doc.context.formXObject(operators, {
+    BBox: rect,
+    Resources: isHighlight
+      ? { ExtGState: { GS0: { Type: "ExtGState", BM: "Multiply", ca: HIGHLIGHT_OPACITY } } }
+      : {},
+  })
+
+  return doc.context.register(
+    doc.context.obj({
+      Type: "Annot",
+      Subtype: isHighlight ? "Highlight" : "Underline",
+      Rect: rect,
+      QuadPoints: toQuadPoints(quads),
+      C: [r, g, b],
+      F: 4,
+      P: page.ref,
+      NM: PDFString.of(annotation.id),
+      M: PDFString.fromDate(new Date(annotation.updated_at)),
+      AP: { N: doc.context.register(appearance) },
+    }),
+  )
+}
+
+/**
+ * Adds a sticky note (Text annotation) at the top-right corner of the first
+ * rect of a note, where the viewer shows its pin
+ * @param doc - The document
+ * @param page - The page
+ * @param annotation - The stored note
+ * @returns Reference to the added annotation
+ */
+function addNoteAnnotation(doc: PDFDocument, page: PDFPage, annotation: AnnotationRecord): PDFRef {
+  const first = annotation.position.rects[0]
+  const pin = toPdfPoint(page, first.x + first.width, first.y)
+  const { r, g, b } = parseColor(annotation.color)
+
+  return doc.context.register(
+    doc.context.obj({
+      Type: "Annot",
+      Subtype: "Text",
+      Rect: [pin.x, pin.y, pin.x + NOTE_ICON_SIZE, pin.y + NOTE_ICON_SIZE],
+      Name: "Comment",
+      Open: false,
+      C: [r, g, b],
+      // Printed, and kept at the same size and upright when zooming or rotating
+      F: 4 | 8 | 16,
+      P: page.ref,
+      NM: PDFString.of(annotation.id),
+      M: PDFString.fromDate(new Date(annotation.updated_at)),
+      Contents: PDFHexString.fromText(annotation.note_content ?? ""),
+    }),
+  )
+}
+
+/**
+ * Replaces characters the standard fonts cannot draw
+ * @param font - The font
+ * @param text - The text
+ * @returns The text with unsupported characters replaced by "?"
+ */
+function toDrawableText(font: PDFFont, text: string) {
+  const supported = new Set(font.getCharacterSet())
+  return [...text.replace(/\t/g, "  ")]
+    .map((char) => (char === "\n" || supported.has(char.codePointAt(0)!) ? char : "?"))
+    .join("")
+}
+
+/**
+ * Splits text into lines that fit a width
+ * @param font - The font
+ * @param size - The font size
+ * @param text - The text, with line breaks kept
+ * @param width - The width available (in points)
+ * @returns The lines
+ */
+function wrapText(font: PDFFont, size: number, text: string, width: number) {
+  return text.split("\n").flatMap((paragraph) => {
+    const lines: string[] = []
+    let line = ""
+    for (const word of paragraph.split(/ +/)) {
+      const candidate = line ? `${line} ${word}` : word
+      if (line && font.widthOfTextAtSize(candidate, size) > width) {
+        lines.push(line)
+        line = word
+      } else {
+        line = candidate
+      }
+    }
+    lines.push(line)
+    return lines
+  })
+}
+
+/**
+ * Draws highlights and underlines into the page content
+ * @param page - The page
+ * @param annotation - The stored highlight or underline
+ */
+function burnMarkup(page: PDFPage, annotation: AnnotationRecord) {
+  const { r, g, b } = parseColor(annotation.color)
+  for (const rect of annotation.position.rects) {
+    const quad = toQuad(page, rect)
+    if (annotation.type === "highlight") {
+      const [left, bottom, right, top] = boundsOf([quad.topLeft, quad.bottomRight])
+      page.drawRectangle({
+        x: left,
+        y: bottom,
+        width: right - left,
+        height: top - bottom,
+        color: rgb(r, g, b),
+        opacity: HIGHLIGHT_OPACITY,
+        blendMode: BlendMode.Multiply,
+      })
+    } else {
+      page.drawLine({
+        start: quad.bottomLeft,
+        end: quad.bottomRight,
+        thickness: UNDERLINE_WIDTH,
+        color: rgb(r, g, b),
+      })
+    }
+  }
+}
+
+/**
+ * Draws a numbered marker where the viewer shows the pin of a note
+ * @param page - The page
+ * @param annotation - The stored note
+ * @param number - Number of the note in the notes list
+ * @param font - Font of the number
+ */
+function burnNoteMarker(page: PDFPage, annotation: AnnotationRecord, number: number, font: PDFFont) {
+  const first = annotation.position.rects[0]
+  const pin = toPdfPoint(page, first.x + first.width, first.y)
+  const { r, g, b } = parseColor(annotation.color)
+  const label = String(number)
+  const size = 7
+
+  page.drawCircle({ x: pin.x, y: pin.y, size: 6, color: rgb(r, g, b), borderColor: rgb(0.2, 0.2, 0.2), borderWidth: 0.5 })
+  page.drawText(label, {
+    x: pin.x - font.widthOfTextAtSize(label, size) / 2,
+    y: pin.y - size / 3,
+    size,
+    font,
+    color: rgb(0, 0, 0),
+  })
+}
+
+/**
+ * Adds pages at the end of the document listing the burned-in notes
+ * @param doc - The document
+ * @param notes - The notes, numbered in order
+ * @param fonts - Regular and bold fonts
+ */
+function appendNotesPages(doc: PDFDocument, notes: AnnotationRecord[], fonts: { regular: PDFFont; bold: PDFFont }) {
+  const [width, height] = [612, 792]
+  const margin = 56
+  const size = 10
+  const lineHeight = size * 1.4
+
+  let page = doc.addPage([width, height])
+  let y = height - margin
+  page.drawText("Notes", { x: margin, y, size: 16, font: fonts.bold })
+  y -= 32
+
+  notes.forEach((note, i) => {
+    const heading = `${i + 1}. Page ${note.page_number}`
+    const lines = wrapText(fonts.regular, size, toDrawableText(fonts.regular, note.note_content ?? ""), width - 2 * margin - 12)
+    for (const [index, line] of [heading, ...lines].entries()) {
+      if (y < margin) {
+        page = doc.addPage([width, height])
+        y = height - margin
+      }
+      page.drawText(line, {
+        x: index === 0 ? margin : margin + 12,
+        y,
+        size,
+        font: index === 0 ? fonts.bold : fonts.regular,
+      })
+      y -= lineHeight
+    }
+    y -= lineHeight / 2
+  })
+}
+
+/**
+ * Writes annotations into a copy of a PDF
+ * Annotations on pages the document does not have, or without any rect, are skipped
+ * @param data - The original PDF file
+ * @param annotations - The annotations to write
+ * @param style - Real PDF annotations, or marks drawn into the pages
+ * @returns The annotated PDF file
+ */
+export async function writeAnnotatedPdf(
+  data: ArrayBuffer,
+  annotations: AnnotationRecord[],
+  style: AnnotatedPdfStyle,
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.load(data, { ignoreEncryption: true })
+  const pages = doc.getPages()
+  const placed = [...annotations]
+    .sort(compareReadingOrder)
+    .filter((a) => a.position.rects.length > 0 && a.page_number >= 1 && a.page_number <= pages.length)
+
+  if (style === "annotations") {
+    for (const annotation of placed) {
+      const page = pages[annotation.page_number - 1]
+      const ref =
+        annotation.type === "note"
+          ? addNoteAnnotation(doc, page, annotation)
+          : addMarkupAnnotation(doc, page, annotation)
+      page.node.addAnnot(ref)
+    }
+    return doc.save()
+  }
+
+  const fonts = {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+  }
+  const notes = placed.filter((a) => a.type === "note" && a.note_content)
+  for (const annotation of placed) {
+    const page = pages[annotation.page_number - 1]
+    if (annotation.type === "note") {
+      const number = notes.indexOf(annotation) + 1
+      if (number > 0) burnNoteMarker(page, annotation, number, fonts.bold)
+    } else {
+      burnMarkup(page, annotation)
+    }
+  }
+  if (notes.length > 0) appendNotesPages(doc, notes, fonts)
+  return doc.save()
+}
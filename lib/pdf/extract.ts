@@ -0,0 +1,124 @@
+// Server-side PDF text extraction helpers
+// This module parses PDF files with a serverless build of PDF.js and stores
+// the extracted text per page in the pdf_pages table
+
+import { extractText, getDocumentProxy } from "unpdf"
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+/**
+ * Result of extracting text from a PDF
+ * @property pageCount - True number of pages in the document
+ * @property pages - Text of each page, index 0 is page 1
+ * @property text - Full document text with pages separated by blank lines
+ */
+export interface ExtractedPdf {
+  pageCount: number
+  pages: string[]
+  text: string
+}
+
+/**
+ * Collapses runs of whitespace produced by PDF.js text items
+ * @param text - Raw page text
+ * @returns Trimmed text with single spaces and at most one blank line
+ */
+function normalizePageText(text: string) {
+  return text
+    .replace(/[ \t\f\v]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+}
+
+/**
+ * Extracts the text of every page of a PDF
+ * @param data - Raw bytes of the PDF file
+ * @returns {Promise<ExtractedPdf>} Page count, per-page text and the joined full text
+ */
+export async function extractPdfText(data: ArrayBuffer): Promise<ExtractedPdf> {
+  const pdf = await getDocumentProxy(new Uint8Array(data))
+  const { totalPages, text } = await extractText(pdf, { mergePages: false })
+  const pages = text.map(normalizePageText)
+  return {
+    pageCount: totalPages,
+    pages,
+    text: pages.join("\n\n"),
+  }
+}
+
+/**
+ * Replaces the stored per-page text of a PDF
+ * Existing rows for the PDF are removed first so re-extraction is idempotent
+ * @param supabase - Authenticated Supabase client
+ * @param params - Owner, PDF id and the text of each page (index 0 is page 1)
+ */
+export async function savePdfPages(
+  supabase: SupabaseClient,
+  { userId, pdfId, pages }: { userId: string; pdfId: string; pages: string[] },
+) {
+  const { error: deleteError } = await supabase.from("pdf_pages").delete().eq("pdf_id", pdfId)
+  if (deleteError) throw deleteError
+
+  if (pages.length === 0) return
+
+  const { error } = await supabase.from("pdf_pages").insert(
+    pages.map((text, index) => ({
+      user_id: userId,
+      pdf_id: pdfId,
+      page_number: index + 1,
+      text_content: text,
+    })),
+  )
+  if (error) throw error
+}
+
+/**
+ * Loads the stored text of every page of a PDF
+ * Documents uploaded before per-page storage existed fall back to their full
+ * text as a single page
+ * @param supabase - Authenticated Supabase client
+ * @param pdfId - PDF to load
+ * @returns {Promise<string[]>} Text of each page, index 0 is page 1
+ */
+export async function loadPdfPages(supabase: SupabaseClient, pdfId: string): Promise<string[]> {
+  const { data: pageRows, error: pagesError } = await supabase
+    .from("pdf_pages")
+    .select("page_number, text_content")
+    .eq("pdf_id", pdfId)
+    .order("page_number", { ascending: true })
+  if (pagesError) throw pagesError
+
+  if (pageRows && pageRows.length > 0) {
+    const pages: string[] = []
+    for (const row of pageRows) pages[row.page_number - 1] = row.text_content
+    return Array.from(pages, (text) => text ?? "")
+  }
+
+  const { data: pdf, error: pdfError } = await supabase
+    .from("pdf_files")
+    .select("text_content")
+    .eq("id", pdfId)
+    .single()
+  if (pdfError) throw pdfError
+  return [pdf.text_content]
+}
+
+/**
+ * Formats a page range as prompt context, each page labelled with its number
+ * Empty pages are left out
+ * @param pages - Text of every page, index 0 is page 1
+ * @param range - Inclusive page range and the longest context to return (in characters)
+ * @returns The labelled page text, or an empty string if the range has no text
+ */
+export function formatPageRange(
+  pages: string[],
+  { pageStart = 1, pageEnd = pages.length, maxLength }: { pageStart?: number; pageEnd?: number; maxLength: number },
+) {
+  return pages
+    .slice(pageStart - 1, pageEnd)
+    .map((text, i) => ({ pageNumber: pageStart + i, text: text.trim() }))
+    .filter((page) => page.text)
+    .map((page) => `(Page ${page.pageNumber})\n${page.text}`)
+    .join("\n\n")
+    .slice(0, maxLength)
+}
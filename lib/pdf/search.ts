@@ -0,0 +1,123 @@
+// Text search within a document
+// Builds the pattern of a search from the query and its options, and finds
+// the hits in the extracted text of every page (pdf_pages) for the list of
+// results; the viewer runs the same pattern over the text layer of a rendered
+// page to highlight the matches, and uses it to anchor annotated text to the
+// extracted text
+
+// Most hits listed for one search
+export const MAX_SEARCH_HITS = 500
+// Characters of page text shown on either side of a hit
+const SNIPPET_RADIUS = 40
+
+/**
+ * Options of a search
+ * - matchCase: only match the query's upper and lower case exactly
+ * - wholeWord: only match whole words, not parts of longer words
+ */
+export interface SearchOptions {
+  matchCase: boolean
+  wholeWord: boolean
+}
+
+/**
+ * A match of a search in the extracted text of a page
+ * - pageNumber: page of the match
+ * - index: number of the match on its page, 0 for the first
+ * - before / text / after: the matched text and the text around it
+ */
+export interface SearchHit {
+  pageNumber: number
+  index: number
+  before: string
+  text: string
+  after: string
+}
+
+/**
+ * Escapes the characters of a string that have a meaning in regular expressions
+ * @param text - The string
+ * @returns The escaped string
+ */
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Builds the pattern of a search
+ * Whitespace in the query matches any whitespace or none, since the text of
+ * a page may run lines together without a space
+ * @param query - The search text
+ * @param options - Case and whole-word options
+ * @returns A global pattern, or null if the query is empty
+ */
+export function buildSearchPattern(query: string, { matchCase, wholeWord }: SearchOptions): RegExp | null {
+  const words = query.trim().split(/\s+/).filter(Boolean)
+  if (words.length === 0) return null
+
+  let source = words.map(escapeRegExp).join("\\s*")
+  if (wholeWord) source = `(?<![\\p{L}\\p{N}_])${source}(?![\\p{L}\\p{N}_])`
+  return new RegExp(source, matchCase ? "gu" : "giu")
+}
+
+/**
+ * Finds the matches of a pattern in a text
+ * @param text - The text to search
+ * @param pattern - A global pattern from buildSearchPattern
+ * @returns Start and end offset of every match
+ */
+export function findMatches(text: string, pattern: RegExp): { start: number; end: number }[] {
+  return Array.from(text.matchAll(pattern), (match) => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  })).filter((match) => match.end > match.start)
+}
+
+/**
+ * Finds a passage selected in the text layer in the extracted text of its page
+ * The two texts space words differently, so offsets in one do not carry over
+ * to the other; the passage is matched ignoring whitespace and, if it occurs
+ * more than once, the match nearest to where it was selected is taken
+ * @param pageText - The extracted text of the page
+ * @param text - The selected passage
+ * @param position - Where the passage starts in the text layer, as a fraction (0-1) of its length
+ * @returns Start and end offset of the passage in the page text, or null if it is not found
+ */
+export function locatePassage(pageText: string, text: string, position: number): { start: number; end: number } | null {
+  const pattern = buildSearchPattern(text, { matchCase: true, wholeWord: false })
+  if (!pattern) return null
+
+  const target = position * pageText.length
+  let nearest: { start: number; end: number } | null = null
+  for (const match of findMatches(pageText, pattern)) {
+    if (!nearest || Math.abs(match.start - target) < Math.abs(nearest.start - target)) nearest = match
+  }
+  return nearest
+}
+
+/**
+ * Finds the hits of a search in the text of every page
+ * @param pages - Text of each page, index 0 is page 1
+ * @param pattern - A global pattern from buildSearchPattern
+ * @returns Hits in page order, at most MAX_SEARCH_HITS
+ */
+export function searchPages(pages: string[], pattern: RegExp): SearchHit[] {
+  const hits: SearchHit[] = []
+
+  for (const [i, page] of pages.entries()) {
+    for (const [index, { start, end }] of findMatches(page, pattern).entries()) {
+      if (hits.length === MAX_SEARCH_HITS) return hits
+      const from = Math.max(0, start - SNIPPET_RADIUS)
+      const to = Math.min(page.length, end + SNIPPET_RADIUS)
+      hits.push({
+        pageNumber: i + 1,
+        index,
+        before: `${from > 0 ? "…" : ""}${page.slice(from, start).replace(/\s+/g, " ").trimStart()}`,
+        text: page.slice(start, end).replace(/\s+/g, " "),
+        after: `${page.slice(end, to).replace(/\s+/g, " ").trimEnd()}${to < page.length ? "…" : ""}`,
+      })
+    }
+  }
+
+  return hits
+}
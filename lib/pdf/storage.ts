@@ -0,0 +1,89 @@
+// Access to uploaded PDF files in Supabase Storage
+// Files live in the "pdfs" bucket under the owner's id; pdf_files rows keep
+// their public URL, from which the object path is recovered to download or
+// remove the file
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+// Storage bucket holding the uploaded PDFs
+export const PDF_BUCKET = "pdfs"
+
+/**
+ * Recovers the object path of a file from its public URL
+ * @param url - Public URL stored in pdf_files.url
+ * @returns The path inside the bucket, e.g. "<user id>/<timestamp>.pdf", or
+ * null if the URL does not point into the bucket
+ */
+export function storagePathFromUrl(url: string): string | null {
+  const marker = `/storage/v1/object/public/${PDF_BUCKET}/`
+  const index = url.indexOf(marker)
+  if (index === -1) return null
+  return decodeURIComponent(url.slice(index + marker.length).split("?")[0])
+}
+
+/**
+ * Checks that a URL is the public URL of a file in the user's own folder of the bucket
+ * @param supabase - Authenticated Supabase client
+ * @param params - The user's id and the URL to check
+ * @returns {boolean} Whether the URL points at one of the user's uploads
+ */
+export function isOwnPdfUrl(supabase: SupabaseClient, { userId, url }: { userId: string; url: string }) {
+  const path = storagePathFromUrl(url)
+  if (!path || !path.startsWith(`${userId}/`) || path.split("/").includes("..")) return false
+  // The URL must also be the bucket's own, not another host with the same path
+  return supabase.storage.from(PDF_BUCKET).getPublicUrl(path).data.publicUrl === url
+}
+
+/**
+ * Downloads an uploaded PDF with the user's session
+ * Only files in the bucket are downloaded; the server never fetches other URLs
+ * @param supabase - Authenticated Supabase client
+ * @param url - Public URL stored in pdf_files.url
+ * @returns {Promise<ArrayBuffer>} The file contents
+ */
+export async function downloadPdfFile(supabase: SupabaseClient, url: string): Promise<ArrayBuffer> {
+  const path = storagePathFromUrl(url)
+  if (!path) throw new Error("The PDF is not stored in the pdfs bucket")
+
+  const { data, error } = await supabase.storage.from(PDF_BUCKET).download(path)
+  if (error) throw error
+  return data.arrayBuffer()
+}
+
+/**
+ * Uploads a PDF into the owner's folder of the bucket under a new name
+ * @param supabase - Authenticated Supabase client
+ * @param params - Owner id and the file
+ * @returns {Promise<{ path: string; url: string }>} The object path and its public URL
+ */
+export async function uploadPdfFile(
+  supabase: SupabaseClient,
+  { userId, file }: { userId: string; file: File },
+): Promise<{ path: string; url: string }> {
+  // Unique name from the upload time; the display name is kept in pdf_files
+  const path = `${userId}/${Date.now()}.${file.name.split(".").pop()}`
+
+  const { error } = await supabase.storage.from(PDF_BUCKET).upload(path, file, {
+    cacheControl: "3600",
+    upsert: false,
+  })
+  if (error) throw error
+
+  const {
+    data: { publicUrl },
+  } = supabase.storage.from(PDF_BUCKET).getPublicUrl(path)
+  return { path, url: publicUrl }
+}
+
+/**
+ * Removes an uploaded PDF from the bucket
+ * URLs outside the bucket are left alone
+ * @param supabase - Authenticated Supabase client
+ * @param url - Public URL stored in pdf_files.url
+ */
+export async function removePdfFile(supabase: SupabaseClient, url: string) {
+  const path = storagePathFromUrl(url)
+  if (!path) return
+  const { error } = await supabase.storage.from(PDF_BUCKET).remove([path])
+  if (error) throw error
+}
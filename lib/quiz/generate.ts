@@ -0,0 +1,184 @@
+// Quiz generation from a page range of a PDF
+// The model returns questions as structured output; they are then checked and
+// normalized so every stored question can be graded without the model
+
+import { generateObject } from "ai"
+import { z } from "zod"
+import { getGenerationSettings, getLanguageModel } from "@/lib/ai/providers"
+import { formatPageRange } from "@/lib/pdf/extract"
+import {
+  QUIZ_QUESTION_TYPES,
+  quizQuestionTypeSchema,
+  type Quiz,
+  type QuizQuestion,
+  type QuizQuestionType,
+} from "@/lib/api/schemas"
+
+// Most characters of page text sent to the model
+const MAX_CONTEXT_LENGTH = 24000
+// Longest structured response allowed for a quiz (in tokens)
+const QUIZ_MAX_OUTPUT_TOKENS = 4000
+
+/**
+ * A quiz question as stored in quizzes.questions
+ * @property answer - Correct option for choice questions, a model answer for short answers
+ * @property explanation - Why the answer is correct, based on the document
+ * @property pageNumber - Page the answer can be found on
+ */
+export interface StoredQuizQuestion extends QuizQuestion {
+  answer: string
+  explanation: string
+  pageNumber: number
+}
+
+/**
+ * A quizzes row as loaded on the server
+ */
+export interface QuizRow extends Omit<Quiz, "questions"> {
+  questions: StoredQuizQuestion[]
+}
+
+// Columns of quizzes loaded on the server
+export const QUIZ_COLUMNS = "id, title, page_start, page_end, questions, created_at"
+
+/**
+ * Thrown when no usable quiz can be generated from the selected pages
+ */
+export class QuizGenerationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "QuizGenerationError"
+  }
+}
+
+// Shape of the structured output requested from the model
+const generatedQuizSchema = z.object({
+  title: z.string().describe("Short title of the quiz"),
+  questions: z.array(
+    z.object({
+      type: quizQuestionTypeSchema,
+      prompt: z.string().describe("The question"),
+      options: z
+        .array(z.string())
+        .describe("Four answer choices for multiple-choice questions; empty for other kinds"),
+      answer: z
+        .string()
+        .describe(
+          'The correct choice copied verbatim for multiple-choice, "True" or "False" for true-false, a model answer for short-answer',
+        ),
+      explanation: z.string().describe("Why the answer is correct, based on the document"),
+      pageNumber: z.number().int().describe("Page the answer can be found on"),
+    }),
+  ),
+})
+
+type GeneratedQuestion = z.infer<typeof generatedQuizSchema>["questions"][number]
+
+/**
+ * Checks a generated question and brings it into its stored form
+ * @param question - Question returned by the model
+ * @param range - Page range and kinds of questions that were requested
+ * @returns The question without an id, or null if it cannot be graded
+ */
+function normalizeQuestion(
+  question: GeneratedQuestion,
+  { pageStart, pageEnd, types }: { pageStart: number; pageEnd: number; types: QuizQuestionType[] },
+): Omit<StoredQuizQuestion, "id"> | null {
+  const prompt = question.prompt.trim()
+  const answer = question.answer.trim()
+  if (!prompt || !answer || !types.includes(question.type)) return null
+
+  // Cited pages outside the range are moved to its nearest end
+  const pageNumber = Math.min(Math.max(question.pageNumber, pageStart), pageEnd)
+  const base = { type: question.type, prompt, explanation: question.explanation.trim(), pageNumber }
+
+  switch (question.type) {
+    case "true-false": {
+      if (!/^(t|f)/i.test(answer)) return null
+      return { ...base, options: ["True", "False"], answer: /^t/i.test(answer) ? "True" : "False" }
+    }
+    case "multiple-choice": {
+      const options = Array.from(new Set(question.options.map((o) => o.trim()).filter(Boolean)))
+      // Accept the answer as the option text or as its letter ("B")
+      let correct = options.find((o) => o.toLowerCase() === answer.toLowerCase())
+      if (!correct && /^[a-h]$/i.test(answer)) correct = options[answer.toUpperCase().charCodeAt(0) - 65]
+      if (!correct) {
+        correct = answer
+        options.push(answer)
+      }
+      if (options.length < 2) return null
+      return { ...base, options, answer: correct }
+    }
+    case "short-answer":
+      return { ...base, options: [], answer }
+  }
+}
+
+/**
+ * Generates a quiz from a page range
+ * @param params - Text of every page, the range, the number and kinds of
+ * questions, and the registry id of the model
+ * @returns Title and questions ready to be stored
+ * @throws {QuizGenerationError} If the pages have no text or no usable question was generated
+ */
+export async function generateQuiz({
+  pages,
+  pageStart,
+  pageEnd,
+  questionCount,
+  types = [...QUIZ_QUESTION_TYPES],
+  modelId,
+}: {
+  pages: string[]
+  pageStart: number
+  pageEnd: number
+  questionCount: number
+  types?: QuizQuestionType[]
+  modelId: string
+}): Promise<{ title: string; questions: StoredQuizQuestion[] }> {
+  // Label every page so the model can name the page of each answer
+  const context = formatPageRange(pages, { pageStart, pageEnd, maxLength: MAX_CONTEXT_LENGTH })
+
+  if (!context) {
+    throw new QuizGenerationError("The selected pages contain no text to build a quiz from")
+  }
+
+  const { object } = await generateObject({
+    model: getLanguageModel(modelId),
+    schema: generatedQuizSchema,
+    system: `You are an AI tutor writing a quiz to check a student's understanding of a document.
+Write exactly ${questionCount} questions using only the pages below. Mix these kinds of questions: ${types.join(", ")}.
+Multiple-choice questions have four plausible choices and exactly one correct answer.
+Every question names the page its answer is found on and explains the answer in one or two sentences.
+
+Pages:
+${context}`,
+    prompt: `Write the quiz for pages ${pageStart}-${pageEnd}.`,
+    ...getGenerationSettings(),
+    maxOutputTokens: QUIZ_MAX_OUTPUT_TOKENS,
+  })
+
+  const questions = object.questions
+    .map((question) => normalizeQuestion(question, { pageStart, pageEnd, types }))
+    .filter((question) => question !== null)
+    .slice(0, questionCount)
+    .map((question, i) => ({ id: `q${i + 1}`, ...question }))
+
+  if (questions.length === 0) {
+    throw new QuizGenerationError("No usable questions could be generated from the selected pages")
+  }
+
+  return { title: object.title.trim() || `Pages ${pageStart}-${pageEnd}`, questions }
+}
+
+/**
+ * Removes answers and explanations from a quiz before it is sent to the client
+ * @param quiz - The stored quiz
+ * @returns {Quiz} The quiz as shown while taking it
+ */
+export function toPublicQuiz(quiz: QuizRow): Quiz {
+  return {
+    ...quiz,
+    questions: quiz.questions.map(({ id, type, prompt, options }) => ({ id, type, prompt, options })),
+  }
+}
@@ -0,0 +1,78 @@
+// Quiz grading
+// Choice questions are graded by comparing with the stored answer; short
+// answers are graded by the model against the stored model answer
+
+import { generateObject } from "ai"
+import { z } from "zod"
+import { getLanguageModel } from "@/lib/ai/providers"
+import type { QuizQuestionResult } from "@/lib/api/schemas"
+import type { StoredQuizQuestion } from "@/lib/quiz/generate"
+
+// Shape of the structured output requested from the grader
+const shortAnswerGradeSchema = z.object({
+  correct: z.boolean().describe("Whether the student's answer is essentially correct"),
+  feedback: z.string().describe("One or two sentences of feedback for the student"),
+})
+
+/**
+ * Grades a short answer with the model
+ * @param question - The stored question
+ * @param answer - The student's answer
+ * @param modelId - Registry id of the grading model
+ * @returns Whether the answer is correct and feedback for the student
+ */
+async function gradeShortAnswer(question: StoredQuizQuestion, answer: string, modelId: string) {
+  const { object } = await generateObject({
+    model: getLanguageModel(modelId),
+    schema: shortAnswerGradeSchema,
+    system: `You are an AI tutor grading a student's short answer to a quiz question.
+Compare it with the reference answer. Accept answers that are correct in substance even if worded differently or incomplete in minor details.
+Address the student directly in the feedback.`,
+    prompt: `Question: ${question.prompt}
+Reference answer: ${question.answer}
+Explanation: ${question.explanation}
+Student answer: ${answer}`,
+    // Grading should be deterministic
+    temperature: 0,
+  })
+  return object
+}
+
+/**
+ * Grades a quiz attempt
+ * @param questions - The stored questions of the quiz
+ * @param answers - The student's answers; missing answers count as incorrect
+ * @param modelId - Registry id of the model grading short answers
+ * @returns Per-question results, the number of correct answers and the number of questions
+ */
+export async function gradeAttempt(
+  questions: StoredQuizQuestion[],
+  answers: { questionId: string; answer: string }[],
+  modelId: string,
+): Promise<{ results: QuizQuestionResult[]; score: number; total: number }> {
+  const answerById = new Map(answers.map((a) => [a.questionId, a.answer.trim()]))
+
+  const results = await Promise.all(
+    questions.map(async (question): Promise<QuizQuestionResult> => {
+      const answer = answerById.get(question.id) ?? ""
+      const result = {
+        questionId: question.id,
+        answer,
+        correctAnswer: question.answer,
+        explanation: question.explanation,
+        pageNumber: question.pageNumber,
+      }
+
+      if (!answer) return { ...result, correct: false, feedback: null }
+
+      if (question.type === "short-answer") {
+        const { correct, feedback } = await gradeShortAnswer(question, answer, modelId)
+        return { ...result, correct, feedback }
+      }
+
+      return { ...result, correct: answer.toLowerCase() === question.answer.toLowerCase(), feedback: null }
+    }),
+  )
+
+  return { results, score: results.filter((r) => r.correct).length, total: questions.length }
+}
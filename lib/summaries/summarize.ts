@@ -0,0 +1,159 @@
+// Page, page-range and whole-document summaries
+// Ranges longer than the model context are summarized section by section and
+// the section summaries are then combined into one
+
+import { createHash } from "crypto"
+import { generateText } from "ai"
+import { getGenerationSettings, getLanguageModel } from "@/lib/ai/providers"
+import { formatPageRange } from "@/lib/pdf/extract"
+import type { SummaryLength } from "@/lib/api/schemas"
+
+// Most characters of page text summarized in one call
+const MAX_SECTION_LENGTH = 24000
+// Most section summaries requested from the model at the same time
+const SECTION_CONCURRENCY = 3
+
+// Columns of summaries returned to the client
+export const SUMMARY_COLUMNS = "id, scope, page_start, page_end, length, summary, model_id, created_at"
+
+// Instructions and answer budget (in tokens) for each summary length
+const LENGTH_SETTINGS: Record<SummaryLength, { instructions: string; maxOutputTokens: number }> = {
+  short: {
+    instructions: "Write a short summary of two or three sentences.",
+    maxOutputTokens: 200,
+  },
+  medium: {
+    instructions: "Write a summary of one paragraph followed by a list of the key points.",
+    maxOutputTokens: 600,
+  },
+  long: {
+    instructions:
+      "Write a detailed summary with a short section per main topic, covering definitions, arguments and examples.",
+    maxOutputTokens: 1500,
+  },
+}
+
+/**
+ * Maps items with an async function, running at most `limit` calls at a time
+ * @param items - The items
+ * @param limit - Most calls in flight
+ * @param fn - The async function
+ * @returns The results in the order of the items
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>) {
+  const results = new Array<R>(items.length)
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++
+      results[i] = await fn(items[i])
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return results
+}
+
+/**
+ * Fingerprint of the text of a page range, used as cache key
+ * @param pages - Text of every page, index 0 is page 1
+ * @param range - Inclusive page range
+ * @returns Hex SHA-256 of the page text
+ */
+export function hashPageRange(pages: string[], { pageStart, pageEnd }: { pageStart: number; pageEnd: number }) {
+  return createHash("sha256")
+    .update(pages.slice(pageStart - 1, pageEnd).join("\f"))
+    .digest("hex")
+}
+
+/**
+ * Splits a page range into consecutive sections that each fit one call
+ * @param pages - Text of every page, index 0 is page 1
+ * @param range - Inclusive page range
+ * @returns Inclusive page ranges of the sections
+ */
+function splitSections(pages: string[], { pageStart, pageEnd }: { pageStart: number; pageEnd: number }) {
+  const sections: { pageStart: number; pageEnd: number }[] = []
+  let section = { pageStart, pageEnd: pageStart - 1 }
+  let length = 0
+
+  for (let page = pageStart; page <= pageEnd; page++) {
+    const pageLength = (pages[page - 1] ?? "").length
+    if (length > 0 && length + pageLength > MAX_SECTION_LENGTH) {
+      sections.push(section)
+      section = { pageStart: page, pageEnd: page - 1 }
+      length = 0
+    }
+    section.pageEnd = page
+    length += pageLength
+  }
+  sections.push(section)
+
+  return sections
+}
+
+/**
+ * Summarizes a page range
+ * @param params - Text of every page, the inclusive range, the summary length
+ * and the registry id of the model
+ * @returns {Promise<string | null>} The summary, or null if the range has no text
+ */
+export async function summarizePages({
+  pages,
+  pageStart,
+  pageEnd,
+  length,
+  modelId,
+}: {
+  pages: string[]
+  pageStart: number
+  pageEnd: number
+  length: SummaryLength
+  modelId: string
+}): Promise<string | null> {
+  const model = getLanguageModel(modelId)
+  const { temperature } = getGenerationSettings()
+
+  /**
+   * Summarizes text that fits one call
+   */
+  const summarize = async (text: string, summaryLength: SummaryLength, what: string) => {
+    const { instructions, maxOutputTokens } = LENGTH_SETTINGS[summaryLength]
+    const { text: summary } = await generateText({
+      model,
+      system: `You are an AI tutor summarizing a document for a student.
+${instructions}
+Only use information from the text below. Write in the language of the text.
+
+${text}`,
+      prompt: `Summarize ${what}.`,
+      temperature,
+      maxOutputTokens,
+    })
+    return summary.trim()
+  }
+
+  const sections = splitSections(pages, { pageStart, pageEnd })
+    .map((section) => ({
+      ...section,
+      text: formatPageRange(pages, { ...section, maxLength: MAX_SECTION_LENGTH }),
+    }))
+    .filter((section) => section.text)
+
+  if (sections.length === 0) return null
+
+  if (sections.length === 1) {
+    return summarize(sections[0].text, length, pageStart === pageEnd ? `page ${pageStart}` : `pages ${pageStart}-${pageEnd}`)
+  }
+
+  // Summarize every section - a few at a time to stay within provider rate
+  // limits on long books - then combine the section summaries
+  const sectionSummaries = await mapWithConcurrency(sections, SECTION_CONCURRENCY, (section) =>
+    summarize(section.text, "medium", `pages ${section.pageStart}-${section.pageEnd}`),
+  )
+
+  return summarize(
+    sections.map((section, i) => `(Pages ${section.pageStart}-${section.pageEnd})\n${sectionSummaries[i]}`).join("\n\n"),
+    length,
+    `pages ${pageStart}-${pageEnd} based on these section summaries`,
+  )
+}
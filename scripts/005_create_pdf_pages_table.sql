@@ -0,0 +1,33 @@
+-- Create pdf_pages table holding the extracted text of every page
+-- pdf_files.text_content keeps the full document text; this table lets chat,
+-- search and citations work with individual pages
+create table if not exists public.pdf_pages (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  pdf_id uuid not null references public.pdf_files(id) on delete cascade,
+  page_number integer not null check (page_number > 0),
+  text_content text not null default '',
+  created_at timestamp with time zone default now(),
+  unique (pdf_id, page_number)
+);
+
+alter table public.pdf_pages enable row level security;
+
+drop policy if exists "pdf_pages_select_own" on public.pdf_pages;
+drop policy if exists "pdf_pages_insert_own" on public.pdf_pages;
+drop policy if exists "pdf_pages_delete_own" on public.pdf_pages;
+
+create policy "pdf_pages_select_own"
+  on public.pdf_pages for select
+  using (auth.uid() = user_id);
+
+create policy "pdf_pages_insert_own"
+  on public.pdf_pages for insert
+  with check (auth.uid() = user_id);
+
+create policy "pdf_pages_delete_own"
+  on public.pdf_pages for delete
+  using (auth.uid() = user_id);
+
+-- Create index for faster page lookups
+create index if not exists pdf_pages_pdf_page_idx on public.pdf_pages(pdf_id, page_number);
@@ -0,0 +1,109 @@
+-- Create pdf_chunks table: the retrieval index used by the AI tutor
+-- Every page of a PDF is split into overlapping passages that are stored with
+-- an embedding vector (semantic search) and a tsvector (keyword search)
+
+-- Enable pgvector for embedding columns
+create extension if not exists vector with schema extensions;
+
+create table if not exists public.pdf_chunks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  pdf_id uuid not null references public.pdf_files(id) on delete cascade,
+  page_number integer not null,
+  chunk_index integer not null,
+  content text not null,
+  -- Identifier of the embedder that produced the vector; vectors of different
+  -- embedders are not comparable, so retrieval only uses matching rows
+  embedding_model text not null,
+  embedding extensions.vector(1536) not null,
+  fts tsvector generated always as (to_tsvector('english', content)) stored,
+  created_at timestamp with time zone default now(),
+  unique (pdf_id, chunk_index)
+);
+
+alter table public.pdf_chunks enable row level security;
+
+drop policy if exists "pdf_chunks_select_own" on public.pdf_chunks;
+drop policy if exists "pdf_chunks_insert_own" on public.pdf_chunks;
+drop policy if exists "pdf_chunks_delete_own" on public.pdf_chunks;
+
+create policy "pdf_chunks_select_own"
+  on public.pdf_chunks for select
+  using (auth.uid() = user_id);
+
+create policy "pdf_chunks_insert_own"
+  on public.pdf_chunks for insert
+  with check (auth.uid() = user_id);
+
+create policy "pdf_chunks_delete_own"
+  on public.pdf_chunks for delete
+  using (auth.uid() = user_id);
+
+-- Indexes for keyword search, vector search and per-document lookups
+create index if not exists pdf_chunks_pdf_idx on public.pdf_chunks(pdf_id, page_number);
+create index if not exists pdf_chunks_fts_idx on public.pdf_chunks using gin (fts);
+create index if not exists pdf_chunks_embedding_idx
+  on public.pdf_chunks using hnsw (embedding extensions.vector_cosine_ops);
+
+-- Hybrid keyword + vector search over the chunks of one PDF
+-- Both rankings are merged with Reciprocal Rank Fusion and only consider chunks
+-- indexed with the query's embedding model; runs with the caller's
+-- permissions so row level security still applies
+create or replace function public.match_pdf_chunks(
+  query_text text,
+  query_embedding extensions.vector(1536),
+  target_pdf_id uuid,
+  target_embedding_model text,
+  match_count integer default 6,
+  full_text_weight float default 1,
+  semantic_weight float default 1,
+  rrf_k integer default 50
+)
+returns table (
+  id uuid,
+  pdf_id uuid,
+  page_number integer,
+  chunk_index integer,
+  content text,
+  score float
+)
+language sql stable
+set search_path = public, extensions
+as $$
+  with full_text as (
+    select
+      c.id,
+      row_number() over (
+        order by ts_rank_cd(c.fts, websearch_to_tsquery('english', query_text)) desc
+      ) as rank_ix
+    from public.pdf_chunks c
+    where c.pdf_id = target_pdf_id
+      and c.embedding_model = target_embedding_model
+      and c.fts @@ websearch_to_tsquery('english', query_text)
+    order by rank_ix
+    limit least(match_count, 30) * 2
+  ),
+  semantic as (
+    select
+      c.id,
+      row_number() over (order by c.embedding <=> query_embedding) as rank_ix
+    from public.pdf_chunks c
+    where c.pdf_id = target_pdf_id
+      and c.embedding_model = target_embedding_model
+    order by rank_ix
+    limit least(match_count, 30) * 2
+  )
+  select
+    c.id,
+    c.pdf_id,
+    c.page_number,
+    c.chunk_index,
+    c.content,
+    coalesce(1.0 / (rrf_k + full_text.rank_ix), 0.0) * full_text_weight +
+      coalesce(1.0 / (rrf_k + semantic.rank_ix), 0.0) * semantic_weight as score
+  from full_text
+  full outer join semantic on full_text.id = semantic.id
+  join public.pdf_chunks c on c.id = coalesce(full_text.id, semantic.id)
+  order by score desc
+  limit least(match_count, 30)
+$$;
@@ -0,0 +1,4 @@
+-- Store the page citations of tutor answers with each message
+-- Every element is { "index": n, "pageNumber": p, "snippet": "quoted text" }
+alter table public.messages
+  add column if not exists citations jsonb not null default '[]'::jsonb;
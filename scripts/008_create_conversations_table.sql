@@ -0,0 +1,80 @@
+-- Create conversations table: named chat threads per PDF
+-- A student can keep several threads (e.g. "exam review", "chapter 3
+-- questions") about the same document; every message belongs to one thread
+create table if not exists public.conversations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  pdf_id uuid not null references public.pdf_files(id) on delete cascade,
+  title text not null default 'New thread',
+  archived_at timestamp with time zone,
+  created_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now()
+);
+
+alter table public.conversations enable row level security;
+
+drop policy if exists "conversations_select_own" on public.conversations;
+drop policy if exists "conversations_insert_own" on public.conversations;
+drop policy if exists "conversations_update_own" on public.conversations;
+drop policy if exists "conversations_delete_own" on public.conversations;
+
+create policy "conversations_select_own"
+  on public.conversations for select
+  using (auth.uid() = user_id);
+
+create policy "conversations_insert_own"
+  on public.conversations for insert
+  with check (auth.uid() = user_id);
+
+create policy "conversations_update_own"
+  on public.conversations for update
+  using (auth.uid() = user_id);
+
+create policy "conversations_delete_own"
+  on public.conversations for delete
+  using (auth.uid() = user_id);
+
+create index if not exists conversations_user_pdf_idx
+  on public.conversations(user_id, pdf_id, updated_at desc);
+
+-- Scope messages to a thread; deleting a thread deletes its messages
+alter table public.messages
+  add column if not exists conversation_id uuid references public.conversations(id) on delete cascade;
+
+create index if not exists messages_conversation_idx
+  on public.messages(conversation_id, created_at);
+
+-- Move existing history into one "General" thread per user and PDF
+insert into public.conversations (user_id, pdf_id, title, created_at, updated_at)
+select m.user_id, m.pdf_id, 'General', min(m.created_at), max(m.created_at)
+from public.messages m
+where m.conversation_id is null and m.pdf_id is not null
+group by m.user_id, m.pdf_id;
+
+update public.messages m
+set conversation_id = c.id
+from public.conversations c
+where m.conversation_id is null
+  and c.user_id = m.user_id
+  and c.pdf_id = m.pdf_id
+  and c.title = 'General';
+
+-- Keep conversations.updated_at at the time of the latest message so the
+-- thread picker can list recently used threads first
+create or replace function public.touch_conversation()
+returns trigger as $$
+begin
+  update public.conversations
+  set updated_at = now()
+  where id = new.conversation_id;
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists on_message_created on public.messages;
+
+create trigger on_message_created
+  after insert on public.messages
+  for each row
+  when (new.conversation_id is not null)
+  execute procedure public.touch_conversation();
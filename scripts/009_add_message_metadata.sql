@@ -0,0 +1,8 @@
+-- Store generation metadata with assistant messages
+-- Written by /api/chat, which now owns message persistence
+alter table public.messages
+  add column if not exists model_id text,
+  add column if not exists prompt_tokens integer,
+  add column if not exists completion_tokens integer,
+  add column if not exists latency_ms integer,
+  add column if not exists finish_reason text;
@@ -0,0 +1,72 @@
+-- Create quizzes table: questions generated from a page range of a PDF
+-- questions holds the generated questions with their answers and explanations:
+-- [{ id, type, prompt, options, answer, explanation, pageNumber }]
+-- The API leaves answers out of a quiz until an attempt is graded; row level
+-- security lets the owner read the row, so they are hidden from the quiz UI,
+-- not from the student
+create table if not exists public.quizzes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  pdf_id uuid not null references public.pdf_files(id) on delete cascade,
+  title text not null,
+  page_start integer not null,
+  page_end integer not null,
+  questions jsonb not null,
+  model_id text,
+  created_at timestamp with time zone default now()
+);
+
+alter table public.quizzes enable row level security;
+
+drop policy if exists "quizzes_select_own" on public.quizzes;
+drop policy if exists "quizzes_insert_own" on public.quizzes;
+drop policy if exists "quizzes_delete_own" on public.quizzes;
+
+create policy "quizzes_select_own"
+  on public.quizzes for select
+  using (auth.uid() = user_id);
+
+create policy "quizzes_insert_own"
+  on public.quizzes for insert
+  with check (auth.uid() = user_id);
+
+create policy "quizzes_delete_own"
+  on public.quizzes for delete
+  using (auth.uid() = user_id);
+
+create index if not exists quizzes_user_pdf_idx
+  on public.quizzes(user_id, pdf_id, created_at desc);
+
+-- Create quiz_attempts table: graded answers to a quiz
+-- results holds one entry per question:
+-- [{ questionId, answer, correct, correctAnswer, explanation, pageNumber, feedback }]
+create table if not exists public.quiz_attempts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  quiz_id uuid not null references public.quizzes(id) on delete cascade,
+  results jsonb not null,
+  score integer not null,
+  total integer not null,
+  created_at timestamp with time zone default now()
+);
+
+alter table public.quiz_attempts enable row level security;
+
+drop policy if exists "quiz_attempts_select_own" on public.quiz_attempts;
+drop policy if exists "quiz_attempts_insert_own" on public.quiz_attempts;
+drop policy if exists "quiz_attempts_delete_own" on public.quiz_attempts;
+
+create policy "quiz_attempts_select_own"
+  on public.quiz_attempts for select
+  using (auth.uid() = user_id);
+
+create policy "quiz_attempts_insert_own"
+  on public.quiz_attempts for insert
+  with check (auth.uid() = user_id);
+
+create policy "quiz_attempts_delete_own"
+  on public.quiz_attempts for delete
+  using (auth.uid() = user_id);
+
+create index if not exists quiz_attempts_quiz_idx
+  on public.quiz_attempts(quiz_id, created_at desc);
@@ -0,0 +1,96 @@
+-- Create flashcard_decks table: one deck of flashcards per PDF
+create table if not exists public.flashcard_decks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  pdf_id uuid not null unique references public.pdf_files(id) on delete cascade,
+  title text not null,
+  created_at timestamp with time zone default now()
+);
+
+alter table public.flashcard_decks enable row level security;
+
+drop policy if exists "flashcard_decks_select_own" on public.flashcard_decks;
+drop policy if exists "flashcard_decks_insert_own" on public.flashcard_decks;
+drop policy if exists "flashcard_decks_update_own" on public.flashcard_decks;
+drop policy if exists "flashcard_decks_delete_own" on public.flashcard_decks;
+
+create policy "flashcard_decks_select_own"
+  on public.flashcard_decks for select
+  using (auth.uid() = user_id);
+
+create policy "flashcard_decks_insert_own"
+  on public.flashcard_decks for insert
+  with check (auth.uid() = user_id);
+
+create policy "flashcard_decks_update_own"
+  on public.flashcard_decks for update
+  using (auth.uid() = user_id);
+
+create policy "flashcard_decks_delete_own"
+  on public.flashcard_decks for delete
+  using (auth.uid() = user_id);
+
+-- Create flashcards table: cards with their SM-2 scheduling state
+-- source records what a card was generated from ('document', 'pages' or
+-- 'annotation'); annotation_id links cards generated from an annotation
+create table if not exists public.flashcards (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  deck_id uuid not null references public.flashcard_decks(id) on delete cascade,
+  pdf_id uuid not null references public.pdf_files(id) on delete cascade,
+  front text not null,
+  back text not null,
+  page_number integer,
+  source text not null check (source in ('document', 'pages', 'annotation')),
+  annotation_id uuid references public.annotations(id) on delete set null,
+  ease_factor real not null default 2.5,
+  interval_days integer not null default 0,
+  repetitions integer not null default 0,
+  due_at timestamp with time zone not null default now(),
+  last_reviewed_at timestamp with time zone,
+  created_at timestamp with time zone default now()
+);
+
+alter table public.flashcards enable row level security;
+
+drop policy if exists "flashcards_select_own" on public.flashcards;
+drop policy if exists "flashcards_insert_own" on public.flashcards;
+drop policy if exists "flashcards_update_own" on public.flashcards;
+drop policy if exists "flashcards_delete_own" on public.flashcards;
+
+create policy "flashcards_select_own"
+  on public.flashcards for select
+  using (auth.uid() = user_id);
+
+create policy "flashcards_insert_own"
+  on public.flashcards for insert
+  with check (auth.uid() = user_id);
+
+create policy "flashcards_update_own"
+  on public.flashcards for update
+  using (auth.uid() = user_id);
+
+create policy "flashcards_delete_own"
+  on public.flashcards for delete
+  using (auth.uid() = user_id);
+
+-- Review queues are read by due date
+create index if not exists flashcards_deck_due_idx
+  on public.flashcards(deck_id, due_at);
+create index if not exists flashcards_user_due_idx
+  on public.flashcards(user_id, due_at);
+
+-- Number of cards due for review per PDF, for the sidebar badges
+-- Runs with the caller's rights, so RLS limits it to their own cards
+create or replace function public.flashcard_due_counts()
+returns table (pdf_id uuid, due_count bigint)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select f.pdf_id, count(*) as due_count
+  from public.flashcards f
+  where f.due_at <= now()
+  group by f.pdf_id;
+$$;
@@ -0,0 +1,65 @@
+-- Create summaries table: cached page, page-range and whole-document summaries
+-- A summary is reused while the text of its pages is unchanged: content_hash is
+-- the SHA-256 of the summarized page text, so edited text never hits the cache
+create table if not exists public.summaries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  pdf_id uuid not null references public.pdf_files(id) on delete cascade,
+  scope text not null check (scope in ('page', 'range', 'document')),
+  page_start integer not null,
+  page_end integer not null,
+  length text not null check (length in ('short', 'medium', 'long')),
+  content_hash text not null,
+  summary text not null,
+  model_id text,
+  created_at timestamp with time zone default now(),
+  unique (pdf_id, page_start, page_end, length, content_hash)
+);
+
+alter table public.summaries enable row level security;
+
+drop policy if exists "summaries_select_own" on public.summaries;
+drop policy if exists "summaries_insert_own" on public.summaries;
+drop policy if exists "summaries_update_own" on public.summaries;
+drop policy if exists "summaries_delete_own" on public.summaries;
+
+create policy "summaries_select_own"
+  on public.summaries for select
+  using (auth.uid() = user_id);
+
+create policy "summaries_insert_own"
+  on public.summaries for insert
+  with check (auth.uid() = user_id);
+
+create policy "summaries_update_own"
+  on public.summaries for update
+  using (auth.uid() = user_id);
+
+create policy "summaries_delete_own"
+  on public.summaries for delete
+  using (auth.uid() = user_id);
+
+create index if not exists summaries_pdf_idx
+  on public.summaries(pdf_id, created_at desc);
+
+-- Drop the cached summaries of a PDF when its file is replaced (its text changes)
+create or replace function public.invalidate_pdf_summaries()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.text_content is distinct from old.text_content then
+    delete from public.summaries where pdf_id = new.id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_pdf_text_changed on public.pdf_files;
+
+create trigger on_pdf_text_changed
+  after update of text_content on public.pdf_files
+  for each row
+  execute function public.invalidate_pdf_summaries();
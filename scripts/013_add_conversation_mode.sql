@@ -0,0 +1,6 @@
+-- Store the tutoring mode of each chat thread
+-- /api/chat builds the tutor's system prompt from it (lib/ai/prompts.ts);
+-- existing threads keep the plain explaining tutor they had before
+alter table public.conversations
+  add column if not exists mode text not null default 'explain-simply'
+  check (mode in ('explain-simply', 'socratic', 'exam-prep', 'step-by-step', 'document-only'));
@@ -0,0 +1,36 @@
+-- Store annotation positions in normalized page coordinates
+-- position becomes { "rects": [{ "x", "y", "width", "height" }] } with every value
+-- a fraction (0-1) of the page width or height, measured from the top-left
+-- corner: one rect per selected line, or a single rect for a drawn box.
+-- text_start / text_end anchor a text annotation to its characters: offsets
+-- into the extracted text of its page (pdf_pages.text_content)
+alter table public.annotations
+  add column if not exists text_start integer,
+  add column if not exists text_end integer;
+
+-- Convert the pixel boxes of the old viewer where possible. They were drawn
+-- over a page shown at most 1024px wide (max-w-5xl); the page height is
+-- unknown here, so a US Letter page (11 / 8.5) is assumed. The converted
+-- boxes are approximate and can be adjusted or deleted by the student
+update public.annotations
+set position = jsonb_build_object(
+  'rects',
+  jsonb_build_array(
+    jsonb_build_object(
+      'x', least(greatest((position->>'x')::numeric / 1024, 0), 1),
+      'y', least(greatest((position->>'y')::numeric / (1024 * 11 / 8.5), 0), 1),
+      'width', least(greatest((position->>'width')::numeric / 1024, 0), 1),
+      'height', least(greatest((position->>'height')::numeric / (1024 * 11 / 8.5), 0), 1)
+    )
+  )
+)
+where not (position ? 'rects')
+  and jsonb_typeof(position->'x') = 'number'
+  and jsonb_typeof(position->'y') = 'number'
+  and jsonb_typeof(position->'width') = 'number'
+  and jsonb_typeof(position->'height') = 'number';
+
+-- Rows without a usable box keep their text but have no rects to draw
+update public.annotations
+set position = '{"rects": []}'::jsonb
+where not (position ? 'rects');
@@ -0,0 +1,16 @@
+-- Keep annotations.updated_at at the time of the latest edit, e.g. when the
+-- text of a sticky note is changed
+create or replace function public.touch_annotation()
+returns trigger as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists on_annotation_updated on public.annotations;
+
+create trigger on_annotation_updated
+  before update on public.annotations
+  for each row
+  execute procedure public.touch_annotation();
@@ -0,0 +1,10 @@
+-- Remember the annotation color each user picked from the palette
+-- New highlights, underlines and notes use it until another color is picked
+alter table public.profiles
+  add column if not exists annotation_color text not null default '#fde047';
+
+drop policy if exists "profiles_update_own" on public.profiles;
+
+create policy "profiles_update_own"
+  on public.profiles for update
+  using (auth.uid() = id);
@@ -0,0 +1,6 @@
+-- Store the passage of the PDF a question was asked about with the message
+-- Set on questions asked from a text selection in the viewer, null otherwise:
+-- { "pageNumber": p, "text": "selected text", "context": "paragraph" | null,
+--   "rects": [{ "x", "y", "width", "height" }] } in normalized page coordinates
+alter table public.messages
+  add column if not exists selection jsonb;
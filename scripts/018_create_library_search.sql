@@ -0,0 +1,94 @@
+-- Library-wide full-text search over documents, annotations and chat messages
+-- Pages, annotations and messages get a generated tsvector with a GIN index,
+-- and search_library ranks the matches of all of them for /api/search.
+-- The whole text of a document is not stored as a tsvector: for a large
+-- document it could exceed the 1 MB limit and make its upload fail. Documents
+-- uploaded before per-page storage get an expression index over the start of
+-- their text instead
+
+alter table public.pdf_pages
+  add column if not exists fts tsvector
+  generated always as (to_tsvector('english', text_content)) stored;
+
+alter table public.annotations
+  add column if not exists fts tsvector
+  generated always as (
+    to_tsvector('english', coalesce(text_content, '') || ' ' || coalesce(note_content, ''))
+  ) stored;
+
+alter table public.messages
+  add column if not exists fts tsvector
+  generated always as (to_tsvector('english', content)) stored;
+
+create index if not exists pdf_files_legacy_fts_idx
+  on public.pdf_files using gin (to_tsvector('english', left(text_content, 200000)));
+create index if not exists pdf_pages_fts_idx on public.pdf_pages using gin (fts);
+create index if not exists annotations_fts_idx on public.annotations using gin (fts);
+create index if not exists messages_fts_idx on public.messages using gin (fts);
+
+-- Ranked matches of a web-style query ("quoted phrases", or, -word) in the
+-- caller's documents, annotations and chat messages
+-- Document text is searched per page so a match opens on its page; documents
+-- uploaded before per-page storage are searched as a whole (their first
+-- 200,000 characters, through pdf_files_legacy_fts_idx) and open on page 1.
+-- Messages open on the page of the passage they ask about or their first
+-- citation. Snippets mark the matched words with U+E000 ... U+E001.
+-- Runs with the caller's permissions so row level security still applies
+create or replace function public.search_library(query_text text, match_count integer default 50)
+returns table (
+  kind text,
+  id uuid,
+  pdf_id uuid,
+  page_number integer,
+  snippet text,
+  rank real
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with query as (
+    select websearch_to_tsquery('english', query_text) as q
+  ),
+  matches as (
+    select 'page'::text as kind, p.id, p.pdf_id, p.page_number, p.text_content as body,
+      ts_rank_cd(p.fts, query.q) as rank
+    from public.pdf_pages p, query
+    where p.fts @@ query.q
+    union all
+    select 'page'::text, f.id, f.id, 1, left(f.text_content, 200000),
+      ts_rank_cd(to_tsvector('english', left(f.text_content, 200000)), query.q)
+    from public.pdf_files f, query
+    where to_tsvector('english', left(f.text_content, 200000)) @@ query.q
+      and not exists (select 1 from public.pdf_pages p where p.pdf_id = f.id)
+    union all
+    select 'annotation'::text, a.id, a.pdf_id, a.page_number,
+      concat_ws(' – ', a.text_content, a.note_content), ts_rank_cd(a.fts, query.q)
+    from public.annotations a, query
+    where a.fts @@ query.q
+    union all
+    select 'message'::text, m.id, m.pdf_id,
+      coalesce((m.selection ->> 'pageNumber')::integer, (m.citations -> 0 ->> 'pageNumber')::integer),
+      m.content, ts_rank_cd(m.fts, query.q)
+    from public.messages m, query
+    where m.pdf_id is not null
+      and m.fts @@ query.q
+    order by rank desc
+    limit least(match_count, 100)
+  )
+  select
+    matches.kind,
+    matches.id,
+    matches.pdf_id,
+    matches.page_number,
+    ts_headline(
+      'english',
+      matches.body,
+      query.q,
+      'StartSel=' || chr(57344) || ', StopSel=' || chr(57345) || ', MinWords=12, MaxWords=30'
+    ) as snippet,
+    matches.rank
+  from matches, query
+  order by matches.rank desc
+$$;
@@ -0,0 +1,79 @@
+-- Let a chat thread draw on several documents at once
+-- pdf_ids lists every document the tutor retrieves passages from, including
+-- the thread's own pdf_id; the thread is listed with each of them. Documents
+-- deleted later simply stop being searched
+alter table public.conversations
+  add column if not exists pdf_ids uuid[] not null default '{}';
+
+-- Existing threads keep their single document
+update public.conversations
+set pdf_ids = array[pdf_id]
+where pdf_ids = '{}';
+
+-- Threads of a document are looked up with pdf_ids @> array[document]
+create index if not exists conversations_pdf_ids_idx on public.conversations using gin (pdf_ids);
+
+-- Hybrid keyword + vector search over the chunks of several PDFs
+-- Replaces the single-document version of 006; both rankings are still merged
+-- with Reciprocal Rank Fusion across all of the documents together, over the
+-- chunks indexed with the query's embedding model
+drop function if exists public.match_pdf_chunks(text, extensions.vector, uuid, text, integer, float, float, integer);
+
+create or replace function public.match_pdf_chunks(
+  query_text text,
+  query_embedding extensions.vector(1536),
+  target_pdf_ids uuid[],
+  target_embedding_model text,
+  match_count integer default 6,
+  full_text_weight float default 1,
+  semantic_weight float default 1,
+  rrf_k integer default 50
+)
+returns table (
+  id uuid,
+  pdf_id uuid,
+  page_number integer,
+  chunk_index integer,
+  content text,
+  score float
+)
+language sql stable
+set search_path = public, extensions
+as $$
+  with full_text as (
+    select
+      c.id,
+      row_number() over (
+        order by ts_rank_cd(c.fts, websearch_to_tsquery('english', query_text)) desc
+      ) as rank_ix
+    from public.pdf_chunks c
+    where c.pdf_id = any(target_pdf_ids)
+      and c.embedding_model = target_embedding_model
+      and c.fts @@ websearch_to_tsquery('english', query_text)
+    order by rank_ix
+    limit least(match_count, 30) * 2
+  ),
+  semantic as (
+    select
+      c.id,
+      row_number() over (order by c.embedding <=> query_embedding) as rank_ix
+    from public.pdf_chunks c
+    where c.pdf_id = any(target_pdf_ids)
+      and c.embedding_model = target_embedding_model
+    order by rank_ix
+    limit least(match_count, 30) * 2
+  )
+  select
+    c.id,
+    c.pdf_id,
+    c.page_number,
+    c.chunk_index,
+    c.content,
+    coalesce(1.0 / (rrf_k + full_text.rank_ix), 0.0) * full_text_weight +
+      coalesce(1.0 / (rrf_k + semantic.rank_ix), 0.0) * semantic_weight as score
+  from full_text
+  full outer join semantic on full_text.id = semantic.id
+  join public.pdf_chunks c on c.id = coalesce(full_text.id, semantic.id)
+  order by score desc
+  limit least(match_count, 30)
+$$;
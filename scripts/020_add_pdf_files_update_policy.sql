@@ -0,0 +1,10 @@
+-- Let users rename their documents and replace their files
+-- Renaming updates pdf_files.name from the dashboard; replacing a file keeps
+-- the record (and everything attached to it) and updates its url, text and
+-- page count through /api/extract-text. Deleting already has pdf_files_delete_own
+drop policy if exists "pdf_files_update_own" on public.pdf_files;
+
+create policy "pdf_files_update_own"
+  on public.pdf_files for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
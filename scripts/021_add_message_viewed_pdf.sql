@@ -0,0 +1,90 @@
+-- Keep the messages of a thread with the thread's own document
+-- messages.pdf_id cascades on delete, so in a thread drawing on several
+-- documents it must be the thread's pdf_id rather than the document open when
+-- the message was sent - otherwise deleting that document would remove turns
+-- of another document's thread. The open document is kept in viewed_pdf_id
+-- (a selection was made in it) and cleared if it is deleted
+alter table public.messages
+  add column if not exists viewed_pdf_id uuid references public.pdf_files(id) on delete set null;
+
+-- Messages stored so far were sent with their document open
+update public.messages m
+set viewed_pdf_id = m.pdf_id,
+  pdf_id = c.pdf_id
+from public.conversations c
+where c.id = m.conversation_id
+  and m.viewed_pdf_id is null
+  and m.pdf_id is not null;
+
+-- Library search opens a question about a selection in the document it was
+-- selected in, and other messages on the page of their first citation in the
+-- document that citation names; otherwise as in 018
+create or replace function public.search_library(query_text text, match_count integer default 50)
+returns table (
+  kind text,
+  id uuid,
+  pdf_id uuid,
+  page_number integer,
+  snippet text,
+  rank real
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with query as (
+    select websearch_to_tsquery('english', query_text) as q
+  ),
+  matches as (
+    select 'page'::text as kind, p.id, p.pdf_id, p.page_number, p.text_content as body,
+      ts_rank_cd(p.fts, query.q) as rank
+    from public.pdf_pages p, query
+    where p.fts @@ query.q
+    union all
+    select 'page'::text, f.id, f.id, 1, left(f.text_content, 200000),
+      ts_rank_cd(to_tsvector('english', left(f.text_content, 200000)), query.q)
+    from public.pdf_files f, query
+    where to_tsvector('english', left(f.text_content, 200000)) @@ query.q
+      and not exists (select 1 from public.pdf_pages p where p.pdf_id = f.id)
+    union all
+    select 'annotation'::text, a.id, a.pdf_id, a.page_number,
+      concat_ws(' – ', a.text_content, a.note_content), ts_rank_cd(a.fts, query.q)
+    from public.annotations a, query
+    where a.fts @@ query.q
+    union all
+    select 'message'::text, m.id,
+      case when m.selection is not null and m.viewed_pdf_id is not null then m.viewed_pdf_id
+        else coalesce(cited.pdf_id, m.pdf_id) end,
+      case when m.selection is not null and m.viewed_pdf_id is not null then (m.selection ->> 'pageNumber')::integer
+        else cited.page_number end,
+      m.content, ts_rank_cd(m.fts, query.q)
+    from public.messages m
+    cross join query
+    -- The first citation names its own document in threads drawing on several;
+    -- a citation of a document deleted since opens the message's document
+    left join lateral (
+      select f.id as pdf_id, (m.citations -> 0 ->> 'pageNumber')::integer as page_number
+      from public.pdf_files f
+      where f.id = coalesce((m.citations -> 0 ->> 'pdfId')::uuid, m.pdf_id)
+    ) cited on true
+    where m.pdf_id is not null
+      and m.fts @@ query.q
+    order by rank desc
+    limit least(match_count, 100)
+  )
+  select
+    matches.kind,
+    matches.id,
+    matches.pdf_id,
+    matches.page_number,
+    ts_headline(
+      'english',
+      matches.body,
+      query.q,
+      'StartSel=' || chr(57344) || ', StopSel=' || chr(57345) || ', MinWords=12, MaxWords=30'
+    ) as snippet,
+    matches.rank
+  from matches, query
+  order by matches.rank desc
+$$;
@@ -0,0 +1,54 @@
+-- Keep chat threads drawing on several documents when their own document is deleted
+-- conversations.pdf_id and messages.pdf_id cascade on delete, which would
+-- remove a whole thread together with its first document even though it still
+-- draws on others. Before a document is deleted, such a thread (and its
+-- messages) moves to the next of its documents that still exists; other
+-- threads simply stop listing the deleted document in pdf_ids
+create or replace function public.rehome_pdf_conversations()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  with moved as (
+    update public.conversations c
+    set pdf_id = next_pdf.pdf_id,
+      pdf_ids = array_remove(c.pdf_ids, old.id)
+    from (
+      select t.id,
+        (
+          select doc.id
+          from unnest(t.pdf_ids) with ordinality as doc(id, position)
+          where doc.id <> old.id
+            and exists (select 1 from public.pdf_files f where f.id = doc.id)
+          order by doc.position
+          limit 1
+        ) as pdf_id
+      from public.conversations t
+      where t.pdf_id = old.id
+    ) next_pdf
+    where c.id = next_pdf.id
+      and next_pdf.pdf_id is not null
+    returning c.id, c.pdf_id
+  )
+  update public.messages m
+  set pdf_id = moved.pdf_id
+  from moved
+  where m.conversation_id = moved.id;
+
+  update public.conversations
+  set pdf_ids = array_remove(pdf_ids, old.id)
+  where pdf_ids @> array[old.id]
+    and pdf_id <> old.id;
+
+  return old;
+end;
+$$;
+
+drop trigger if exists on_pdf_deleting on public.pdf_files;
+
+create trigger on_pdf_deleting
+  before delete on public.pdf_files
+  for each row
+  execute function public.rehome_pdf_conversations();
@@ -0,0 +1,8 @@
+-- Group documents into course folders
+-- folder names the course a document belongs to, null if it is in none; a
+-- chat thread can draw on every document of a folder at once. Folders are
+-- changed from the dashboard under pdf_files_update_own
+alter table public.pdf_files
+  add column if not exists folder text check (char_length(folder) between 1 and 100);
+
+create index if not exists pdf_files_folder_idx on public.pdf_files(user_id, folder);